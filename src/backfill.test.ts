@@ -0,0 +1,188 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, it, mock } from 'node:test';
+import { GA4BackfillImporter, GA4MemoryBackfillCheckpoint } from './backfill.js';
+import { GA4Client } from './client.js';
+import type { GA4Error } from './errors.js';
+import { GA4FileBackfillCheckpoint } from './storage.js';
+import { GA4RecordingTransport } from './testing.js';
+import type { GA4BackfillRejection } from './types.js';
+
+describe('GA4BackfillImporter', () => {
+	const hoursAgo = (hours: number) => new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+	const setup = () => {
+		const transport = new GA4RecordingTransport();
+		const client = new GA4Client({ measurementId: 'G-TEST123', apiSecret: 'test-secret', fetch: transport.fetch });
+		return { transport, client };
+	};
+	const mapping = { client_id: 'cid', timestamp: 'time', name: 'event' };
+
+	it('should map CSV columns and group rows per user into requests of at most 25 events', async () => {
+		const { transport, client } = setup();
+		const time = hoursAgo(1);
+		const rows = Array.from({ length: 30 }, (_, i) => `${i % 3 === 0 ? 'b' : 'a'},${time},purchase,"1,5${i}"`);
+		const csv = ['cid,time,event,price', ...rows].join('\r\n');
+
+		const importer = new GA4BackfillImporter(client, {
+			format: 'csv',
+			mapping: { ...mapping, params: { price: (r) => Number(String(r.price).replace(',', '.')) } },
+			requestsPerSecond: 1000,
+		});
+		const result = await importer.run([csv]);
+
+		assert.deepEqual(result, { rows: 30, resumed: 0, imported: 30, rejected: 0, requests: 2 });
+		assert.deepEqual(
+			transport.requests.map((r) => [r.body.client_id, r.body.events.length]),
+			[
+				['b', 10],
+				['a', 20],
+			],
+		);
+		const first = transport.events('purchase')[0];
+		assert.equal(first?.params?.price, 1.5);
+		assert.equal(first?.timestamp_micros, Date.parse(time) * 1000);
+	});
+
+	it('should split a user with more than 25 rows into several requests', async () => {
+		const { transport, client } = setup();
+		const lines = Array.from({ length: 30 }, () => JSON.stringify({ cid: 'a', time: Date.now(), event: 'scroll' }));
+
+		await new GA4BackfillImporter(client, { format: 'ndjson', mapping, requestsPerSecond: 1000 }).run([
+			lines.join('\n'),
+		]);
+
+		assert.deepEqual(
+			transport.requests.map((r) => r.body.events.length),
+			[25, 5],
+		);
+	});
+
+	it('should report rows outside the backdate window or that cannot be mapped', async () => {
+		const { transport, client } = setup();
+		const rejections: GA4BackfillRejection[] = [];
+		const ndjson = [
+			{ cid: 'a', time: hoursAgo(73), event: 'login' },
+			{ cid: 'a', time: 'yesterday-ish', event: 'login' },
+			{ cid: 'a', time: hoursAgo(71), event: 'ga_reserved' },
+			'not json',
+			{ user: { cid: 'a' }, time: Math.floor(Date.now() / 1000), event: 'login' },
+		].map((row) => (typeof row === 'string' ? row : JSON.stringify(row)));
+
+		const importer = new GA4BackfillImporter(client, {
+			format: 'ndjson',
+			mapping: { ...mapping, client_id: 'user.cid' },
+			onReject: (r) => rejections.push(r),
+		});
+		const result = await importer.run([ndjson.join('\n')]);
+
+		assert.deepEqual(
+			rejections.map((r) => [r.row, r.reason]),
+			[
+				[1, 'outside_window'],
+				[2, 'invalid'],
+				[3, 'invalid'],
+				[4, 'invalid'],
+			],
+		);
+		assert.equal(result.imported, 1);
+		transport.assertEventSent('login');
+	});
+
+	it('should check the backdate window again when sending and reject future timestamps', async (t) => {
+		const now = Date.parse('2026-01-10T12:00:00Z');
+		t.after(() => mock.timers.reset());
+		mock.timers.enable({ apis: ['Date'], now });
+		const transport = new GA4RecordingTransport();
+		const fetch: typeof globalThis.fetch = (input, init) => {
+			// The import is slow: the next request goes out an hour later.
+			mock.timers.setTime(now + 60 * 60 * 1000);
+			return transport.fetch(input, init);
+		};
+		const client = new GA4Client({ measurementId: 'G-TEST123', apiSecret: 'test-secret', fetch });
+		const rejections: GA4BackfillRejection[] = [];
+		const at = (hours: number) => new Date(now - hours * 60 * 60 * 1000).toISOString();
+		const csv = ['cid,time,event', `a,${at(71)},login`, `b,${at(71.5)},login`, `c,${at(-1)},login`].join('\n');
+
+		const importer = new GA4BackfillImporter(client, {
+			format: 'csv',
+			mapping,
+			requestsPerSecond: 1000,
+			onReject: (r) => rejections.push(r),
+		});
+		const result = await importer.run([csv]);
+
+		assert.deepEqual(
+			rejections.map((r) => [r.row, r.reason, r.message.endsWith('in the future')]),
+			[
+				[3, 'outside_window', true],
+				[2, 'outside_window', false],
+			],
+		);
+		assert.deepEqual(result, { rows: 3, resumed: 0, imported: 1, rejected: 2, requests: 1 });
+		assert.deepEqual(
+			transport.requests.map((r) => r.body.client_id),
+			['a'],
+		);
+	});
+
+	it('should throw on the first rejected row with invalidRows: throw', async () => {
+		const { client } = setup();
+		const importer = new GA4BackfillImporter(client, { format: 'csv', mapping, invalidRows: 'throw' });
+
+		await assert.rejects(importer.run([`cid,time,event\na,${hoursAgo(80)},login`]), (error: GA4Error) =>
+			error.message.startsWith('Row 1: Timestamp'),
+		);
+	});
+
+	it('should throttle requests', async () => {
+		const { transport, client } = setup();
+		const csv = ['cid,time,event', ...['a', 'b', 'c'].map((cid) => `${cid},${hoursAgo(1)},login`)].join('\n');
+
+		const started = Date.now();
+		await new GA4BackfillImporter(client, { format: 'csv', mapping, requestsPerSecond: 20 }).run([csv]);
+
+		assert.equal(transport.requests.length, 3);
+		assert.ok(Date.now() - started >= 95);
+	});
+
+	it('should resume after the last checkpoint', async () => {
+		const { transport, client } = setup();
+		const checkpoint = new GA4MemoryBackfillCheckpoint();
+		const time = hoursAgo(1);
+		const row = (cid: string) => `${JSON.stringify({ cid, time, event: 'login' })}\n`;
+		const options = { format: 'ndjson' as const, mapping, checkpoint, chunkSize: 2, requestsPerSecond: 1000 };
+
+		async function* interrupted() {
+			yield row('a') + row('b') + row('c');
+			throw new Error('connection reset');
+		}
+		await assert.rejects(new GA4BackfillImporter(client, options).run(interrupted()), /connection reset/);
+		assert.equal(await checkpoint.load(), 2);
+
+		const result = await new GA4BackfillImporter(client, options).run([row('a') + row('b') + row('c') + row('d')]);
+
+		assert.deepEqual(result, { rows: 2, resumed: 2, imported: 2, rejected: 0, requests: 2 });
+		assert.deepEqual(
+			transport.requests.map((r) => r.body.client_id),
+			['a', 'b', 'c', 'd'],
+		);
+		assert.equal(await checkpoint.load(), 4);
+	});
+
+	describe('GA4FileBackfillCheckpoint', () => {
+		it('should persist progress', async () => {
+			const dir = await mkdtemp(join(tmpdir(), 'ga4-backfill-'));
+			try {
+				const path = join(dir, 'nested', 'checkpoint.json');
+				assert.equal(await new GA4FileBackfillCheckpoint({ path }).load(), 0);
+
+				await new GA4FileBackfillCheckpoint({ path }).save(1200);
+				assert.equal(await new GA4FileBackfillCheckpoint({ path }).load(), 1200);
+			} finally {
+				await rm(dir, { recursive: true, force: true });
+			}
+		});
+	});
+});
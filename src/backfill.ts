@@ -0,0 +1,356 @@
+/**
+ * GA4 Backfill - streams historical events from CSV or NDJSON exports into GA4.
+ */
+
+import type { GA4Client } from './client.js';
+import { GA4Error, GA4ErrorCode, GA4ValidationError } from './errors.js';
+import { groupByIdentity } from './grouping.js';
+import {
+	GA4,
+	type GA4BackfillCheckpoint,
+	type GA4BackfillField,
+	type GA4BackfillMapping,
+	type GA4BackfillOptions,
+	type GA4BackfillRejection,
+	type GA4BackfillResult,
+	type GA4BackfillRow,
+	type GA4Event,
+	type GA4EventParams,
+	type GA4UserProperties,
+	type RetryOptions,
+} from './types.js';
+import { toMicros } from './utils.js';
+import { validateEvent } from './validation.js';
+
+const MAX_AGE_MS = GA4.MAX_BACKDATE_HOURS * 60 * 60 * 1000;
+
+/** A mapped row waiting to be sent. */
+interface PendingRow {
+	row: number;
+	event: GA4Event;
+}
+
+/**
+ * Imports historical events from a CSV or NDJSON stream. Rows are mapped to one event each, checked
+ * against the `GA4.MAX_BACKDATE_HOURS` window (again just before sending), grouped per user into requests of at most 25 events and
+ * sent at no more than `requestsPerSecond`. Progress is checkpointed after each chunk, so a crash can
+ * resend at most one chunk.
+ * @example
+ * const importer = new GA4BackfillImporter(client, {
+ *   format: 'csv',
+ *   mapping: { client_id: 'cid', timestamp: 'time', name: 'event', params: { value: (r) => Number(r.revenue) } },
+ *   checkpoint: new GA4FileBackfillCheckpoint({ path: './data/backfill.json' }),
+ *   onReject: (r) => console.warn(`row ${r.row}: ${r.message}`),
+ * });
+ * const result = await importer.run(createReadStream('export.csv'));
+ */
+export class GA4BackfillImporter {
+	private readonly client: GA4Client;
+	private readonly format: GA4BackfillOptions['format'];
+	private readonly mapping: GA4BackfillMapping;
+	private readonly intervalMs: number;
+	private readonly chunkSize: number;
+	private readonly invalidRows: NonNullable<GA4BackfillOptions['invalidRows']>;
+	private readonly onReject?: (rejection: GA4BackfillRejection) => void;
+	private readonly checkpoint?: GA4BackfillCheckpoint;
+	private readonly retry?: RetryOptions;
+	private readonly delimiter: string;
+	private nextRequestAt = 0;
+
+	constructor(client: GA4Client, options: GA4BackfillOptions) {
+		const requestsPerSecond = options.requestsPerSecond ?? GA4.BACKFILL_REQUESTS_PER_SECOND;
+		if (!(requestsPerSecond > 0)) throw new Error('requestsPerSecond must be greater than 0');
+
+		const chunkSize = options.chunkSize ?? GA4.BACKFILL_CHUNK_SIZE;
+		if (chunkSize < 1) throw new Error('chunkSize must be at least 1');
+
+		this.client = client;
+		this.format = options.format;
+		this.mapping = options.mapping;
+		this.intervalMs = 1000 / requestsPerSecond;
+		this.chunkSize = chunkSize;
+		this.invalidRows = options.invalidRows ?? 'skip';
+		this.onReject = options.onReject;
+		this.checkpoint = options.checkpoint;
+		this.retry = options.retry;
+		this.delimiter = options.delimiter ?? ',';
+	}
+
+	/**
+	 * Import every row of `input` (e.g., a file ReadStream), resuming after the checkpoint if one is set.
+	 * Rejects with the first send failure after retries; rows up to the last checkpoint are not sent again.
+	 */
+	async run(input: AsyncIterable<string | Uint8Array>): Promise<GA4BackfillResult> {
+		const resumed = (await this.checkpoint?.load()) ?? 0;
+		const result: GA4BackfillResult = { rows: 0, resumed: 0, imported: 0, rejected: 0, requests: 0 };
+		let chunk: PendingRow[] = [];
+		let row = 0;
+		let checkpointed = resumed;
+
+		for await (const data of this.format === 'csv' ? csvRows(input, this.delimiter) : ndjsonRows(input)) {
+			row++;
+			if (row <= resumed) {
+				result.resumed++;
+				continue;
+			}
+
+			result.rows++;
+			const mapped = this.map(row, data);
+			if ('event' in mapped) chunk.push(mapped);
+			else {
+				result.rejected++;
+				this.reject(mapped);
+			}
+
+			if (row - checkpointed >= this.chunkSize) {
+				await this.sendChunk(chunk, result);
+				await this.checkpoint?.save(row);
+				checkpointed = row;
+				chunk = [];
+			}
+		}
+
+		if (row > checkpointed) {
+			await this.sendChunk(chunk, result);
+			await this.checkpoint?.save(row);
+		}
+		return result;
+	}
+
+	private async sendChunk(chunk: PendingRow[], result: GA4BackfillResult): Promise<void> {
+		const rows = new Map(chunk.map((p) => [p.event, p.row]));
+
+		for (const group of groupByIdentity(chunk.map((p) => p.event))) {
+			await this.throttle();
+			// Rows can leave the window while they wait, in slow imports or when resuming a checkpoint.
+			const current = group.filter((event) => {
+				const rejection = windowRejection(rows.get(event) ?? 0, (event.timestamp_micros ?? 0) / 1000);
+				if (!rejection) return true;
+				result.rejected++;
+				this.reject(rejection);
+				return false;
+			});
+			if (!current.length) continue;
+
+			await this.client.sendWithRetry(current, this.retry);
+			result.requests++;
+			result.imported += current.length;
+		}
+	}
+
+	/** Wait until the next request fits within `requestsPerSecond`. */
+	private async throttle(): Promise<void> {
+		const wait = this.nextRequestAt - Date.now();
+		if (wait > 0) await new Promise((r) => setTimeout(r, wait));
+		this.nextRequestAt = Math.max(Date.now(), this.nextRequestAt) + this.intervalMs;
+	}
+
+	private reject(rejection: GA4BackfillRejection): void {
+		if (this.invalidRows === 'throw') {
+			throw new GA4Error(GA4ErrorCode.Validation, `Row ${rejection.row}: ${rejection.message}`);
+		}
+		this.onReject?.(rejection);
+	}
+
+	/** Map a row to a payload, or to the reason it cannot be imported. */
+	private map(row: number, data: GA4BackfillRow | Error): PendingRow | GA4BackfillRejection {
+		if (data instanceof Error) return { row, reason: 'invalid', message: data.message };
+
+		const { mapping } = this;
+		const date = toDate(read(data, mapping.timestamp));
+		if (!date) return { row, reason: 'invalid', message: 'Missing or unparseable timestamp' };
+		const rejection = windowRejection(row, date.getTime());
+		if (rejection) return rejection;
+
+		const name = read(data, mapping.name);
+		const event = {
+			client_id: text(read(data, mapping.client_id)),
+			app_instance_id: text(read(data, mapping.app_instance_id)),
+			user_id: text(read(data, mapping.user_id)),
+			timestamp_micros: toMicros(date),
+			user_properties: mapping.user_properties && userProperties(data, mapping.user_properties),
+			events: [{ name: text(name) ?? '', params: mapping.params && params(data, mapping.params) }],
+		} as GA4Event;
+
+		try {
+			return { row, event: validateEvent(omitUndefined(event)).event };
+		} catch (error) {
+			if (error instanceof GA4ValidationError) return { row, reason: 'invalid', message: error.message };
+			throw error;
+		}
+	}
+}
+
+/**
+ * In-memory checkpoint, for tests and imports that only need to survive retries within one process.
+ * @example
+ * const checkpoint = new GA4MemoryBackfillCheckpoint();
+ */
+export class GA4MemoryBackfillCheckpoint implements GA4BackfillCheckpoint {
+	private rows = 0;
+
+	async load(): Promise<number> {
+		return this.rows;
+	}
+
+	async save(rows: number): Promise<void> {
+		this.rows = rows;
+	}
+}
+
+/** Why a row timestamped at `ms` cannot be sent now: older than `GA4.MAX_BACKDATE_HOURS`, or in the future. */
+function windowRejection(row: number, ms: number): GA4BackfillRejection | undefined {
+	const now = Date.now();
+	const timestamp = new Date(ms).toISOString();
+	if (now - ms > MAX_AGE_MS) {
+		return {
+			row,
+			reason: 'outside_window',
+			message: `Timestamp ${timestamp} is more than ${GA4.MAX_BACKDATE_HOURS} hours old`,
+		};
+	}
+	if (ms > now) return { row, reason: 'outside_window', message: `Timestamp ${timestamp} is in the future` };
+	return undefined;
+}
+
+/** Read a field: a function, an exact column name, or a dot path into nested objects. */
+function read(row: GA4BackfillRow, field: GA4BackfillField | undefined): unknown {
+	if (field === undefined) return undefined;
+	if (typeof field === 'function') return field(row);
+	if (field in row) return row[field];
+	return field.split('.').reduce<unknown>((value, key) => (value as GA4BackfillRow | undefined)?.[key], row);
+}
+
+function isEmpty(value: unknown): boolean {
+	return value === undefined || value === null || value === '';
+}
+
+function text(value: unknown): string | undefined {
+	return isEmpty(value) ? undefined : String(value);
+}
+
+function params(row: GA4BackfillRow, fields: Record<string, GA4BackfillField>): GA4EventParams {
+	const result: GA4EventParams = {};
+	for (const [name, field] of Object.entries(fields)) {
+		const value = read(row, field);
+		if (!isEmpty(value)) result[name] = value as GA4EventParams[string];
+	}
+	return result;
+}
+
+function userProperties(row: GA4BackfillRow, fields: Record<string, GA4BackfillField>): GA4UserProperties {
+	const result: GA4UserProperties = {};
+	for (const [name, field] of Object.entries(fields)) {
+		const value = read(row, field);
+		if (!isEmpty(value)) result[name] = { value: value as string | number };
+	}
+	return result;
+}
+
+function omitUndefined<T extends object>(value: T): T {
+	return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+}
+
+/** Parse a Date, ISO 8601 string or Unix timestamp; values ≥ 1e14 are µs, ≥ 1e11 ms, smaller ones seconds. */
+function toDate(value: unknown): Date | undefined {
+	if (value instanceof Date) return Number.isNaN(value.getTime()) ? undefined : value;
+
+	const number =
+		typeof value === 'number'
+			? value
+			: typeof value === 'string' && /^\d+(\.\d+)?$/.test(value.trim())
+				? Number(value)
+				: Number.NaN;
+	if (Number.isFinite(number))
+		return new Date(number >= 1e14 ? number / 1000 : number >= 1e11 ? number : number * 1000);
+
+	if (typeof value !== 'string' || !value.trim()) return undefined;
+	const ms = Date.parse(value);
+	return Number.isNaN(ms) ? undefined : new Date(ms);
+}
+
+/** Decode a byte or string stream into text chunks. */
+async function* decode(input: AsyncIterable<string | Uint8Array>): AsyncGenerator<string> {
+	const decoder = new TextDecoder();
+	for await (const chunk of input) yield typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+	const rest = decoder.decode();
+	if (rest) yield rest;
+}
+
+/** Parse NDJSON objects; unparseable lines yield an Error so they can be reported with their row number. */
+async function* ndjsonRows(input: AsyncIterable<string | Uint8Array>): AsyncGenerator<GA4BackfillRow | Error> {
+	let buffer = '';
+	const parse = (line: string): GA4BackfillRow | Error => {
+		try {
+			const value: unknown = JSON.parse(line);
+			if (value && typeof value === 'object' && !Array.isArray(value)) return value as GA4BackfillRow;
+			return new Error('Expected a JSON object');
+		} catch (error) {
+			return new Error(`Invalid JSON: ${(error as Error).message}`);
+		}
+	};
+
+	for await (const chunk of decode(input)) {
+		buffer += chunk;
+		const lines = buffer.split('\n');
+		buffer = lines.pop() ?? '';
+		for (const line of lines) if (line.trim()) yield parse(line);
+	}
+	if (buffer.trim()) yield parse(buffer);
+}
+
+/** Parse RFC 4180 CSV (quoted fields may contain delimiters, quotes and newlines) into rows keyed by header. */
+async function* csvRows(input: AsyncIterable<string | Uint8Array>, delimiter: string): AsyncGenerator<GA4BackfillRow> {
+	let header: string[] | undefined;
+
+	for await (const record of csvRecords(decode(input), delimiter)) {
+		if (record.length === 1 && record[0] === '') continue;
+		if (!header) {
+			header = record.map((h) => h.trim());
+			continue;
+		}
+		yield Object.fromEntries(header.map((name, i) => [name, record[i] ?? '']));
+	}
+}
+
+async function* csvRecords(chunks: AsyncIterable<string>, delimiter: string): AsyncGenerator<string[]> {
+	let record: string[] = [];
+	let field = '';
+	let quoted = false;
+	let quoteSeen = false;
+
+	for await (const chunk of chunks) {
+		for (const char of chunk) {
+			if (quoted) {
+				if (quoteSeen) {
+					quoteSeen = false;
+					if (char === '"') {
+						field += '"';
+						continue;
+					}
+					quoted = false;
+				} else {
+					if (char === '"') quoteSeen = true;
+					else field += char;
+					continue;
+				}
+			}
+
+			if (char === '"' && field === '') quoted = true;
+			else if (char === delimiter) {
+				record.push(field);
+				field = '';
+			} else if (char === '\n') {
+				record.push(field);
+				yield record;
+				record = [];
+				field = '';
+			} else if (char !== '\r') field += char;
+		}
+	}
+
+	if (field || record.length) {
+		record.push(field);
+		yield record;
+	}
+}
@@ -2,6 +2,9 @@ import assert from 'node:assert/strict';
 import { afterEach, beforeEach, describe, it, mock } from 'node:test';
 import { GA4BatchHandler } from './batch.js';
 import { GA4Client } from './client.js';
+import type { GA4Error } from './errors.js';
+import { denyEvents } from './middleware.js';
+import type { GA4Event } from './types.js';
 
 describe('GA4BatchHandler', () => {
 	let client: GA4Client;
@@ -41,15 +44,120 @@ describe('GA4BatchHandler', () => {
 			assert.equal(mockFetch.mock.callCount(), 0);
 		});
 
+		it('should run middleware when queuing and report drops', async () => {
+			const onDrop = mock.fn();
+			const batch = new GA4BatchHandler(client, { onDrop }).use(denyEvents(['debug_ping']));
+			await batch.add({ client_id: 'test', events: [{ name: 'debug_ping' }] });
+			await batch.add({ client_id: 'test', events: [{ name: 'debug_ping' }, { name: 'login' }] });
+
+			assert.equal(batch.size, 1);
+			assert.equal(batch.dropped, 1);
+			assert.equal(onDrop.mock.calls[0]?.arguments[1].reason, 'middleware');
+		});
+
 		it('should auto-flush when batch size reached', async () => {
 			const batch = new GA4BatchHandler(client, { batchSize: 2 });
-			await batch.add({ client_id: 'test-1', events: [{ name: 'event_1' }] });
-			await batch.add({ client_id: 'test-2', events: [{ name: 'event_2' }] });
+			await batch.add({ client_id: 'test', events: [{ name: 'event_1' }] });
+			await batch.add({ client_id: 'test', events: [{ name: 'event_2' }] });
 			assert.equal(mockFetch.mock.callCount(), 1);
 			assert.equal(batch.size, 0);
 		});
 	});
 
+	describe('overflow', () => {
+		const failingFetch = async () => ({ ok: false, status: 500, text: async () => 'Error' });
+
+		it('should split payloads with more than 25 events', async () => {
+			const batch = new GA4BatchHandler(client);
+			await batch.add({ client_id: 'test', events: Array.from({ length: 30 }, () => ({ name: 'e' })) });
+			assert.equal(batch.size, 2);
+		});
+
+		it('should drop oldest payloads when full', async () => {
+			const onDrop = mock.fn();
+			const batch = new GA4BatchHandler(client, { batchSize: 2, maxQueueSize: 2, onDrop });
+			mockFetch.mock.mockImplementation(failingFetch);
+			const first = { client_id: 'a', events: [{ name: 'e1' }] };
+			await batch.add(first);
+			await assert.rejects(batch.add({ client_id: 'b', events: [{ name: 'e2' }] }));
+			await assert.rejects(batch.add({ client_id: 'c', events: [{ name: 'e3' }] }));
+
+			assert.equal(batch.size, 2);
+			assert.equal(batch.dropped, 1);
+			assert.deepEqual(onDrop.mock.calls[0]?.arguments, [
+				[first],
+				{ reason: 'overflow', totalDropped: 1, queueSize: 1 },
+			]);
+		});
+
+		it('should drop newest payloads when full', async () => {
+			const onDrop = mock.fn();
+			const batch = new GA4BatchHandler(client, {
+				batchSize: 1,
+				maxQueueSize: 1,
+				overflowPolicy: 'drop-newest',
+				onDrop,
+			});
+			mockFetch.mock.mockImplementation(failingFetch);
+			await assert.rejects(batch.add({ client_id: 'a', events: [{ name: 'e1' }] }));
+			const newest = { client_id: 'b', events: [{ name: 'e2' }] };
+			await assert.rejects(batch.add(newest));
+
+			assert.equal(batch.size, 1);
+			assert.deepEqual(onDrop.mock.calls[0]?.arguments[0], [newest]);
+		});
+
+		it('should throw QueueFull when full', async () => {
+			const batch = new GA4BatchHandler(client, { batchSize: 1, maxQueueSize: 1, overflowPolicy: 'throw' });
+			mockFetch.mock.mockImplementation(failingFetch);
+			await assert.rejects(batch.add({ client_id: 'a', events: [{ name: 'e1' }] }));
+			await assert.rejects(batch.add({ client_id: 'b', events: [{ name: 'e2' }] }), { code: 'QUEUE_FULL' });
+		});
+
+		it('should resolve tryAdd with a failed automatic flush and reject it when the event is not queued', async () => {
+			const batch = new GA4BatchHandler(client, { batchSize: 1, maxQueueSize: 1, overflowPolicy: 'throw' });
+			mockFetch.mock.mockImplementation(failingFetch);
+
+			const error = await batch.tryAdd({ client_id: 'a', events: [{ name: 'e1' }] });
+			assert.equal((error as GA4Error).code, 'SERVER_ERROR');
+			assert.equal(batch.size, 1);
+			await assert.rejects(batch.tryAdd({ client_id: 'b', events: [{ name: 'e2' }] }), { code: 'QUEUE_FULL' });
+		});
+
+		it('should block until space frees up', async () => {
+			const batch = new GA4BatchHandler(client, {
+				batchSize: 1,
+				maxQueueSize: 1,
+				overflowPolicy: 'block',
+				maxRetries: 0,
+			});
+			mockFetch.mock.mockImplementationOnce(failingFetch);
+			await assert.rejects(batch.add({ client_id: 'a', events: [{ name: 'e1' }] }));
+
+			await batch.add({ client_id: 'b', events: [{ name: 'e2' }] });
+			assert.equal(mockFetch.mock.callCount(), 2);
+			assert.equal(batch.size, 1);
+		});
+
+		it('should reject blocked adds when the flush fails', async () => {
+			const batch = new GA4BatchHandler(client, {
+				batchSize: 1,
+				maxQueueSize: 1,
+				overflowPolicy: 'block',
+				maxRetries: 0,
+			});
+			mockFetch.mock.mockImplementation(failingFetch);
+			await assert.rejects(batch.add({ client_id: 'a', events: [{ name: 'e1' }] }));
+
+			await assert.rejects(batch.add({ client_id: 'b', events: [{ name: 'e2' }] }), { code: 'SERVER_ERROR' });
+			assert.equal(batch.size, 1);
+		});
+
+		it('should reject maxQueueSize below batchSize', () => {
+			assert.throws(() => new GA4BatchHandler(client, { batchSize: 10, maxQueueSize: 5 }));
+		});
+	});
+
 	describe('addMany', () => {
 		it('should add multiple events', async () => {
 			const batch = new GA4BatchHandler(client, { batchSize: 10 });
@@ -65,13 +173,99 @@ describe('GA4BatchHandler', () => {
 	describe('flush', () => {
 		it('should flush all events', async () => {
 			const batch = new GA4BatchHandler(client);
-			await batch.add({ client_id: 'test-1', events: [{ name: 'event_1' }] });
-			await batch.add({ client_id: 'test-2', events: [{ name: 'event_2' }] });
+			await batch.add({ client_id: 'test', events: [{ name: 'event_1' }] });
+			await batch.add({ client_id: 'test', events: [{ name: 'event_2' }] });
 			await batch.flush();
 			assert.equal(mockFetch.mock.callCount(), 1);
 			assert.equal(batch.size, 0);
 		});
 
+		it('should send one request per user', async () => {
+			const batch = new GA4BatchHandler(client);
+			await batch.add({ client_id: 'a', events: [{ name: 'event_1' }] });
+			await batch.add({ client_id: 'b', user_id: 'u-1', events: [{ name: 'event_2' }] });
+			await batch.add({ client_id: 'a', events: [{ name: 'event_3' }] });
+			await batch.flush();
+
+			const bodies = mockFetch.mock.calls.map((c) => JSON.parse(c.arguments[1]?.body as string));
+			assert.deepEqual(
+				bodies.map((b) => [b.client_id, b.user_id, b.events.length]),
+				[
+					['a', undefined, 2],
+					['b', 'u-1', 1],
+				],
+			);
+		});
+
+		it('should batch app stream payloads per app instance', async () => {
+			const appFetch = mock.fn(async () => ({ ok: true, status: 204 }));
+			const appClient = new GA4Client({
+				firebaseAppId: '1:1234567890:android:abc123',
+				apiSecret: 'test-secret',
+				fetch: appFetch as unknown as typeof fetch,
+			});
+			const batch = new GA4BatchHandler(appClient);
+			const [a, b] = ['a'.repeat(32), 'b'.repeat(32)];
+			await batch.addMany([
+				{ app_instance_id: a, events: [{ name: 'event_1' }] },
+				{ app_instance_id: b, events: [{ name: 'event_2' }] },
+				{ app_instance_id: a, events: [{ name: 'event_3' }] },
+			]);
+			await batch.flush();
+
+			const bodies = appFetch.mock.calls.map((c) => JSON.parse(c.arguments[1]?.body as string));
+			assert.deepEqual(
+				bodies.map((body) => [body.app_instance_id, body.events.length]),
+				[
+					[a, 2],
+					[b, 1],
+				],
+			);
+		});
+
+		it('should split groups larger than 25 events', async () => {
+			const batch = new GA4BatchHandler(client, { batchSize: 25 });
+			const events = Array.from({ length: 10 }, () => ({ name: 'e' }));
+			for (let i = 0; i < 3; i++) await batch.add({ client_id: 'test', events });
+			await batch.flush();
+			assert.equal(mockFetch.mock.callCount(), 2);
+		});
+
+		it('should keep failed groups and flush the others', async () => {
+			mockFetch.mock.mockImplementation(async (_url: string, init: RequestInit) => {
+				const body = JSON.parse(init.body as string);
+				return body.client_id === 'bad'
+					? { ok: false, status: 503, text: async () => 'Unavailable' }
+					: { ok: true, status: 204 };
+			});
+			const onFlush = mock.fn();
+			const onError = mock.fn();
+			const batch = new GA4BatchHandler(client, { onFlush, onError, maxRetries: 0 });
+			await batch.add({ client_id: 'bad', events: [{ name: 'event_1' }] });
+			await batch.add({ client_id: 'good', events: [{ name: 'event_2' }] });
+
+			await assert.rejects(batch.flush());
+			assert.equal(onFlush.mock.callCount(), 1);
+			assert.equal(onError.mock.callCount(), 1);
+			assert.equal(batch.size, 1);
+		});
+
+		it('should limit requests in flight', async () => {
+			let active = 0;
+			let peak = 0;
+			mockFetch.mock.mockImplementation(async () => {
+				peak = Math.max(peak, ++active);
+				await new Promise((r) => setImmediate(r));
+				active--;
+				return { ok: true, status: 204 };
+			});
+			const batch = new GA4BatchHandler(client, { maxConcurrency: 2 });
+			for (let i = 0; i < 6; i++) await batch.add({ client_id: `c-${i}`, events: [{ name: 'test' }] });
+			await batch.flush();
+			assert.equal(mockFetch.mock.callCount(), 6);
+			assert.equal(peak, 2);
+		});
+
 		it('should skip flush for empty batch', async () => {
 			const batch = new GA4BatchHandler(client);
 			await batch.flush();
@@ -108,6 +302,94 @@ describe('GA4BatchHandler', () => {
 		});
 	});
 
+	describe('expiry', () => {
+		it('should drop expired events inside payloads and send the rest', async () => {
+			const onExpired = mock.fn();
+			const batch = new GA4BatchHandler(client, { onExpired });
+			const old = (Date.now() - 73 * 60 * 60 * 1000) * 1000;
+			await batch.add({
+				client_id: 'a',
+				events: [{ name: 'stale', timestamp_micros: old }, { name: 'fresh' }],
+			});
+			await batch.add({ client_id: 'b', events: [{ name: 'stale', timestamp_micros: old }] });
+			await batch.flush();
+
+			assert.equal(mockFetch.mock.callCount(), 1);
+			const body = JSON.parse(mockFetch.mock.calls[0]?.arguments[1]?.body);
+			assert.deepEqual(body.events, [{ name: 'fresh' }]);
+			assert.deepEqual(
+				onExpired.mock.calls[0]?.arguments[0].map((e: GA4Event) => [e.client_id, e.events.length]),
+				[
+					['a', 1],
+					['b', 1],
+				],
+			);
+			assert.equal(batch.size, 0);
+		});
+	});
+
+	describe('dead letters', () => {
+		const rejectBad = async (_url: string, init: RequestInit) => {
+			const body = JSON.parse(init.body as string);
+			return body.events.some((e: { name: string }) => e.name === 'bad')
+				? { ok: false, status: 400, text: async () => 'Bad request' }
+				: { ok: true, status: 204 };
+		};
+
+		it('should dead-letter permanently failing payloads and send the rest', async () => {
+			mockFetch.mock.mockImplementation(rejectBad);
+			const onFlush = mock.fn();
+			const batch = new GA4BatchHandler(client, { onFlush });
+			await batch.add({ client_id: 'a', events: [{ name: 'bad' }] });
+			await batch.add({ client_id: 'a', events: [{ name: 'good' }] });
+			await batch.add({ client_id: 'b', events: [{ name: 'good' }] });
+
+			await batch.flush();
+
+			assert.equal(batch.size, 0);
+			assert.equal(onFlush.mock.callCount(), 2);
+			const letters = await batch.deadLetters();
+			assert.equal(letters.length, 1);
+			assert.deepEqual(letters[0]?.event.events, [{ name: 'bad' }]);
+			assert.equal(letters[0]?.error.code, 'CLIENT_ERROR');
+			assert.equal(letters[0]?.attempts, 2);
+			assert.ok((letters[0]?.failedAt ?? 0) >= (letters[0]?.firstAttemptAt ?? Number.POSITIVE_INFINITY));
+		});
+
+		it('should keep retryable failures queued', async () => {
+			mockFetch.mock.mockImplementation(async () => ({ ok: false, status: 500, text: async () => 'Error' }));
+			const batch = new GA4BatchHandler(client, { maxRetries: 0 });
+			await batch.add({ client_id: 'a', events: [{ name: 'test' }] });
+			await assert.rejects(batch.flush());
+			assert.equal(batch.size, 1);
+			assert.deepEqual(await batch.deadLetters(), []);
+		});
+
+		it('should pass dead letters to a callback', async () => {
+			mockFetch.mock.mockImplementation(rejectBad);
+			const deadLetter = mock.fn();
+			const batch = new GA4BatchHandler(client, { deadLetter });
+			await batch.add({ client_id: 'a', events: [{ name: 'bad' }] });
+			await batch.flush();
+			assert.equal(deadLetter.mock.callCount(), 1);
+			await assert.rejects(batch.deadLetters());
+		});
+
+		it('should redrive fixed dead letters', async () => {
+			mockFetch.mock.mockImplementation(rejectBad);
+			const batch = new GA4BatchHandler(client);
+			await batch.add({ client_id: 'a', events: [{ name: 'bad' }] });
+			await batch.flush();
+
+			await batch.redrive(undefined, (event) => ({ ...event, events: [{ name: 'fixed' }] }));
+			await batch.flush();
+
+			assert.deepEqual(await batch.deadLetters(), []);
+			const body = JSON.parse(mockFetch.mock.calls.at(-1)?.arguments[1]?.body as string);
+			assert.deepEqual(body.events, [{ name: 'fixed' }]);
+		});
+	});
+
 	describe('start/stop', () => {
 		it('should start and stop timer', async () => {
 			mock.timers.enable({ apis: ['setInterval'] });
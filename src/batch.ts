@@ -3,32 +3,92 @@
  */
 
 import type { GA4Client } from './client.js';
-import { GA4, type GA4BatchOptions, type GA4Event } from './types.js';
+import { GA4MemoryDeadLetterSink, toDeadLetters } from './deadletter.js';
+import { GA4Error, GA4ErrorCode } from './errors.js';
+import { groupByIdentity, splitPayload } from './grouping.js';
+import { runMiddleware } from './middleware.js';
+import { Emitter, Histogram } from './observability.js';
+import type { GA4RateLimiter } from './resilience.js';
+import {
+	GA4,
+	type GA4BatchEvents,
+	type GA4BatchOptions,
+	type GA4BatchStats,
+	type GA4DeadLetter,
+	type GA4DeadLetterSink,
+	type GA4DropInfo,
+	type GA4DropReason,
+	type GA4Event,
+	type GA4EventItem,
+	type GA4EventMap,
+	type GA4Listener,
+	type GA4Middleware,
+	type GA4OverflowPolicy,
+	type GA4QueueStorage,
+	type GA4TypedEvent,
+} from './types.js';
+import { toMicros } from './utils.js';
 
-export class GA4BatchHandler {
-	private readonly client: GA4Client;
+const MAX_AGE_MICROS = GA4.MAX_BACKDATE_HOURS * 60 * 60 * 1_000_000;
+
+export class GA4BatchHandler<S extends GA4EventMap = GA4EventMap> {
+	private readonly client: GA4Client<S>;
 	private readonly batchSize: number;
 	private readonly flushIntervalMs: number;
 	private readonly maxRetries: number;
+	private readonly maxConcurrency: number;
+	private readonly maxQueueSize: number;
+	private readonly overflowPolicy: GA4OverflowPolicy;
 	private readonly onError?: (error: Error, events: GA4Event[]) => void;
 	private readonly onFlush?: (events: GA4Event[]) => void;
+	private readonly onExpired?: (events: GA4Event[]) => void;
+	private readonly onDrop?: (events: GA4Event[], info: GA4DropInfo) => void;
+	private readonly storage?: GA4QueueStorage;
+	private readonly deadLetter: GA4DeadLetterSink;
+	private readonly middleware: GA4Middleware[] = [];
 
-	private queue: GA4Event[] = [];
+	private queue: GA4TypedEvent<S>[] = [];
+	private readonly storageIds = new WeakMap<GA4Event, string>();
+	private readonly attempts = new WeakMap<GA4Event, { count: number; firstAttemptAt: number }>();
+	/** Idempotency keys of queued events, with how many queued payloads carry each. */
+	private readonly queuedKeys = new Map<string, number>();
+	private readonly eventKeys = new WeakMap<GA4Event, string[]>();
 	private timer: ReturnType<typeof setInterval> | null = null;
 	private flushing = false;
+	private restoring: Promise<void> | null = null;
+	private waiters: Array<{ resolve: () => void; reject: (error: unknown) => void }> = [];
+	private totalDropped = 0;
+	private totalDuplicates = 0;
+	private readonly emitter = new Emitter<GA4BatchEvents>();
+	private readonly counters = { enqueued: 0, sent: 0, failed: 0, expired: 0, deadLettered: 0, flushes: 0 };
+	private readonly flushDuration = new Histogram();
 
-	constructor(client: GA4Client, options: GA4BatchOptions = {}) {
+	constructor(client: GA4Client<S>, options: GA4BatchOptions = {}) {
 		const batchSize = options.batchSize ?? GA4.BATCH_SIZE;
 		if (batchSize < 1 || batchSize > GA4.MAX_EVENTS) {
 			throw new Error(`batchSize must be 1-${GA4.MAX_EVENTS}`);
 		}
 
+		const maxQueueSize = options.maxQueueSize ?? GA4.MAX_QUEUE_SIZE;
+		if (maxQueueSize < batchSize) throw new Error(`maxQueueSize must be at least batchSize (${batchSize})`);
+
 		this.client = client;
 		this.batchSize = batchSize;
 		this.flushIntervalMs = options.flushIntervalMs ?? GA4.FLUSH_INTERVAL_MS;
 		this.maxRetries = options.maxRetries ?? GA4.MAX_RETRIES;
+		this.maxConcurrency = Math.max(1, options.maxConcurrency ?? GA4.MAX_CONCURRENCY);
+		this.maxQueueSize = maxQueueSize;
+		this.overflowPolicy = options.overflowPolicy ?? 'drop-oldest';
 		this.onError = options.onError;
 		this.onFlush = options.onFlush;
+		this.onExpired = options.onExpired;
+		this.onDrop = options.onDrop;
+		this.storage = options.storage;
+		const { deadLetter } = options;
+		this.deadLetter =
+			typeof deadLetter === 'function'
+				? { write: async (letters) => void (await deadLetter(letters)) }
+				: (deadLetter ?? new GA4MemoryDeadLetterSink());
 	}
 
 	/** Start automatic periodic flushing. */
@@ -40,43 +100,180 @@ export class GA4BatchHandler {
 		);
 	}
 
-	/** Stop periodic flushing and flush remaining events. */
+	/** Stop periodic flushing, flush remaining events and close the storage. */
 	async stop(): Promise<void> {
 		if (this.timer) {
 			clearInterval(this.timer);
 			this.timer = null;
 		}
-		await this.flush();
+		try {
+			await this.flush();
+		} finally {
+			await this.storage?.close();
+		}
 	}
 
-	/** Add an event to the batch. Auto-flushes when batch size is reached. */
-	async add(event: GA4Event): Promise<void> {
-		this.queue.push(event);
-		if (this.queue.length >= this.batchSize) await this.flush();
+	/**
+	 * Load events persisted by a previous process into the queue. Runs once, automatically
+	 * before the first add/flush. Restored events without `timestamp_micros` are stamped with
+	 * their original queue time.
+	 */
+	restore(): Promise<void> {
+		this.restoring ??= this.load().catch((error) => {
+			this.restoring = null;
+			throw error;
+		});
+		return this.restoring;
+	}
+
+	/**
+	 * Listen to lifecycle events: `queue`, `drop`, `expired`, `dead-letter`, `flush:start` and `flush:end`.
+	 * Returns a function that removes the listener.
+	 * @example
+	 * batch.on('flush:end', ({ durationMs, failed, queueSize }) => metrics.histogram('ga4.flush', durationMs, { failed, queueSize }));
+	 */
+	on<K extends keyof GA4BatchEvents>(event: K, listener: GA4Listener<GA4BatchEvents[K]>): () => void {
+		return this.emitter.on(event, listener);
+	}
+
+	/** Remove a listener added with `on`. */
+	off<K extends keyof GA4BatchEvents>(event: K, listener: GA4Listener<GA4BatchEvents[K]>): void {
+		this.emitter.off(event, listener);
+	}
+
+	/** Counters and histograms since the handler was created; the client has its own `stats()` for requests. */
+	stats(): GA4BatchStats {
+		return {
+			queueSize: this.queue.length,
+			...this.counters,
+			dropped: this.totalDropped,
+			duplicates: this.totalDuplicates,
+			flushDuration: this.flushDuration.snapshot(),
+		};
+	}
+
+	/**
+	 * Add middleware that runs on every payload when it is added, before it is queued (and persisted).
+	 * A middleware returning null drops the payload and reports it to `onDrop`. The client's own
+	 * middleware still runs when the queue is flushed, so register each middleware in one place only.
+	 * @example
+	 * batch.use(sampling({ scroll: 0.1 }));
+	 */
+	use(...middleware: GA4Middleware[]): this {
+		this.middleware.push(...middleware);
+		return this;
+	}
+
+	/**
+	 * Add an event to the batch. Auto-flushes when batch size is reached.
+	 * Payloads with more than 25 events are split; a full queue applies `overflowPolicy`.
+	 * With the client's `dedup` on, events whose idempotency key is already queued are dropped and
+	 * reported to `onDrop` as duplicates. Rejects when the automatic flush fails, even though the event
+	 * stays queued; use `tryAdd` to tell the two apart.
+	 */
+	async add(event: GA4TypedEvent<S>): Promise<void> {
+		const error = await this.tryAdd(event);
+		if (error !== undefined) throw error;
+	}
+
+	/**
+	 * Like `add`, but a failed automatic flush resolves with its error instead of rejecting: the event is
+	 * queued by then and a later flush sends it. Rejects only when the event could not be queued.
+	 */
+	async tryAdd(event: GA4TypedEvent<S>): Promise<unknown> {
+		await this.restore();
+
+		const processed = this.middleware.length
+			? await runMiddleware(this.middleware, event, { stage: 'queue', metadata: {} })
+			: event;
+		if (!processed) {
+			this.drop([event], 'middleware');
+			return undefined;
+		}
+
+		const unique = this.dedupe(processed as GA4TypedEvent<S>);
+		if (!unique) return undefined;
+
+		for (const payload of splitPayload(unique)) await this.enqueue(payload);
+		if (this.queue.length < this.batchSize) return undefined;
+		return this.flush().then(
+			() => undefined,
+			(error: unknown) => error,
+		);
 	}
 
 	/** Add multiple events to the batch. */
-	async addMany(events: GA4Event[]): Promise<void> {
+	async addMany(events: GA4TypedEvent<S>[]): Promise<void> {
 		for (const event of events) await this.add(event);
 	}
 
-	/** Flush all queued events. Events are retained on failure for retry. */
+	/**
+	 * Flush all queued events, one request per user (client_id/user_id) with up to `maxConcurrency` in flight.
+	 * Groups that fail with retryable errors are retained without blocking the others; the first such failure
+	 * is rethrown. Payloads that fail permanently move to the dead-letter sink. With the client's rate limiter,
+	 * groups with higher-priority events are sent first.
+	 */
 	async flush(): Promise<void> {
+		await this.restore();
 		if (!this.queue.length || this.flushing) return;
 
 		this.flushing = true;
-		const batch = [...this.queue];
+		const failures: unknown[] = [];
+		const startedAt = Date.now();
+		const { sent, failed, deadLettered, expired } = this.counters;
+		let error: unknown;
+		this.emitter.emit('flush:start', { queueSize: this.queue.length });
 
 		try {
-			await this.client.sendWithRetry(batch, { maxRetries: this.maxRetries });
-			this.queue = [];
-			this.onFlush?.(batch);
-		} catch (error) {
-			this.onError?.(error as Error, batch);
-			throw error;
+			await this.dropExpired();
+			const groups = groupByIdentity(this.queue);
+			const limiter = this.client.rateLimiter;
+			if (limiter) {
+				const priorities = new Map(groups.map((group) => [group, groupPriority(limiter, group)]));
+				groups.sort((a, b) => (priorities.get(b) ?? 0) - (priorities.get(a) ?? 0));
+			}
+
+			await runConcurrent(groups, this.maxConcurrency, (group) => this.flushGroup(group, failures));
+		} catch (e) {
+			error = e;
+			throw e;
 		} finally {
 			this.flushing = false;
+			const durationMs = Date.now() - startedAt;
+			this.counters.flushes++;
+			this.flushDuration.record(durationMs);
+			error ??= failures[0];
+			if (error !== undefined) this.rejectWaiters(error);
+			this.emitter.emit('flush:end', {
+				durationMs,
+				sent: this.counters.sent - sent,
+				failed: this.counters.failed - failed,
+				deadLettered: this.counters.deadLettered - deadLettered,
+				expired: this.counters.expired - expired,
+				queueSize: this.queue.length,
+				...(error !== undefined && { error: error as Error }),
+			});
 		}
+
+		if (failures.length) throw failures[0];
+	}
+
+	/** Dead letters stored by the sink. Requires a sink that implements `read`. */
+	async deadLetters(): Promise<GA4DeadLetter[]> {
+		if (!this.deadLetter.read) throw new GA4Error(GA4ErrorCode.Validation, 'Dead-letter sink does not support read');
+		return this.deadLetter.read();
+	}
+
+	/**
+	 * Re-queue dead letters (all stored ones by default) and remove them from the sink.
+	 * Pass `fix` to correct each payload before it is queued again.
+	 * @example
+	 * await batch.redrive(undefined, (event) => ({ ...event, events: event.events.filter((e) => e.name !== 'bad') }));
+	 */
+	async redrive(letters?: GA4DeadLetter[], fix?: (event: GA4Event) => GA4TypedEvent<S>): Promise<void> {
+		const selected = letters ?? (await this.deadLetters());
+		for (const letter of selected) await this.add(fix ? fix(letter.event) : (letter.event as GA4TypedEvent<S>));
+		await this.deadLetter.remove?.(selected.map((l) => l.id));
 	}
 
 	/** Current number of queued events. */
@@ -84,6 +281,16 @@ export class GA4BatchHandler {
 		return this.queue.length;
 	}
 
+	/** Total payloads dropped without being sent. */
+	get dropped(): number {
+		return this.totalDropped;
+	}
+
+	/** Total events dropped because their idempotency key was already queued. */
+	get duplicates(): number {
+		return this.totalDuplicates;
+	}
+
 	/** Whether periodic flushing is active. */
 	get isRunning(): boolean {
 		return this.timer !== null;
@@ -91,6 +298,241 @@ export class GA4BatchHandler {
 
 	/** Clear all queued events without sending. */
 	clear(): void {
-		this.queue = [];
+		const events = this.queue;
+		this.remove(events);
+		this.acknowledge(events).catch((e) => this.onError?.(e as Error, events));
+	}
+
+	/**
+	 * Send one group. A permanent failure of a multi-payload group is retried payload by payload,
+	 * so only the payloads that keep failing are dead-lettered.
+	 */
+	private async flushGroup(group: GA4TypedEvent<S>[], failures: unknown[]): Promise<void> {
+		for (const event of group) {
+			const attempt = this.attempts.get(event);
+			if (attempt) attempt.count++;
+			else this.attempts.set(event, { count: 1, firstAttemptAt: Date.now() });
+		}
+
+		try {
+			await this.client.sendWithRetry(group, { maxRetries: this.maxRetries });
+		} catch (error) {
+			if (!isPermanent(error)) {
+				this.counters.failed += group.length;
+				failures.push(error);
+				this.onError?.(error as Error, group);
+			} else if (group.length > 1) {
+				for (const event of group) await this.flushGroup([event], failures);
+			} else {
+				await this.toDeadLetter(group, error).catch((e) => failures.push(e));
+				this.onError?.(error as Error, group);
+			}
+			return;
+		}
+
+		this.remove(group);
+		this.counters.sent += group.length;
+		this.onFlush?.(group);
+		await this.acknowledge(group).catch((error) => {
+			failures.push(error);
+			this.onError?.(error as Error, group);
+		});
 	}
+
+	private async toDeadLetter(events: GA4Event[], error: unknown): Promise<void> {
+		const letters = toDeadLetters(
+			events,
+			error,
+			(e) => this.attempts.get(e) ?? { count: 0, firstAttemptAt: Date.now() },
+		);
+		await this.deadLetter.write(letters);
+		this.remove(events);
+		this.counters.deadLettered += events.length;
+		this.emitter.emit('dead-letter', { letters });
+		await this.acknowledge(events);
+	}
+
+	private async enqueue(event: GA4TypedEvent<S>): Promise<void> {
+		while (this.queue.length >= this.maxQueueSize) {
+			switch (this.overflowPolicy) {
+				case 'throw':
+					throw new GA4Error(GA4ErrorCode.QueueFull, `Queue is full (${this.maxQueueSize} payloads)`);
+				case 'drop-newest':
+					this.drop([event], 'overflow');
+					return;
+				case 'drop-oldest': {
+					const oldest = this.queue.slice(0, this.queue.length - this.maxQueueSize + 1);
+					this.remove(oldest);
+					await this.acknowledge(oldest);
+					this.drop(oldest, 'overflow');
+					break;
+				}
+				case 'block':
+					await this.waitForSpace();
+					break;
+			}
+		}
+
+		if (this.storage) this.storageIds.set(event, await this.storage.append(event, Date.now()));
+		this.queue.push(event);
+		this.trackKeys(event);
+		this.counters.enqueued++;
+		this.emitter.emit('queue', { size: this.queue.length });
+	}
+
+	/** Remove events whose idempotency key is already queued (or repeated in `event`); null when none are left. */
+	private dedupe(event: GA4TypedEvent<S>): GA4TypedEvent<S> | null {
+		const seen = new Set<string>();
+		const duplicates: GA4EventItem[] = [];
+		const events = event.events.filter((item) => {
+			const key = this.client.idempotencyKey(item, event);
+			if (key === undefined) return true;
+			if (this.queuedKeys.has(key) || seen.has(key)) {
+				duplicates.push(item);
+				return false;
+			}
+			seen.add(key);
+			return true;
+		});
+		if (!duplicates.length) return event;
+
+		this.totalDuplicates += duplicates.length;
+		this.drop([{ ...event, events: duplicates }], 'duplicate');
+		return events.length ? ({ ...event, events } as GA4TypedEvent<S>) : null;
+	}
+
+	private trackKeys(event: GA4Event): void {
+		const keys = event.events.flatMap((item) => this.client.idempotencyKey(item, event) ?? []);
+		if (!keys.length) return;
+		this.eventKeys.set(event, keys);
+		for (const key of keys) this.queuedKeys.set(key, (this.queuedKeys.get(key) ?? 0) + 1);
+	}
+
+	private untrackKeys(event: GA4Event): void {
+		for (const key of this.eventKeys.get(event) ?? []) {
+			const count = (this.queuedKeys.get(key) ?? 0) - 1;
+			if (count > 0) this.queuedKeys.set(key, count);
+			else this.queuedKeys.delete(key);
+		}
+		this.eventKeys.delete(event);
+	}
+
+	/**
+	 * Resolve once a flush, drop or clear frees queue space. Kicks off a flush if none is running;
+	 * rejects with the flush error when a flush fails and leaves the queue full.
+	 */
+	private waitForSpace(): Promise<void> {
+		const space = new Promise<void>((resolve, reject) => this.waiters.push({ resolve, reject }));
+		if (!this.flushing) this.flush().catch(() => {});
+		return space;
+	}
+
+	/** Reject blocked `add` calls after a failed flush, unless it freed space for them. */
+	private rejectWaiters(error: unknown): void {
+		if (this.queue.length < this.maxQueueSize) return;
+		for (const { reject } of this.waiters.splice(0)) reject(error);
+	}
+
+	private drop(events: GA4Event[], reason: GA4DropReason): void {
+		this.totalDropped += events.length;
+		const info = { reason, totalDropped: this.totalDropped, queueSize: this.queue.length };
+		this.onDrop?.(events, info);
+		this.emitter.emit('drop', { events, ...info });
+	}
+
+	private async load(): Promise<void> {
+		if (!this.storage) return;
+
+		const restored = (await this.storage.load()).map(({ id, event, enqueuedAt }) => {
+			const stamped =
+				event.timestamp_micros === undefined ? { ...event, timestamp_micros: toMicros(enqueuedAt) } : event;
+			this.storageIds.set(stamped, id);
+			this.trackKeys(stamped);
+			return stamped as GA4TypedEvent<S>;
+		});
+		this.queue.unshift(...restored);
+		if (restored.length) this.emitter.emit('queue', { size: this.queue.length });
+	}
+
+	/**
+	 * Drop events GA4 would reject for being backdated beyond `GA4.MAX_BACKDATE_HOURS`, by their own
+	 * `timestamp_micros` or their payload's. Payloads with some expired events keep the rest.
+	 */
+	private async dropExpired(): Promise<void> {
+		const cutoff = toMicros(Date.now()) - MAX_AGE_MICROS;
+		const isExpired = (item: GA4EventItem, event: GA4Event) =>
+			(item.timestamp_micros ?? event.timestamp_micros ?? cutoff) < cutoff;
+
+		const expired: GA4Event[] = [];
+		const emptied: GA4Event[] = [];
+		for (const [i, event] of this.queue.entries()) {
+			const stale = event.events.filter((item) => isExpired(item, event));
+			if (!stale.length) continue;
+
+			if (stale.length === event.events.length) {
+				expired.push(event);
+				emptied.push(event);
+				continue;
+			}
+			expired.push({ ...event, events: stale });
+			this.queue[i] = this.replace(event, { ...event, events: event.events.filter((item) => !isExpired(item, event)) });
+		}
+		if (!expired.length) return;
+
+		this.remove(emptied);
+		await this.acknowledge(emptied);
+		this.counters.expired += expired.length;
+		this.onExpired?.(expired);
+		this.emitter.emit('expired', { events: expired });
+	}
+
+	/**
+	 * Track `trimmed` in place of the queued `event`. Storage keeps the original, which is acknowledged
+	 * under the same ID once the trimmed copy is sent; a restored original is trimmed again on flush.
+	 */
+	private replace(event: GA4TypedEvent<S>, trimmed: GA4TypedEvent<S>): GA4TypedEvent<S> {
+		const id = this.storageIds.get(event);
+		if (id !== undefined) this.storageIds.set(trimmed, id);
+		const attempt = this.attempts.get(event);
+		if (attempt) this.attempts.set(trimmed, attempt);
+		this.untrackKeys(event);
+		this.trackKeys(trimmed);
+		return trimmed;
+	}
+
+	private remove(events: GA4Event[]): void {
+		const removed = new Set(events);
+		const size = this.queue.length;
+		this.queue = this.queue.filter((e) => !removed.has(e));
+		for (const event of removed) this.untrackKeys(event);
+		if (this.queue.length !== size) this.emitter.emit('queue', { size: this.queue.length });
+
+		const waiters = this.waiters.splice(0, this.maxQueueSize - this.queue.length);
+		for (const { resolve } of waiters) resolve();
+	}
+
+	private async acknowledge(events: GA4Event[]): Promise<void> {
+		if (!this.storage) return;
+		const ids = events.flatMap((e) => this.storageIds.get(e) ?? []);
+		if (ids.length) await this.storage.ack(ids);
+	}
+}
+
+/** Highest rate-limit priority among a group's payloads, so urgent groups take the first request slots. */
+function groupPriority(limiter: GA4RateLimiter, group: GA4Event[]): number {
+	return Math.max(...group.map((event) => limiter.priority(event)));
+}
+
+/** Whether an error will fail the same way on every retry. */
+function isPermanent(error: unknown): boolean {
+	return error instanceof GA4Error && !error.isRetryable();
+}
+
+/** Run `task` for every item with at most `limit` tasks in flight. */
+async function runConcurrent<T>(items: T[], limit: number, task: (item: T) => Promise<void>): Promise<void> {
+	let next = 0;
+	const worker = async (): Promise<void> => {
+		while (next < items.length) await task(items[next++] as T);
+	};
+	await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
 }
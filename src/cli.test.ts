@@ -0,0 +1,224 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Readable } from 'node:stream';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { type GA4CliIO, runCli } from './cli.js';
+import { GA4MockServer } from './testing.js';
+import { GA4 } from './types.js';
+
+describe('runCli', () => {
+	let server: GA4MockServer;
+	let dir: string;
+	let stdout: string;
+	let stderr: string;
+
+	const io = (env: Record<string, string> = {}, stdin = ''): GA4CliIO => ({
+		stdin: Readable.from([stdin]),
+		stdout: {
+			write: (chunk: string) => {
+				stdout += chunk;
+			},
+		},
+		stderr: {
+			write: (chunk: string) => {
+				stderr += chunk;
+			},
+		},
+		env: { GA4_MEASUREMENT_ID: 'G-TEST123', GA4_API_SECRET: 'env-secret', GA4_BASE_URL: server.url, ...env },
+		cwd: dir,
+	});
+
+	const lines = (...events: unknown[]) => events.map((e) => (typeof e === 'string' ? e : JSON.stringify(e))).join('\n');
+
+	beforeEach(async () => {
+		server = await new GA4MockServer().start();
+		dir = await mkdtemp(join(tmpdir(), 'ga4-cli-'));
+		stdout = '';
+		stderr = '';
+	});
+
+	afterEach(async () => {
+		await server.stop();
+		await rm(dir, { recursive: true, force: true });
+	});
+
+	describe('validate', () => {
+		it('should print debug validation messages with line numbers', async () => {
+			await writeFile(
+				join(dir, 'events.ndjson'),
+				lines({ client_id: 'c', events: [{ name: 'login' }] }, '', { client_id: 'c', events: [{ name: 'ga_x' }] }, '{'),
+			);
+
+			const code = await runCli(['validate', 'events.ndjson'], io());
+
+			assert.equal(code, 1);
+			assert.match(stdout, /events\.ndjson:3: events\[0\]\.name: Reserved prefix "ga_": ga_x \(NAME_RESERVED\)/);
+			assert.match(stdout, /events\.ndjson:4: Invalid JSON/);
+			assert.match(stdout, /2 of 3 lines have validation messages/);
+			assert.equal(server.requests.length, 2);
+			assert.ok(server.requests.every((r) => r.endpoint === '/debug/mp/collect'));
+		});
+
+		it('should report lines the client refuses and keep checking the rest', async () => {
+			const tooMany = Array.from({ length: 26 }, (_, i) => ({ name: `e_${i}` }));
+			await writeFile(
+				join(dir, 'events.ndjson'),
+				lines(
+					{ client_id: 'c', events: [{ name: 'login' }] },
+					{ events: [{ name: 'login' }] },
+					{ client_id: 'c', events: tooMany },
+					{ client_id: 'c', events: [{ name: 'ga_x' }] },
+				),
+			);
+
+			const code = await runCli(['validate', 'events.ndjson'], io());
+
+			assert.equal(code, 1);
+			assert.match(stdout, /events\.ndjson:2: client_id: client_id is required for web streams \(VALUE_REQUIRED\)/);
+			assert.match(stdout, /events\.ndjson:3: events: Max 25 events, got 26 \(EXCEEDED_MAX_ENTITIES\)/);
+			assert.match(stdout, /events\.ndjson:4: events\[0\]\.name: Reserved prefix/);
+			assert.match(stdout, /3 of 4 lines have validation messages/);
+			assert.equal(stderr, '');
+		});
+
+		it('should print JSON and validate locally with --dry-run', async () => {
+			await writeFile(join(dir, 'events.ndjson'), lines({ client_id: 'c', events: [{ name: '1bad' }] }));
+
+			const code = await runCli(['validate', 'events.ndjson', '--dry-run', '--json'], io());
+
+			assert.equal(code, 1);
+			assert.deepEqual(JSON.parse(stdout), {
+				lines: 1,
+				invalid: 1,
+				messages: [
+					{
+						line: 1,
+						fieldPath: 'events[0].name',
+						description: 'Name must start with a letter and use only letters, digits and _: 1bad',
+						validationCode: 'NAME_INVALID',
+					},
+				],
+			});
+			assert.equal(server.requests.length, 0);
+		});
+	});
+
+	describe('send', () => {
+		it('should send events from stdin in batches', async () => {
+			const stdin = lines(
+				{ client_id: 'a', events: [{ name: 'login' }] },
+				{ client_id: 'b', events: [{ name: 'purchase', params: { transaction_id: 'T-1' } }] },
+				{ client_id: 'a', events: [{ name: '' }] },
+			);
+
+			const code = await runCli(['send', '--json'], io({}, stdin));
+
+			assert.equal(code, 1);
+			assert.deepEqual(JSON.parse(stdout), {
+				read: 3,
+				sent: 2,
+				failed: 0,
+				dropped: 0,
+				expired: 0,
+				invalid: [{ line: 3, error: 'events[0].name: Name is required' }],
+			});
+			server.assertEventSent('purchase', { transaction_id: 'T-1' });
+			assert.equal(server.requests[0]?.query.api_secret, 'env-secret');
+		});
+
+		it('should not send with --dry-run or need credentials', async () => {
+			await writeFile(join(dir, 'events.ndjson'), lines({ client_id: 'a', events: [{ name: 'login' }] }));
+
+			const code = await runCli(['send', 'events.ndjson', '--dry-run'], { ...io(), env: {} });
+
+			assert.equal(code, 0);
+			assert.equal(stdout, 'Would send 1 payloads (0 invalid lines)\n');
+			assert.equal(server.requests.length, 0);
+		});
+
+		it('should keep reading after an automatic flush fails', async () => {
+			const events = Array.from({ length: GA4.BATCH_SIZE + 1 }, (_, i) => ({
+				client_id: 'a',
+				events: [{ name: `e_${i}` }],
+			}));
+			await writeFile(join(dir, 'events.ndjson'), lines(...events));
+			server.failNext({ type: 'rate-limit', retryAfterSeconds: 60 });
+
+			const code = await runCli(['send', 'events.ndjson', '--json'], io());
+
+			assert.equal(code, 0);
+			assert.match(stderr, new RegExp(`events\\.ndjson:${GA4.BATCH_SIZE}: Rate limited`));
+			assert.deepEqual(JSON.parse(stdout), {
+				read: GA4.BATCH_SIZE + 1,
+				sent: GA4.BATCH_SIZE + 1,
+				failed: 0,
+				dropped: 0,
+				expired: 0,
+				invalid: [],
+			});
+		});
+
+		it('should write permanent failures to the dead-letter file', async () => {
+			await writeFile(join(dir, 'events.ndjson'), lines({ client_id: 'a', events: [{ name: 'login' }] }));
+			server.failNext({ type: 'client-error', status: 400 });
+
+			const code = await runCli(['send', 'events.ndjson', '--dead-letter', 'dead.jsonl'], io());
+
+			assert.equal(code, 1);
+			assert.match(stdout, /Sent 0 payloads \(1 failed/);
+			const letter = JSON.parse(await readFile(join(dir, 'dead.jsonl'), 'utf8'));
+			assert.equal(letter.event.client_id, 'a');
+		});
+	});
+
+	describe('replay', () => {
+		it('should re-send dead letters and captured requests', async () => {
+			await writeFile(
+				join(dir, 'replay.jsonl'),
+				lines(
+					{ id: '1', event: { client_id: 'a', events: [{ name: 'login' }] }, error: {}, attempts: 1 },
+					{ endpoint: '/mp/collect', query: {}, body: { client_id: 'b', events: [{ name: 'sign_up' }] } },
+				),
+			);
+
+			const code = await runCli(['replay', 'replay.jsonl'], io());
+
+			assert.equal(code, 0);
+			server.assertEventSent('login');
+			server.assertEventSent('sign_up');
+		});
+	});
+
+	describe('credentials', () => {
+		it('should prefer flags over environment over the config file', async () => {
+			await writeFile(
+				join(dir, 'ga4.config.json'),
+				JSON.stringify({ apiSecret: 'config-secret', baseUrl: server.url }),
+			);
+			await writeFile(join(dir, 'events.ndjson'), lines({ client_id: 'a', events: [{ name: 'login' }] }));
+			const env = { GA4_MEASUREMENT_ID: 'G-ENV' };
+
+			await runCli(['send', 'events.ndjson'], { ...io(), env });
+			await runCli(['send', 'events.ndjson', '--measurement-id', 'G-FLAG'], { ...io(), env });
+
+			assert.deepEqual(
+				server.requests.map((r) => [r.query.measurement_id, r.query.api_secret]),
+				[
+					['G-ENV', 'config-secret'],
+					['G-FLAG', 'config-secret'],
+				],
+			);
+		});
+
+		it('should exit with 2 on missing credentials or unknown commands', async () => {
+			await writeFile(join(dir, 'events.ndjson'), '');
+
+			assert.equal(await runCli(['send', 'events.ndjson'], { ...io(), env: {} }), 2);
+			assert.match(stderr, /Missing --measurement-id/);
+			assert.equal(await runCli(['publish'], io()), 2);
+			assert.equal(await runCli(['send', '--verbose'], io()), 2);
+		});
+	});
+});
@@ -0,0 +1,330 @@
+/**
+ * GA4 CLI - validate, send and replay NDJSON event files from the command line.
+ */
+
+import { createReadStream } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { createInterface } from 'node:readline';
+import type { Readable } from 'node:stream';
+import { parseArgs } from 'node:util';
+import { GA4BatchHandler } from './batch.js';
+import { GA4Client } from './client.js';
+import { GA4Error, GA4ErrorCode, GA4ValidationError } from './errors.js';
+import { GA4FileDeadLetterSink } from './storage.js';
+import type { GA4ClientOptions, GA4Event, GA4ValidationMessage } from './types.js';
+import { errorMessage, validateEvent, validationMessages } from './validation.js';
+
+const USAGE = `Usage: ga4 <command> [file] [options]
+
+Commands:
+  validate <file>    Check each line against GA4's debug endpoint and print validation messages
+  send [file]        Send events from a file (or stdin) in batches
+  replay <file>      Re-send a dead-letter or capture file
+
+Options:
+  --measurement-id <id>    Web stream (env GA4_MEASUREMENT_ID)
+  --firebase-app-id <id>   Firebase app stream (env GA4_FIREBASE_APP_ID)
+  --api-secret <secret>    API secret (env GA4_API_SECRET); prefer env or config to keep it out of shell history
+  --base-url <url>         Override the GA4 endpoint (env GA4_BASE_URL)
+  --config <path>          JSON config file (env GA4_CONFIG; default ./ga4.config.json)
+  --dead-letter <path>     Append payloads that fail permanently to a JSONL file
+  --dry-run                Parse and validate locally without sending
+  --json                   Print results as JSON
+  -h, --help               Show this help
+`;
+
+const OPTIONS = {
+	'measurement-id': { type: 'string' },
+	'firebase-app-id': { type: 'string' },
+	'api-secret': { type: 'string' },
+	'base-url': { type: 'string' },
+	config: { type: 'string' },
+	'dead-letter': { type: 'string' },
+	'dry-run': { type: 'boolean', default: false },
+	json: { type: 'boolean', default: false },
+	help: { type: 'boolean', short: 'h', default: false },
+} as const;
+
+const DEFAULT_CONFIG = 'ga4.config.json';
+
+/** Streams and environment the CLI runs against; `process` by default. */
+export interface GA4CliIO {
+	stdin: Readable;
+	stdout: { write(chunk: string): unknown };
+	stderr: { write(chunk: string): unknown };
+	env: Record<string, string | undefined>;
+	cwd: string;
+}
+
+/** Credentials and endpoint read from flags, environment variables or the config file. */
+interface Credentials {
+	measurementId?: string;
+	firebaseAppId?: string;
+	apiSecret?: string;
+	baseUrl?: string;
+}
+
+type Values = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>['values'];
+
+/** A parsed input line: a payload, or the reason the line could not be read. */
+interface Line {
+	line: number;
+	event?: GA4Event;
+	error?: string;
+}
+
+/** Bad arguments or configuration; exits with code 2. */
+class UsageError extends Error {}
+
+/**
+ * Run the `ga4` command line and resolve to its exit code: 0 on success, 1 when validation messages
+ * or failed events were reported, 2 on usage or configuration errors.
+ * @example
+ * process.exitCode = await runCli(['validate', 'events.ndjson', '--json']);
+ */
+export async function runCli(argv: string[], io: GA4CliIO = processIO()): Promise<number> {
+	try {
+		const { values, positionals } = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true, strict: true });
+		const [command, file, ...extra] = positionals;
+
+		if (values.help) {
+			io.stdout.write(USAGE);
+			return 0;
+		}
+		if (extra.length) throw new UsageError(`Unexpected argument: ${extra[0]}`);
+
+		switch (command) {
+			case 'validate':
+				return await validate(requireFile(command, file), values, io);
+			case 'send':
+				return await send(file, values, io, false);
+			case 'replay':
+				return await send(requireFile(command, file), values, io, true);
+			case undefined:
+				throw new UsageError('Missing command');
+			default:
+				throw new UsageError(`Unknown command: ${command}`);
+		}
+	} catch (error) {
+		io.stderr.write(`ga4: ${errorText(error)}\n`);
+		if (!(error instanceof UsageError) && !isArgsError(error)) return 1;
+		io.stderr.write(`\n${USAGE}`);
+		return 2;
+	}
+}
+
+async function validate(file: string, values: Values, io: GA4CliIO): Promise<number> {
+	const client = values['dry-run']
+		? undefined
+		: new GA4Client({ ...(await clientOptions(values, io)), validation: 'off' });
+	const messages: Array<GA4ValidationMessage & { line: number }> = [];
+	let lines = 0;
+
+	for await (const { line, event, error } of readLines(file, io, false)) {
+		lines++;
+		const found = error
+			? [{ fieldPath: '', description: error, validationCode: 'INVALID_JSON' }]
+			: event && client
+				? await debugMessages(client, event)
+				: validationMessages(event as GA4Event);
+		messages.push(...found.map((message) => ({ line, ...message })));
+	}
+
+	const invalid = new Set(messages.map((m) => m.line)).size;
+	if (values.json) io.stdout.write(`${JSON.stringify({ lines, invalid, messages })}\n`);
+	else {
+		for (const m of messages) {
+			const field = m.fieldPath ? `${m.fieldPath}: ` : '';
+			io.stdout.write(`${file}:${m.line}: ${field}${m.description} (${m.validationCode})\n`);
+		}
+		io.stdout.write(`${invalid} of ${lines} lines have validation messages\n`);
+	}
+	return invalid ? 1 : 0;
+}
+
+async function send(file: string | undefined, values: Values, io: GA4CliIO, replay: boolean): Promise<number> {
+	const name = file ?? '<stdin>';
+	const dryRun = values['dry-run'];
+	const result = { read: 0, sent: 0, failed: 0, dropped: 0, expired: 0, invalid: [] as Array<Omit<Line, 'event'>> };
+
+	const client = dryRun ? undefined : new GA4Client(await clientOptions(values, io));
+	const deadLetterPath = values['dead-letter'];
+	const deadLetter = deadLetterPath ? new GA4FileDeadLetterSink({ path: resolve(io.cwd, deadLetterPath) }) : undefined;
+	const batch =
+		client &&
+		new GA4BatchHandler(client, {
+			onFlush: (events) => {
+				result.sent += events.length;
+			},
+			onDrop: (events) => {
+				result.dropped += events.length;
+			},
+			onExpired: (events) => {
+				result.expired += events.length;
+			},
+			deadLetter: async (letters) => {
+				result.failed += letters.length;
+				await deadLetter?.write(letters);
+			},
+		});
+
+	for await (const { line, event, error } of readLines(file, io, replay)) {
+		result.read++;
+		const problem = error ?? (event && localError(event));
+		if (problem) result.invalid.push({ line, error: problem });
+		else if (batch && event) {
+			// A failed auto-flush keeps its payloads queued for the final flush; keep reading.
+			await batch.add(event).catch((error) => io.stderr.write(`ga4: ${name}:${line}: ${errorText(error)}\n`));
+		}
+	}
+
+	if (batch) {
+		try {
+			await batch.stop();
+		} catch (error) {
+			io.stderr.write(`ga4: ${errorText(error)}\n`);
+		}
+		result.failed += batch.size;
+	}
+
+	const valid = result.read - result.invalid.length;
+	if (values.json) io.stdout.write(`${JSON.stringify(dryRun ? { dryRun, valid, invalid: result.invalid } : result)}\n`);
+	else {
+		for (const { line, error } of result.invalid) io.stderr.write(`${name}:${line}: ${error}\n`);
+		io.stdout.write(
+			dryRun
+				? `Would send ${valid} payloads (${result.invalid.length} invalid lines)\n`
+				: `Sent ${result.sent} payloads (${result.failed} failed, ${result.dropped} dropped, ${result.expired} expired, ${result.invalid.length} invalid lines)\n`,
+		);
+	}
+	return result.invalid.length || result.failed || result.dropped || result.expired ? 1 : 0;
+}
+
+/**
+ * Read NDJSON payloads with their 1-based line numbers, skipping blank lines. With `replay`,
+ * dead letters (`{ event }`) and captured requests (`{ endpoint, body }`) are unwrapped to their payload.
+ */
+async function* readLines(file: string | undefined, io: GA4CliIO, replay: boolean): AsyncGenerator<Line> {
+	const input = file === undefined || file === '-' ? io.stdin : createReadStream(resolve(io.cwd, file));
+	let line = 0;
+
+	for await (const text of createInterface({ input, crlfDelay: Number.POSITIVE_INFINITY })) {
+		line++;
+		if (!text.trim()) continue;
+
+		let value: unknown;
+		try {
+			value = JSON.parse(text);
+		} catch (error) {
+			yield { line, error: `Invalid JSON: ${(error as Error).message}` };
+			continue;
+		}
+
+		const event = replay ? unwrap(value) : value;
+		if (!event || typeof event !== 'object' || Array.isArray(event)) yield { line, error: 'Expected a JSON object' };
+		else yield { line, event: event as GA4Event };
+	}
+}
+
+function unwrap(value: unknown): unknown {
+	if (!value || typeof value !== 'object') return value;
+	if ('event' in value) return value.event;
+	if ('endpoint' in value && 'body' in value) return value.body;
+	return value;
+}
+
+/**
+ * Debug endpoint messages for one line. Payloads the client refuses to send (e.g., a missing client_id or
+ * more than 25 events) are reported as that line's messages instead of ending the run.
+ */
+async function debugMessages(client: GA4Client, event: GA4Event): Promise<GA4ValidationMessage[]> {
+	try {
+		return (await client.debug([event])).validationMessages;
+	} catch (error) {
+		if (error instanceof GA4ValidationError) return [errorMessage(error)];
+		if (error instanceof GA4Error && error.code === GA4ErrorCode.TooManyEvents) {
+			return [{ fieldPath: 'events', description: error.message, validationCode: 'EXCEEDED_MAX_ENTITIES' }];
+		}
+		throw error;
+	}
+}
+
+function errorText(error: unknown): string {
+	return error instanceof Error ? error.message : String(error);
+}
+
+/** First client-side validation error for `event`, if any. */
+function localError(event: GA4Event): string | undefined {
+	try {
+		validateEvent(event);
+		return undefined;
+	} catch (error) {
+		if (error instanceof GA4ValidationError) return error.message;
+		throw error;
+	}
+}
+
+/** Client options from flags, then environment variables, then the config file. */
+async function clientOptions(values: Values, io: GA4CliIO): Promise<GA4ClientOptions> {
+	const layers: Credentials[] = [
+		{
+			measurementId: values['measurement-id'],
+			firebaseAppId: values['firebase-app-id'],
+			apiSecret: values['api-secret'],
+			baseUrl: values['base-url'],
+		},
+		{
+			measurementId: io.env.GA4_MEASUREMENT_ID,
+			firebaseAppId: io.env.GA4_FIREBASE_APP_ID,
+			apiSecret: io.env.GA4_API_SECRET,
+			baseUrl: io.env.GA4_BASE_URL,
+		},
+		await loadConfig(values.config ?? io.env.GA4_CONFIG, io),
+	];
+
+	const stream = layers.find((l) => l.measurementId || l.firebaseAppId);
+	const apiSecret = layers.find((l) => l.apiSecret)?.apiSecret;
+	const baseUrl = layers.find((l) => l.baseUrl)?.baseUrl;
+
+	if (!stream) throw new UsageError('Missing --measurement-id or --firebase-app-id (or GA4_MEASUREMENT_ID)');
+	if (!apiSecret) throw new UsageError('Missing API secret: set GA4_API_SECRET or apiSecret in the config file');
+	if (stream.measurementId && stream.firebaseAppId) {
+		throw new UsageError('Pass either a measurement ID or a Firebase app ID, not both');
+	}
+
+	return stream.firebaseAppId
+		? { firebaseAppId: stream.firebaseAppId, apiSecret, baseUrl }
+		: { measurementId: stream.measurementId as string, apiSecret, baseUrl };
+}
+
+/** Read the config file; a missing default file is not an error. */
+async function loadConfig(path: string | undefined, io: GA4CliIO): Promise<Credentials> {
+	let content: string;
+	try {
+		content = await readFile(resolve(io.cwd, path ?? DEFAULT_CONFIG), 'utf8');
+	} catch (error) {
+		if (path === undefined && (error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+		throw new UsageError(`Cannot read config file ${path}: ${(error as Error).message}`);
+	}
+
+	try {
+		return JSON.parse(content) as Credentials;
+	} catch (error) {
+		throw new UsageError(`Invalid config file ${path ?? DEFAULT_CONFIG}: ${(error as Error).message}`);
+	}
+}
+
+function requireFile(command: string, file: string | undefined): string {
+	if (!file) throw new UsageError(`${command} needs a file`);
+	return file;
+}
+
+/** parseArgs rejects unknown or malformed options with ERR_PARSE_ARGS_* errors. */
+function isArgsError(error: unknown): boolean {
+	return String((error as NodeJS.ErrnoException)?.code).startsWith('ERR_PARSE_ARGS');
+}
+
+function processIO(): GA4CliIO {
+	return { stdin: process.stdin, stdout: process.stdout, stderr: process.stderr, env: process.env, cwd: process.cwd() };
+}
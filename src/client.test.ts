@@ -1,7 +1,9 @@
 import assert from 'node:assert/strict';
 import { describe, it, mock } from 'node:test';
 import { GA4Client } from './client.js';
-import { GA4Error, GA4ErrorCode } from './errors.js';
+import { GA4Error, GA4ErrorCode, GA4ValidationError } from './errors.js';
+import { defaultParams, denyEvents } from './middleware.js';
+import { GA4CircuitBreaker, GA4RetryBudget } from './resilience.js';
 
 describe('GA4Client', () => {
 	const defaultOptions = { measurementId: 'G-TEST123', apiSecret: 'test-secret' };
@@ -16,6 +18,11 @@ describe('GA4Client', () => {
 			assert.throws(() => new GA4Client({ measurementId: '', apiSecret: 'secret' }), GA4Error);
 		});
 
+		it('should throw if both measurementId and firebaseAppId are given', () => {
+			const options = { measurementId: 'G-TEST', firebaseAppId: '1:1:ios:a', apiSecret: 'secret' };
+			assert.throws(() => new GA4Client(options as never), GA4Error);
+		});
+
 		it('should throw if apiSecret is missing', () => {
 			assert.throws(() => new GA4Client({ measurementId: 'G-TEST', apiSecret: '' }), GA4Error);
 		});
@@ -49,6 +56,145 @@ describe('GA4Client', () => {
 			const client = new GA4Client(defaultOptions);
 			await assert.rejects(client.send({ client_id: 'test', events: [{ name: 'a'.repeat(41) }] }), GA4Error);
 		});
+
+		it('should repair by default and throw only in strict mode', async () => {
+			const mockFetch = mock.fn(async () => ({ ok: true, status: 204 }));
+			const event = { client_id: 'test', events: [{ name: 'test', params: { label: 'x'.repeat(150) } }] };
+
+			await new GA4Client({ ...defaultOptions, fetch: mockFetch as unknown as typeof fetch }).send(event);
+			await assert.rejects(
+				new GA4Client({ ...defaultOptions, validation: 'strict' }).send(event),
+				(error: GA4ValidationError) => error.fieldPath === 'events[0].params.label',
+			);
+			assert.equal(mockFetch.mock.callCount(), 1);
+		});
+
+		it('should send repaired payload and report issues', async () => {
+			const mockFetch = mock.fn(async () => ({ ok: true, status: 204 }));
+			const onValidationIssues = mock.fn();
+			const client = new GA4Client({
+				...defaultOptions,
+				validation: 'repair',
+				onValidationIssues,
+				fetch: mockFetch as unknown as typeof fetch,
+			});
+
+			await client.send({ client_id: 'test', events: [{ name: 'test', params: { label: 'x'.repeat(150) } }] });
+
+			const body = JSON.parse(mockFetch.mock.calls[0]?.arguments[1]?.body as string);
+			assert.equal(body.events[0].params.label.length, 100);
+			assert.equal(onValidationIssues.mock.callCount(), 1);
+		});
+
+		it('should refuse unhashed user data in every validation mode', async () => {
+			const mockFetch = mock.fn(async () => ({ ok: true, status: 204 }));
+
+			for (const validation of ['strict', 'repair', 'drop', 'off'] as const) {
+				const client = new GA4Client({ ...defaultOptions, validation, fetch: mockFetch as unknown as typeof fetch });
+				await assert.rejects(
+					client.send({
+						client_id: 'test',
+						user_data: { sha256_phone_number: '+16505551234' },
+						events: [{ name: 'a' }],
+					}),
+					(error: GA4ValidationError) => error.fieldPath === 'user_data.sha256_phone_number',
+				);
+				await assert.rejects(
+					client.send({
+						client_id: 'test',
+						user_data: { address: [{ sha256_street: '1 Main St' }] },
+						events: [{ name: 'a' }],
+					}),
+					(error: GA4ValidationError) => error.fieldPath === 'user_data.address[0].sha256_street',
+				);
+			}
+			assert.equal(mockFetch.mock.callCount(), 0);
+		});
+
+		it('should skip validation when off', async () => {
+			const mockFetch = mock.fn(async () => ({ ok: true, status: 204 }));
+			const client = new GA4Client({
+				...defaultOptions,
+				validation: 'off',
+				fetch: mockFetch as unknown as typeof fetch,
+			});
+			await client.send({ client_id: 'test', events: [{ name: '_internal' }] });
+			assert.equal(mockFetch.mock.callCount(), 1);
+		});
+	});
+
+	describe('use', () => {
+		it('should run middleware before validation', async () => {
+			const mockFetch = mock.fn(async () => ({ ok: true, status: 204 }));
+			const client = new GA4Client({ ...defaultOptions, fetch: mockFetch as unknown as typeof fetch });
+			client.use(defaultParams({ app_version: '1.0' }), denyEvents(['session_start']));
+
+			await client.send({ client_id: 'test', events: [{ name: 'session_start' }, { name: 'login' }] });
+
+			const body = JSON.parse(mockFetch.mock.calls[0]?.arguments[1]?.body);
+			assert.deepEqual(body.events, [{ name: 'login', params: { app_version: '1.0' } }]);
+		});
+
+		it('should not send when every payload is dropped', async () => {
+			const mockFetch = mock.fn(async () => ({ ok: true, status: 204 }));
+			const client = new GA4Client({ ...defaultOptions, fetch: mockFetch as unknown as typeof fetch }).use(() => null);
+
+			await client.sendWithRetry([{ client_id: 'test', events: [{ name: 'a' }] }]);
+			assert.deepEqual(await client.debug([{ client_id: 'test', events: [{ name: 'a' }] }]), {
+				validationMessages: [],
+			});
+			assert.equal(mockFetch.mock.callCount(), 0);
+		});
+
+		it('should run middleware once per sendWithRetry call', async () => {
+			let attempts = 0;
+			const mockFetch = mock.fn(async () =>
+				++attempts < 3 ? { ok: false, status: 503, text: async () => '' } : { ok: true, status: 204 },
+			);
+			const middleware = mock.fn((event) => event);
+			const client = new GA4Client({ ...defaultOptions, fetch: mockFetch as unknown as typeof fetch }).use(middleware);
+
+			await client.sendWithRetry([{ client_id: 'test', events: [{ name: 'a' }] }], { initialDelayMs: 1 });
+			assert.equal(mockFetch.mock.callCount(), 3);
+			assert.equal(middleware.mock.callCount(), 1);
+		});
+	});
+
+	describe('app streams', () => {
+		const appOptions = { firebaseAppId: '1:1234567890:android:abc123', apiSecret: 'test-secret' };
+		const appInstanceId = 'cbd7fc9d4ec6e2f6a3e4e5e0e1f2a3b4';
+
+		it('should send with firebase_app_id and app_instance_id', async () => {
+			const mockFetch = mock.fn(async () => ({ ok: true, status: 204 }));
+			const client = new GA4Client({ ...appOptions, fetch: mockFetch as unknown as typeof fetch });
+
+			await client.send({ app_instance_id: appInstanceId, events: [{ name: 'level_up' }] });
+
+			const [url, init] = mockFetch.mock.calls[0]?.arguments ?? [];
+			assert.ok(url.includes('/mp/collect?firebase_app_id=1%3A1234567890%3Aandroid%3Aabc123&api_secret=test-secret'));
+			assert.equal(JSON.parse(init.body).app_instance_id, appInstanceId);
+			assert.ok(client.isAppStream);
+		});
+
+		it('should reject web payloads and invalid app_instance_id', async () => {
+			const mockFetch = mock.fn(async () => ({ ok: true, status: 204 }));
+			const client = new GA4Client({ ...appOptions, fetch: mockFetch as unknown as typeof fetch });
+
+			await assert.rejects(
+				client.send({ client_id: 'web', events: [{ name: 'a' }] }),
+				(error: GA4ValidationError) => error.fieldPath === 'app_instance_id',
+			);
+			await assert.rejects(client.send({ app_instance_id: 'not-hex', events: [{ name: 'a' }] }), GA4ValidationError);
+			assert.equal(mockFetch.mock.callCount(), 0);
+		});
+
+		it('should use the debug endpoint', async () => {
+			const mockFetch = mock.fn(async () => ({ ok: true, status: 200, text: async () => '{"validationMessages":[]}' }));
+			const client = new GA4Client({ ...appOptions, fetch: mockFetch as unknown as typeof fetch });
+
+			await client.debug([{ app_instance_id: appInstanceId, events: [{ name: 'a' }] }]);
+			assert.ok(mockFetch.mock.calls[0]?.arguments[0]?.includes('/debug/mp/collect?firebase_app_id='));
+		});
 	});
 
 	describe('sendBatch', () => {
@@ -58,12 +204,62 @@ describe('GA4Client', () => {
 
 			await client.sendBatch([
 				{ client_id: 'client-1', events: [{ name: 'event_1' }] },
-				{ client_id: 'client-2', events: [{ name: 'event_2' }] },
+				{ client_id: 'client-1', timestamp_micros: 1000, events: [{ name: 'event_2' }] },
 			]);
 
 			assert.equal(mockFetch.mock.callCount(), 1);
 			const body = JSON.parse(mockFetch.mock.calls[0]?.arguments[1]?.body as string);
 			assert.equal(body.events.length, 2);
+			assert.equal(body.events[1].timestamp_micros, 1000);
+		});
+
+		it('should send one request per user instead of merging their events', async () => {
+			const mockFetch = mock.fn(async () => ({ ok: true, status: 204 }));
+			const client = new GA4Client({ ...defaultOptions, fetch: mockFetch as unknown as typeof fetch });
+
+			await client.sendBatch([
+				{ client_id: 'client-1', events: [{ name: 'event_1' }] },
+				{ client_id: 'client-2', events: [{ name: 'event_2' }] },
+				{ client_id: 'client-1', events: [{ name: 'event_3' }] },
+			]);
+
+			const bodies = mockFetch.mock.calls.map((c) => JSON.parse(c.arguments[1]?.body as string));
+			assert.deepEqual(
+				bodies.map((b) => [b.client_id, b.events.map((e: { name: string }) => e.name)]),
+				[
+					['client-1', ['event_1', 'event_3']],
+					['client-2', ['event_2']],
+				],
+			);
+		});
+
+		it('should send payloads with different consent separately', async () => {
+			const mockFetch = mock.fn(async () => ({ ok: true, status: 204 }));
+			const client = new GA4Client({ ...defaultOptions, fetch: mockFetch as unknown as typeof fetch });
+
+			await client.sendBatch([
+				{ client_id: 'test', consent: { ad_user_data: 'GRANTED' }, events: [{ name: 'event_1' }] },
+				{ client_id: 'test', consent: { ad_user_data: 'DENIED' }, events: [{ name: 'event_2' }] },
+			]);
+
+			assert.equal(mockFetch.mock.callCount(), 2);
+		});
+
+		it('should send the other requests when one fails', async () => {
+			let calls = 0;
+			const mockFetch = mock.fn(async () =>
+				++calls === 1 ? { ok: false, status: 400, text: async () => 'Bad request' } : { ok: true, status: 204 },
+			);
+			const client = new GA4Client({ ...defaultOptions, fetch: mockFetch as unknown as typeof fetch });
+
+			await assert.rejects(
+				client.sendBatch([
+					{ client_id: 'client-1', events: [{ name: 'event_1' }] },
+					{ client_id: 'client-2', events: [{ name: 'event_2' }] },
+				]),
+				(error: GA4Error) => error.code === GA4ErrorCode.Client,
+			);
+			assert.equal(mockFetch.mock.callCount(), 2);
 		});
 
 		it('should throw for more than 25 events', async () => {
@@ -142,6 +338,76 @@ describe('GA4Client', () => {
 			assert.equal(mockFetch.mock.callCount(), 3);
 		});
 
+		it('should retry on network error', async () => {
+			let attempts = 0;
+			const mockFetch = mock.fn(async () => {
+				if (++attempts < 2) throw new TypeError('fetch failed');
+				return { ok: true, status: 204 };
+			});
+
+			const client = new GA4Client({ ...defaultOptions, fetch: mockFetch as unknown as typeof fetch });
+			await client.sendWithRetry([{ client_id: 'test', events: [{ name: 'test' }] }], { initialDelayMs: 1 });
+
+			assert.equal(mockFetch.mock.callCount(), 2);
+		});
+
+		it('should honor Retry-After', async () => {
+			let attempts = 0;
+			const mockFetch = mock.fn(async () => {
+				if (++attempts < 2) {
+					return { ok: false, status: 429, headers: new Headers({ 'Retry-After': '0.05' }), text: async () => '' };
+				}
+				return { ok: true, status: 204 };
+			});
+
+			const client = new GA4Client({ ...defaultOptions, fetch: mockFetch as unknown as typeof fetch });
+			const start = Date.now();
+			await client.sendWithRetry([{ client_id: 'test', events: [{ name: 'test' }] }], { initialDelayMs: 1 });
+
+			assert.equal(mockFetch.mock.callCount(), 2);
+			assert.ok(Date.now() - start >= 45);
+		});
+
+		it('should not retry when Retry-After exceeds maxDelayMs', async () => {
+			const mockFetch = mock.fn(async () => ({
+				ok: false,
+				status: 429,
+				headers: new Headers({ 'Retry-After': '120' }),
+				text: async () => '',
+			}));
+			const client = new GA4Client({ ...defaultOptions, fetch: mockFetch as unknown as typeof fetch });
+
+			await assert.rejects(
+				client.sendWithRetry([{ client_id: 'test', events: [{ name: 'test' }] }], { maxDelayMs: 1000 }),
+				(error: GA4Error) => error.headers?.['retry-after'] === '120' && error.retryAfterMs() === 120_000,
+			);
+			assert.equal(mockFetch.mock.callCount(), 1);
+		});
+
+		it('should stop retrying when the retry budget is exhausted', async () => {
+			const mockFetch = mock.fn(async () => ({ ok: false, status: 500, text: async () => 'Error' }));
+			const retryBudget = new GA4RetryBudget({ ratio: 0, minRetriesPerSecond: 1, windowMs: 1000 });
+			const client = new GA4Client({ ...defaultOptions, retryBudget, fetch: mockFetch as unknown as typeof fetch });
+
+			await assert.rejects(
+				client.sendWithRetry([{ client_id: 'test', events: [{ name: 'test' }] }], { initialDelayMs: 1 }),
+			);
+			assert.equal(mockFetch.mock.callCount(), 2);
+		});
+
+		it('should fail fast when the circuit is open', async () => {
+			const mockFetch = mock.fn(async () => ({ ok: false, status: 503, text: async () => 'Error' }));
+			const circuitBreaker = new GA4CircuitBreaker({ failureThreshold: 2 });
+			const client = new GA4Client({ ...defaultOptions, circuitBreaker, fetch: mockFetch as unknown as typeof fetch });
+
+			await assert.rejects(
+				client.sendWithRetry([{ client_id: 'test', events: [{ name: 'test' }] }], { initialDelayMs: 1 }),
+				(error: GA4Error) => error.code === GA4ErrorCode.CircuitOpen,
+			);
+			assert.equal(mockFetch.mock.callCount(), 2);
+			assert.equal(circuitBreaker.state, 'open');
+		});
+
 		it('should not retry on client error', async () => {
 			const mockFetch = mock.fn(async () => ({ ok: false, status: 400, text: async () => 'Bad request' }));
 			const client = new GA4Client({ ...defaultOptions, fetch: mockFetch as unknown as typeof fetch });
@@ -3,131 +3,422 @@
  * @see https://developers.google.com/analytics/devguides/collection/protocol/ga4
  */
 
-import { GA4Error, GA4ErrorCode } from './errors.js';
-import { GA4, type GA4ClientOptions, type GA4DebugResponse, type GA4Event, type RetryOptions } from './types.js';
+import { Deduplicator, mayHaveArrived } from './dedup.js';
+import { GA4Error, GA4ErrorCode, GA4ValidationError } from './errors.js';
+import { groupByIdentity, mergePayloads, splitPayload } from './grouping.js';
+import { runMiddleware } from './middleware.js';
+import { Emitter, Histogram } from './observability.js';
+import { type GA4CircuitBreaker, type GA4RateLimiter, type GA4RetryBudget, backoffDelay } from './resilience.js';
+import { GA4FetchTransport } from './transport.js';
+import {
+	GA4,
+	type GA4ClientBaseOptions,
+	type GA4ClientEvents,
+	type GA4ClientOptions,
+	type GA4ClientStats,
+	type GA4DebugResponse,
+	type GA4Event,
+	type GA4EventItem,
+	type GA4EventMap,
+	type GA4EventSchema,
+	type GA4Listener,
+	type GA4Middleware,
+	type GA4Transport,
+	type GA4TransportResponse,
+	type GA4TypedEvent,
+	type GA4ValidationIssue,
+	type RetryOptions,
+} from './types.js';
+import { type GA4ValidationResult, assertHashedUserData, validateEvent } from './validation.js';
 
-export class GA4Client {
-	private readonly config: Required<Omit<GA4ClientOptions, 'fetch'>> & { fetch: typeof fetch };
+const ENDPOINT = '/mp/collect';
+const DEBUG_ENDPOINT = '/debug/mp/collect';
 
-	constructor(options: GA4ClientOptions) {
-		if (!options.measurementId) throw new GA4Error(GA4ErrorCode.Validation, 'measurementId is required');
+/** Node.js and undici error codes of requests that failed before anything was sent. */
+const CONNECT_ERROR_CODES = new Set([
+	'ECONNREFUSED',
+	'ENOTFOUND',
+	'EAI_AGAIN',
+	'ENETUNREACH',
+	'EHOSTUNREACH',
+	'UND_ERR_CONNECT_TIMEOUT',
+]);
+
+export class GA4Client<S extends GA4EventMap = GA4EventMap> {
+	private readonly config: Required<
+		Pick<GA4ClientBaseOptions, 'apiSecret' | 'baseUrl' | 'timeoutMs' | 'debug' | 'validation'>
+	>;
+	private readonly transport: GA4Transport;
+	/** Stream query parameter: measurement_id for web streams, firebase_app_id for app streams. */
+	private readonly stream: { param: 'measurement_id' | 'firebase_app_id'; id: string };
+	private readonly onValidationIssues?: (issues: GA4ValidationIssue[], event: GA4Event) => void;
+	private readonly schema?: GA4EventSchema<S>;
+	private readonly retryBudget?: GA4RetryBudget;
+	private readonly circuitBreaker?: GA4CircuitBreaker;
+	private readonly limiter?: GA4RateLimiter;
+	private readonly middleware: GA4Middleware[] = [];
+	private readonly dedup?: Deduplicator;
+	private readonly emitter = new Emitter<GA4ClientEvents>();
+	private readonly counters = {
+		requests: 0,
+		succeeded: 0,
+		failed: 0,
+		retries: 0,
+		events: 0,
+		validationFailures: 0,
+		validationRepairs: 0,
+		dropped: 0,
+	};
+	private readonly statuses: Record<string, number> = {};
+	private readonly latency = new Histogram();
+	private lastRequestId = 0;
+
+	constructor(options: GA4ClientOptions<S>) {
+		if (options.measurementId && options.firebaseAppId) {
+			throw new GA4Error(GA4ErrorCode.Validation, 'Pass either measurementId or firebaseAppId, not both');
+		}
+		if (!options.measurementId && !options.firebaseAppId) {
+			throw new GA4Error(
+				GA4ErrorCode.Validation,
+				'measurementId (web stream) or firebaseAppId (app stream) is required',
+			);
+		}
 		if (!options.apiSecret) throw new GA4Error(GA4ErrorCode.Validation, 'apiSecret is required');
+		if (options.fetch && options.transport) {
+			throw new GA4Error(GA4ErrorCode.Validation, 'Pass either fetch or transport, not both');
+		}
 
+		this.stream = options.firebaseAppId
+			? { param: 'firebase_app_id', id: options.firebaseAppId }
+			: { param: 'measurement_id', id: options.measurementId as string };
 		this.config = {
-			measurementId: options.measurementId,
 			apiSecret: options.apiSecret,
 			baseUrl: options.baseUrl ?? GA4.BASE_URL,
 			timeoutMs: options.timeoutMs ?? GA4.TIMEOUT_MS,
 			debug: options.debug ?? false,
-			fetch: options.fetch ?? globalThis.fetch,
+			validation: options.validation ?? 'repair',
+		};
+		this.transport = options.transport ?? new GA4FetchTransport({ fetch: options.fetch });
+		this.onValidationIssues = options.onValidationIssues;
+		this.schema = options.schema;
+		this.retryBudget = options.retryBudget;
+		this.circuitBreaker = options.circuitBreaker;
+		this.limiter = options.rateLimiter;
+		if (options.dedup) {
+			this.dedup = new Deduplicator(options.dedup === true ? {} : options.dedup, this.stream.id);
+		}
+	}
+
+	/**
+	 * Add middleware that runs on every payload, in registration order, before validation.
+	 * A middleware returning null drops the payload; a request whose payloads are all dropped is not sent.
+	 * @example
+	 * client.use(defaultParams({ app_version: '2.4.1' }), denyEvents(['debug_ping']));
+	 */
+	use(...middleware: GA4Middleware[]): this {
+		this.middleware.push(...middleware);
+		return this;
+	}
+
+	/**
+	 * Listen to lifecycle events: `request:start`, `request:end`, `retry`, `validation` and `drop`.
+	 * Returns a function that removes the listener.
+	 * @example
+	 * client.on('request:end', ({ durationMs, status, error }) => {
+	 *   if (error) logger.warn({ durationMs, status }, `GA4 request failed: ${error.message}`);
+	 * });
+	 */
+	on<K extends keyof GA4ClientEvents>(event: K, listener: GA4Listener<GA4ClientEvents[K]>): () => void {
+		return this.emitter.on(event, listener);
+	}
+
+	/** Remove a listener added with `on`. */
+	off<K extends keyof GA4ClientEvents>(event: K, listener: GA4Listener<GA4ClientEvents[K]>): void {
+		this.emitter.off(event, listener);
+	}
+
+	/** Counters and histograms since the client was created. */
+	stats(): GA4ClientStats {
+		return {
+			...this.counters,
+			statuses: { ...this.statuses },
+			duplicates: this.duplicates,
+			latency: this.latency.snapshot(),
 		};
 	}
 
 	/** Send a single event to GA4. */
-	async send(event: GA4Event): Promise<void> {
+	async send(event: GA4TypedEvent<S>): Promise<void> {
 		await this.sendBatch([event]);
 	}
 
-	/** Send multiple events in a single request (max 25). */
-	async sendBatch(events: GA4Event[]): Promise<void> {
-		if (!events.length) return;
+	/**
+	 * Send multiple payloads (max 25 events). Payloads of one client_id (or app_instance_id) and user_id go
+	 * in a single request; payloads of different users or request-level fields go in separate requests.
+	 * When a request fails the others are still sent, and the first error is thrown afterwards.
+	 */
+	async sendBatch(events: GA4TypedEvent<S>[]): Promise<void> {
+		await this.sendEach(await this.prepare(events), async (prepared) => {
+			const { payload, keys } = await this.claim(prepared);
+			if (!payload) return;
 
-		if (events.length > GA4.MAX_EVENTS) {
-			throw new GA4Error(GA4ErrorCode.TooManyEvents, `Max ${GA4.MAX_EVENTS} events, got ${events.length}`);
+			try {
+				await this.post(payload, this.config.debug);
+			} catch (error) {
+				if (!mayHaveArrived(error)) await this.dedup?.release(keys);
+				throw error;
+			}
+		});
+	}
+
+	/**
+	 * Send events with automatic retry on transient errors (network, timeout, 5xx, 429).
+	 * Waits at least as long as a Retry-After header asks, and stops early when the retry
+	 * budget is exhausted or the circuit breaker is open. With `dedup`, a retry after a timeout, network
+	 * error or 5xx leaves out keyed events, since the earlier attempt may have arrived.
+	 * Requests for different users are retried independently, as in `sendBatch`.
+	 */
+	async sendWithRetry(events: GA4TypedEvent<S>[], options: RetryOptions = {}): Promise<void> {
+		await this.sendEach(await this.prepare(events), (payload) => this.retry(payload, options));
+	}
+
+	/** Validate events using GA4's debug endpoint without sending to production. */
+	async debug(events: GA4TypedEvent<S>[]): Promise<GA4DebugResponse> {
+		const validationMessages: GA4DebugResponse['validationMessages'] = [];
+
+		for (const payload of await this.prepare(events)) {
+			const { body } = await this.post(payload, true);
+			try {
+				validationMessages.push(...(JSON.parse(body) as GA4DebugResponse).validationMessages);
+			} catch {
+				throw new GA4Error(GA4ErrorCode.Serialization, `Invalid debug response: ${body}`);
+			}
 		}
+		return { validationMessages };
+	}
+
+	/**
+	 * Idempotency key `dedup` uses for an event, or undefined when the event is not deduplicated
+	 * (or `dedup` is off). GA4BatchHandler uses it to drop duplicates already in its queue.
+	 */
+	idempotencyKey(item: GA4EventItem, event: GA4Event): string | undefined {
+		return this.dedup?.key(item, event);
+	}
+
+	/** Events dropped because their idempotency key was already sent within the dedup window. */
+	get duplicates(): number {
+		return this.dedup?.duplicates ?? 0;
+	}
+
+	/** The rate limiter requests wait on, if any. */
+	get rateLimiter(): GA4RateLimiter | undefined {
+		return this.limiter;
+	}
+
+	/** Whether this client sends to a Firebase app stream. */
+	get isAppStream(): boolean {
+		return this.stream.param === 'firebase_app_id';
+	}
 
-		for (const e of events) this.validate(e);
-		await this.post(this.merge(events), this.config.debug);
+	/** Send every request, even after one fails; rethrow the first failure once all have been attempted. */
+	private async sendEach(requests: GA4Event[], send: (payload: GA4Event) => Promise<void>): Promise<void> {
+		let failure: { error: unknown } | undefined;
+		for (const payload of requests) {
+			try {
+				await send(payload);
+			} catch (error) {
+				failure ??= { error };
+			}
+		}
+		if (failure) throw failure.error;
 	}
 
-	/** Send events with automatic retry on transient errors (5xx, 429). */
-	async sendWithRetry(events: GA4Event[], options: RetryOptions = {}): Promise<void> {
+	private async retry(prepared: GA4Event, options: RetryOptions): Promise<void> {
 		const {
 			maxRetries = GA4.MAX_RETRIES,
 			initialDelayMs = GA4.INITIAL_RETRY_DELAY_MS,
 			maxDelayMs = GA4.MAX_RETRY_DELAY_MS,
+			jitter = 'full',
 		} = options;
 
+		let { payload, keys } = await this.claim(prepared);
+		if (!payload) return;
+
+		this.retryBudget?.recordRequest();
+
 		let delay = initialDelayMs;
 		for (let attempt = 0; attempt <= maxRetries; attempt++) {
 			try {
-				return await this.sendBatch(events);
+				await this.post(payload, this.config.debug, attempt + 1);
+				return;
 			} catch (error) {
-				if (!(error instanceof GA4Error) || !error.isRetryable() || attempt === maxRetries) throw error;
-				await this.sleep(Math.min(delay, maxDelayMs));
-				delay *= 2;
+				const giveUp =
+					!(error instanceof GA4Error) ||
+					!error.isRetryable() ||
+					attempt === maxRetries ||
+					error.code === GA4ErrorCode.CircuitOpen ||
+					(error.retryAfterMs() ?? 0) > maxDelayMs ||
+					(this.retryBudget !== undefined && !this.retryBudget.tryRetry());
+
+				if (!mayHaveArrived(error)) {
+					if (giveUp) await this.dedup?.release(keys);
+				} else if (this.dedup && keys.length) {
+					payload = this.dedup.withoutClaimed(payload, keys);
+					keys = [];
+					if (!payload) throw error;
+				}
+				if (giveUp) throw error;
+
+				const retryAfter = (error as GA4Error).retryAfterMs() ?? 0;
+
+				delay = backoffDelay(jitter, attempt, delay, initialDelayMs, maxDelayMs);
+				const delayMs = Math.max(delay, retryAfter);
+				this.counters.retries++;
+				this.emitter.emit('retry', { attempt: attempt + 2, delayMs, error: error as GA4Error });
+				await this.sleep(delayMs);
 			}
 		}
 	}
 
-	/** Validate events using GA4's debug endpoint without sending to production. */
-	async debug(events: GA4Event[]): Promise<GA4DebugResponse> {
-		if (!events.length) return { validationMessages: [] };
+	/**
+	 * Run middleware, validate and merge payloads into requests of at most 25 events per user;
+	 * empty when nothing is left to send.
+	 */
+	private async prepare(events: GA4TypedEvent<S>[]): Promise<GA4Event[]> {
+		if (!events.length) return [];
 
-		if (events.length > GA4.MAX_EVENTS) {
-			throw new GA4Error(GA4ErrorCode.TooManyEvents, `Max ${GA4.MAX_EVENTS} events, got ${events.length}`);
+		const count = events.reduce((n, e) => n + (e.events?.length ?? 0), 0);
+		if (events.length > GA4.MAX_EVENTS || count > GA4.MAX_EVENTS) {
+			throw new GA4Error(
+				GA4ErrorCode.TooManyEvents,
+				`Max ${GA4.MAX_EVENTS} events, got ${Math.max(events.length, count)}`,
+			);
 		}
 
-		for (const e of events) this.validate(e);
-		const response = await this.post(this.merge(events), true);
-		const body = await response.text();
-
-		try {
-			return JSON.parse(body) as GA4DebugResponse;
-		} catch {
-			throw new GA4Error(GA4ErrorCode.Serialization, `Invalid debug response: ${body}`);
+		const payloads: GA4Event[] = [];
+		for (const event of events) {
+			const processed = this.middleware.length
+				? await runMiddleware(this.middleware, event, { stage: 'send', metadata: {} })
+				: event;
+			// Middleware may add events (e.g., a session start marker); those go in an extra request.
+			if (processed) payloads.push(...splitPayload(this.validate(processed)));
+			else {
+				this.counters.dropped++;
+				this.emitter.emit('drop', { events: [event], reason: 'middleware' });
+			}
 		}
+		return groupByIdentity(payloads).map(mergePayloads);
 	}
 
-	private validate(event: GA4Event): void {
-		if (!event.client_id) throw new GA4Error(GA4ErrorCode.Validation, 'client_id is required');
-		if (!event.events?.length) throw new GA4Error(GA4ErrorCode.Validation, 'At least one event is required');
+	/** Claim the idempotency keys of a prepared payload, dropping events that were already sent. */
+	private async claim(payload: GA4Event): Promise<{ payload?: GA4Event; keys: string[] }> {
+		if (!this.dedup) return { payload, keys: [] };
+
+		const claim = await this.dedup.claim(payload);
+		if (claim.duplicates.length) {
+			this.emitter.emit('drop', { events: [{ ...payload, events: claim.duplicates }], reason: 'duplicate' });
+		}
+		return claim;
+	}
 
-		for (const { name } of event.events) {
-			if (!name) throw new GA4Error(GA4ErrorCode.Validation, 'Event name is required');
-			if (name.length > GA4.MAX_EVENT_NAME) {
-				throw new GA4Error(GA4ErrorCode.Validation, `Event name exceeds ${GA4.MAX_EVENT_NAME} chars: ${name}`);
+	private validate(event: GA4Event): GA4Event {
+		let result: GA4ValidationResult;
+		try {
+			if (this.isAppStream ? event.app_instance_id === undefined : event.client_id === undefined) {
+				const field = this.isAppStream ? 'app_instance_id' : 'client_id';
+				throw new GA4ValidationError(`${field} is required for ${this.isAppStream ? 'app' : 'web'} streams`, field);
+			}
+			assertHashedUserData(event);
+			result = validateEvent(event, this.config.validation, this.schema);
+		} catch (error) {
+			if (error instanceof GA4ValidationError) {
+				this.counters.validationFailures++;
+				this.emitter.emit('validation', { event, issues: [], error });
 			}
+			throw error;
+		}
+
+		if (result.issues.length) {
+			this.counters.validationRepairs++;
+			this.onValidationIssues?.(result.issues, event);
+			this.emitter.emit('validation', { event, issues: result.issues });
 		}
+		return result.event;
 	}
 
-	private merge(events: GA4Event[]): GA4Event {
-		const [first, ...rest] = events;
-		if (!first) throw new GA4Error(GA4ErrorCode.Validation, 'No events to merge');
-		if (!rest.length) return first;
+	private async post(payload: GA4Event, debug: boolean, attempt = 1): Promise<GA4TransportResponse> {
+		await this.limiter?.acquire(payload);
+		this.circuitBreaker?.acquire();
 
-		return {
-			client_id: first.client_id,
-			user_id: first.user_id,
-			timestamp_micros: first.timestamp_micros,
-			user_properties: first.user_properties,
-			events: events.flatMap((e) => e.events),
+		const start = {
+			id: ++this.lastRequestId,
+			endpoint: debug ? DEBUG_ENDPOINT : ENDPOINT,
+			events: payload.events.length,
+			attempt,
 		};
+		this.emitter.emit('request:start', start);
+		const startedAt = Date.now();
+
+		try {
+			const response = await this.request(payload, debug);
+			this.circuitBreaker?.onSuccess();
+			this.recordRequest(start, startedAt, response.status);
+			return response;
+		} catch (error) {
+			this.recordRequest(start, startedAt, (error as GA4Error).statusCode, error as GA4Error);
+			if (error instanceof GA4Error && error.isRetryable()) this.circuitBreaker?.onFailure();
+			else this.circuitBreaker?.onSuccess();
+			if (error instanceof GA4Error && error.code === GA4ErrorCode.RateLimited) {
+				this.limiter?.pause(error.retryAfterMs() ?? GA4.RATE_LIMIT_PAUSE_MS);
+			}
+			throw error;
+		}
 	}
 
-	private async post(payload: GA4Event, debug: boolean): Promise<Response> {
-		const endpoint = debug ? '/debug/mp/collect' : '/mp/collect';
-		const url = `${this.config.baseUrl}${endpoint}?measurement_id=${this.config.measurementId}&api_secret=${this.config.apiSecret}`;
+	private recordRequest(
+		start: GA4ClientEvents['request:start'],
+		startedAt: number,
+		status: number | undefined,
+		error?: GA4Error,
+	): void {
+		const durationMs = Date.now() - startedAt;
+		const statusKey = status === undefined ? 'error' : String(status);
+		this.counters.requests++;
+		this.statuses[statusKey] = (this.statuses[statusKey] ?? 0) + 1;
+		this.latency.record(durationMs);
+		if (error) this.counters.failed++;
+		else {
+			this.counters.succeeded++;
+			this.counters.events += start.events;
+		}
+		this.emitter.emit('request:end', { ...start, durationMs, status, ...(error && { error }) });
+	}
+
+	private async request(payload: GA4Event, debug: boolean): Promise<GA4TransportResponse> {
+		const endpoint = debug ? DEBUG_ENDPOINT : ENDPOINT;
+		const query = new URLSearchParams({ [this.stream.param]: this.stream.id, api_secret: this.config.apiSecret });
+		const url = `${this.config.baseUrl}${endpoint}?${query}`;
 
 		const controller = new AbortController();
 		const timeout = setTimeout(() => controller.abort(), this.config.timeoutMs);
 
 		try {
-			const response = await this.config.fetch(url, {
+			const response = await this.transport.send({
+				url,
 				method: 'POST',
 				headers: { 'Content-Type': 'application/json' },
 				body: JSON.stringify(payload),
 				signal: controller.signal,
 			});
 
-			if (!response.ok) await this.handleError(response);
+			if (response.status < 200 || response.status >= 300) this.handleError(response);
 			return response;
 		} catch (error) {
 			if (error instanceof GA4Error) throw error;
 			const msg = error instanceof Error ? error.message : String(error);
 			const isTimeout = error instanceof Error && error.name === 'AbortError';
 			throw new GA4Error(
-				GA4ErrorCode.Request,
+				!isTimeout && isConnectError(error) ? GA4ErrorCode.Connection : GA4ErrorCode.Request,
 				isTimeout ? `Timeout after ${this.config.timeoutMs}ms` : `Request failed: ${msg}`,
 			);
 		} finally {
@@ -135,17 +426,24 @@ export class GA4Client {
 		}
 	}
 
-	private async handleError(response: Response): Promise<never> {
-		const body = await response.text().catch(() => '');
-		const { status } = response;
+	private handleError(response: GA4TransportResponse): never {
+		const { status, body, headers } = response;
 
-		if (status === 429) throw new GA4Error(GA4ErrorCode.RateLimited, 'Rate limited', status, body);
-		if (status >= 500) throw new GA4Error(GA4ErrorCode.Server, `Server error ${status}`, status, body);
-		if (status >= 400) throw new GA4Error(GA4ErrorCode.Client, `Client error ${status}`, status, body);
-		throw new GA4Error(GA4ErrorCode.Unknown, `Unexpected status ${status}`, status, body);
+		if (status === 429) throw new GA4Error(GA4ErrorCode.RateLimited, 'Rate limited', status, body, headers);
+		if (status >= 500) throw new GA4Error(GA4ErrorCode.Server, `Server error ${status}`, status, body, headers);
+		if (status >= 400) throw new GA4Error(GA4ErrorCode.Client, `Client error ${status}`, status, body, headers);
+		throw new GA4Error(GA4ErrorCode.Unknown, `Unexpected status ${status}`, status, body, headers);
 	}
 
 	private sleep(ms: number): Promise<void> {
 		return new Promise((r) => setTimeout(r, ms));
 	}
 }
+
+/** Whether a transport error (or its `cause`, as with fetch's "fetch failed") means no connection was made. */
+function isConnectError(error: unknown): boolean {
+	for (let e: unknown = error; e instanceof Error; e = e.cause) {
+		if (CONNECT_ERROR_CODES.has((e as { code?: string }).code ?? '')) return true;
+	}
+	return false;
+}
@@ -0,0 +1,87 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+	formatClientCookie,
+	formatSessionCookie,
+	generateCookieClientId,
+	parseClientCookie,
+	parseSessionCookie,
+	sessionCookieName,
+} from './cookies.js';
+import { GA4CookieError, GA4ErrorCode } from './errors.js';
+
+describe('cookies', () => {
+	describe('_ga', () => {
+		it('should parse the client_id', () => {
+			assert.deepEqual(parseClientCookie('GA1.2.1234567890.1702934567'), {
+				domainLevel: 2,
+				client_id: '1234567890.1702934567',
+				createdAt: 1702934567000,
+			});
+		});
+
+		it('should reject malformed values with a typed error', () => {
+			for (const value of ['', 'GA1.1.abc.1702934567', 'GA2.1.123.1702934567', 'GA1.1.123']) {
+				assert.throws(
+					() => parseClientCookie(value),
+					(error: GA4CookieError) =>
+						error instanceof GA4CookieError && error.code === GA4ErrorCode.InvalidCookie && error.cookie === '_ga',
+				);
+			}
+		});
+
+		it('should generate values for new visitors', () => {
+			const clientId = generateCookieClientId(Date.UTC(2024, 0, 1));
+			assert.match(clientId, /^\d{1,10}\.1704067200$/);
+			assert.equal(parseClientCookie(formatClientCookie(clientId)).client_id, clientId);
+			assert.throws(() => formatClientCookie('550e8400-e29b-41d4-a716-446655440000'), GA4CookieError);
+		});
+	});
+
+	describe('_ga_<ID>', () => {
+		const expected = {
+			domainLevel: 1,
+			session_id: '1702934567',
+			session_number: 3,
+			engaged: true,
+			lastActivityAt: 1702935000000,
+		};
+
+		it('should parse GS1 and GS2 values', () => {
+			assert.deepEqual(parseSessionCookie('GS1.1.1702934567.3.1.1702935000.60.0.0'), {
+				...expected,
+				version: 'GS1',
+				extra: { j: '60', l: '0', h: '0' },
+			});
+			assert.deepEqual(parseSessionCookie('GS2.1.s1702934567$o3$g1$t1702935000$j60$l0$h0$dabc'), {
+				...expected,
+				version: 'GS2',
+				extra: { j: '60', l: '0', h: '0', d: 'abc' },
+			});
+		});
+
+		it('should reject malformed values', () => {
+			for (const value of [
+				'GS3.1.s1$o1',
+				'GS2.1.o3$g1$t1702935000',
+				'GS1.1.1702934567.x.1.1702935000',
+				'GS2.1.s1702934567$o1$g2$t1702935000',
+			]) {
+				assert.throws(() => parseSessionCookie(value), GA4CookieError);
+			}
+		});
+
+		it('should round-trip generated values', () => {
+			const session = { session_id: '1702934567', session_number: 3, lastActivityAt: 1702935000000, engaged: true };
+			assert.equal(formatSessionCookie(session), 'GS2.1.s1702934567$o3$g1$t1702935000$j0$l0$h0');
+			assert.equal(formatSessionCookie(session, { version: 'GS1' }), 'GS1.1.1702934567.3.1.1702935000.0.0.0');
+
+			const parsed = parseSessionCookie('GS2.1.s1702934567$o3$g1$t1702935000$j60$l0$h0$dabc');
+			assert.equal(formatSessionCookie(parsed), 'GS2.1.s1702934567$o3$g1$t1702935000$j60$l0$h0$dabc');
+		});
+
+		it('should name the cookie after the measurement ID', () => {
+			assert.equal(sessionCookieName('G-ABC123'), '_ga_ABC123');
+		});
+	});
+});
@@ -0,0 +1,129 @@
+/**
+ * GA4 Cookies - parse and generate the `_ga` and `_ga_<ID>` cookies set by gtag.js,
+ * to share client_id and session_id between browser and server events.
+ */
+
+import { GA4CookieError } from './errors.js';
+import type { GA4ClientCookie, GA4Session, GA4SessionCookie } from './types.js';
+
+const CLIENT_COOKIE_PATTERN = /^GA1\.(\d+)\.(\d{1,10})\.(\d{9,10})$/;
+
+const CLIENT_ID_PATTERN = /^\d{1,10}\.\d{9,10}$/;
+
+const GS1_FIELDS = ['s', 'o', 'g', 't', 'j', 'l', 'h'] as const;
+
+/** Name of the session cookie for a measurement ID (e.g., "G-ABC123" → "_ga_ABC123"). */
+export function sessionCookieName(measurementId: string): string {
+	return `_ga_${measurementId.replace(/^G-/, '')}`;
+}
+
+/**
+ * Generate a gtag-compatible client_id (`<random>.<timestamp>`) for a new visitor.
+ * Unlike `generateClientId`, it can be stored in a `_ga` cookie that gtag.js will reuse.
+ * @example
+ * const clientId = generateCookieClientId(); // "1234567890.1702934567"
+ */
+export function generateCookieClientId(at: number = Date.now()): string {
+	const [random = 0] = crypto.getRandomValues(new Uint32Array(1));
+	return `${(random % (2 ** 31 - 1)) + 1}.${Math.floor(at / 1000)}`;
+}
+
+/**
+ * Parse a `_ga` cookie value. Throws GA4CookieError when it is not `GA1.<n>.<random>.<timestamp>`.
+ * @example
+ * parseClientCookie('GA1.1.1234567890.1702934567').client_id; // "1234567890.1702934567"
+ */
+export function parseClientCookie(value: string): GA4ClientCookie {
+	const match = CLIENT_COOKIE_PATTERN.exec(value.trim());
+	if (!match) throw new GA4CookieError(`Expected GA1.<n>.<random>.<timestamp>, got "${value}"`, '_ga');
+
+	const [, domainLevel, random, timestamp] = match as unknown as [string, string, string, string];
+	return { domainLevel: Number(domainLevel), client_id: `${random}.${timestamp}`, createdAt: Number(timestamp) * 1000 };
+}
+
+/**
+ * Format a `_ga` cookie value for a client_id in the `<random>.<timestamp>` format.
+ * @example
+ * const value = formatClientCookie(generateCookieClientId()); // "GA1.1.1234567890.1702934567"
+ */
+export function formatClientCookie(clientId: string, domainLevel = 1): string {
+	if (!CLIENT_ID_PATTERN.test(clientId)) {
+		throw new GA4CookieError(`client_id must be <random>.<timestamp>, got "${clientId}"`, '_ga');
+	}
+	return `GA1.${domainLevel}.${clientId}`;
+}
+
+/**
+ * Parse a `_ga_<ID>` cookie value in the GS1 (`GS1.1.<s>.<o>.<g>.<t>.<j>.<l>.<h>`) or
+ * GS2 (`GS2.1.s<s>$o<o>$g<g>$t<t>$j<j>...`) format. Throws GA4CookieError when malformed.
+ * @example
+ * parseSessionCookie('GS2.1.s1702934567$o3$g1$t1702935000$j60$l0$h0').session_id; // "1702934567"
+ */
+export function parseSessionCookie(value: string): GA4SessionCookie {
+	const trimmed = value.trim();
+	const match = /^(GS[12])\.(\d+)\.(.+)$/.exec(trimmed);
+	if (!match) throw new GA4CookieError(`Expected GS1.<n>.<fields> or GS2.<n>.<fields>, got "${value}"`, '_ga_<ID>');
+
+	const [, version, domainLevel, body] = match as unknown as ['', 'GS1' | 'GS2', string, string];
+	const fields: Record<string, string> = {};
+
+	if (version === 'GS1') {
+		for (const [i, part] of body.split('.').entries()) fields[GS1_FIELDS[i] ?? String(i)] = part;
+	} else {
+		for (const part of body.split('$')) {
+			if (!/^[a-z]./.test(part)) throw new GA4CookieError(`Malformed GS2 field "${part}"`, '_ga_<ID>');
+			fields[part[0] as string] = part.slice(1);
+		}
+	}
+
+	const { s, o, g, t, ...extra } = fields;
+	if (!s || !/^\d{9,10}$/.test(s)) throw new GA4CookieError(`Invalid session_id in "${value}"`, '_ga_<ID>');
+	if (!o || !/^\d+$/.test(o) || o === '0') throw new GA4CookieError(`Invalid session_number in "${value}"`, '_ga_<ID>');
+	if (g !== '0' && g !== '1') throw new GA4CookieError(`Invalid engagement flag in "${value}"`, '_ga_<ID>');
+	if (!t || !/^\d{9,10}$/.test(t)) throw new GA4CookieError(`Invalid last activity time in "${value}"`, '_ga_<ID>');
+
+	return {
+		version,
+		domainLevel: Number(domainLevel),
+		session_id: s,
+		session_number: Number(o),
+		engaged: g === '1',
+		lastActivityAt: Number(t) * 1000,
+		extra,
+	};
+}
+
+/**
+ * Format a `_ga_<ID>` cookie value for a session, in the GS2 format by default.
+ * @example
+ * const { session } = await sessions.touch(clientId);
+ * res.setHeader('Set-Cookie', `${sessionCookieName('G-ABC123')}=${formatSessionCookie(session)}; Path=/; Max-Age=63072000`);
+ */
+export function formatSessionCookie(
+	session: Pick<GA4Session, 'session_id' | 'session_number' | 'lastActivityAt'> & {
+		engaged?: boolean;
+		extra?: Record<string, string>;
+	},
+	options: { version?: 'GS1' | 'GS2'; domainLevel?: number } = {},
+): string {
+	const { version = 'GS2', domainLevel = 1 } = options;
+	if (!/^\d{9,10}$/.test(session.session_id)) {
+		throw new GA4CookieError(`session_id must be Unix seconds, got "${session.session_id}"`, '_ga_<ID>');
+	}
+
+	const fields: Record<string, string> = {
+		j: '0',
+		l: '0',
+		h: '0',
+		...session.extra,
+		s: session.session_id,
+		o: String(session.session_number),
+		g: session.engaged ? '1' : '0',
+		t: String(Math.floor(session.lastActivityAt / 1000)),
+	};
+
+	if (version === 'GS1') return `GS1.${domainLevel}.${GS1_FIELDS.map((key) => fields[key]).join('.')}`;
+
+	const order = [...GS1_FIELDS, ...Object.keys(fields).filter((key) => !GS1_FIELDS.includes(key as 's'))];
+	return `GS2.${domainLevel}.${order.map((key) => `${key}${fields[key]}`).join('$')}`;
+}
@@ -0,0 +1,57 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, it } from 'node:test';
+import { GA4MemoryDeadLetterSink, toDeadLetters } from './deadletter.js';
+import { GA4Error, GA4ErrorCode } from './errors.js';
+import { GA4FileDeadLetterSink } from './storage.js';
+
+describe('dead letters', () => {
+	const error = new GA4Error(GA4ErrorCode.Client, 'Client error 400', 400, 'Bad request');
+	const letters = toDeadLetters(
+		[
+			{ client_id: 'a', events: [{ name: 'e1' }] },
+			{ client_id: 'b', events: [{ name: 'e2' }] },
+		],
+		error,
+		() => ({ count: 3, firstAttemptAt: 1000 }),
+	);
+
+	describe('toDeadLetters', () => {
+		it('should serialize the error and attempts', () => {
+			assert.equal(letters.length, 2);
+			assert.deepEqual(letters[0]?.error, error.toJSON());
+			assert.equal(letters[0]?.attempts, 3);
+			assert.equal(letters[0]?.firstAttemptAt, 1000);
+			assert.notEqual(letters[0]?.id, letters[1]?.id);
+		});
+	});
+
+	describe('GA4MemoryDeadLetterSink', () => {
+		it('should evict the oldest letters beyond maxSize', async () => {
+			const sink = new GA4MemoryDeadLetterSink({ maxSize: 1 });
+			await sink.write(letters);
+			assert.deepEqual(await sink.read(), [letters[1]]);
+		});
+	});
+
+	describe('GA4FileDeadLetterSink', () => {
+		it('should write, read and remove letters', async () => {
+			const dir = await mkdtemp(join(tmpdir(), 'ga4-dlq-'));
+			try {
+				const sink = new GA4FileDeadLetterSink({ path: join(dir, 'nested', 'dead.jsonl') });
+				assert.deepEqual(await sink.read(), []);
+
+				await sink.write(letters);
+				const stored = JSON.parse(JSON.stringify(letters));
+				assert.deepEqual(await sink.read(), stored);
+
+				await sink.remove([letters[0]?.id as string]);
+				assert.deepEqual(await sink.read(), [stored[1]]);
+			} finally {
+				await rm(dir, { recursive: true, force: true });
+			}
+		});
+	});
+});
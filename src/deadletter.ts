@@ -0,0 +1,59 @@
+/**
+ * GA4 Dead Letters - sinks for payloads that failed permanently.
+ */
+
+import { GA4Error } from './errors.js';
+import { GA4, type GA4DeadLetter, type GA4DeadLetterSink, type GA4Event } from './types.js';
+
+/** Build dead letters for payloads that failed with `error`. */
+export function toDeadLetters(
+	events: GA4Event[],
+	error: unknown,
+	attempts: (event: GA4Event) => { count: number; firstAttemptAt: number },
+): GA4DeadLetter[] {
+	const failedAt = Date.now();
+	const serialized =
+		error instanceof GA4Error
+			? error.toJSON()
+			: error instanceof Error
+				? { name: error.name, message: error.message }
+				: { name: 'Error', message: String(error) };
+
+	return events.map((event) => {
+		const { count, firstAttemptAt } = attempts(event);
+		return { id: crypto.randomUUID(), event, error: serialized, attempts: count, firstAttemptAt, failedAt };
+	});
+}
+
+/**
+ * In-memory dead letters, oldest evicted beyond `maxSize`.
+ * @example
+ * const deadLetter = new GA4MemoryDeadLetterSink({ maxSize: 500 });
+ */
+export class GA4MemoryDeadLetterSink implements GA4DeadLetterSink {
+	private readonly maxSize: number;
+	private letters: GA4DeadLetter[] = [];
+
+	constructor(options: { maxSize?: number } = {}) {
+		this.maxSize = options.maxSize ?? GA4.MAX_DEAD_LETTERS;
+	}
+
+	async write(letters: GA4DeadLetter[]): Promise<void> {
+		this.letters.push(...letters);
+		if (this.letters.length > this.maxSize) this.letters.splice(0, this.letters.length - this.maxSize);
+	}
+
+	async read(): Promise<GA4DeadLetter[]> {
+		return [...this.letters];
+	}
+
+	async remove(ids: string[]): Promise<void> {
+		const removed = new Set(ids);
+		this.letters = this.letters.filter((l) => !removed.has(l.id));
+	}
+
+	/** Number of stored dead letters. */
+	get size(): number {
+		return this.letters.length;
+	}
+}
@@ -0,0 +1,171 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it, mock } from 'node:test';
+import { GA4BatchHandler } from './batch.js';
+import { GA4Client } from './client.js';
+import { GA4MemoryDedupStore } from './dedup.js';
+import { GA4Error, GA4ErrorCode } from './errors.js';
+import { GA4RecordingTransport } from './testing.js';
+
+describe('dedup', () => {
+	const defaultOptions = { measurementId: 'G-TEST123', apiSecret: 'test-secret' };
+	const retry = { maxRetries: 2, initialDelayMs: 1, maxDelayMs: 5 };
+	const purchase = (transaction_id: string) => ({ name: 'purchase', params: { transaction_id, value: 10 } });
+
+	afterEach(() => {
+		mock.timers.reset();
+	});
+
+	describe('GA4MemoryDedupStore', () => {
+		it('should reject keys until they expire', async () => {
+			mock.timers.enable({ apis: ['Date'], now: 0 });
+			const store = new GA4MemoryDedupStore();
+
+			assert.equal(await store.add('k', 1000), true);
+			assert.equal(await store.add('k', 2000), false);
+			mock.timers.tick(1000);
+			assert.equal(await store.add('k', 3000), true);
+			await store.delete('k');
+			assert.equal(store.size, 0);
+		});
+
+		it('should evict the oldest key beyond maxSize', async () => {
+			const store = new GA4MemoryDedupStore({ maxSize: 2 });
+			const expiresAt = Date.now() + 60_000;
+			await store.add('a', expiresAt);
+			await store.add('b', expiresAt);
+			await store.add('c', expiresAt);
+
+			assert.equal(store.size, 2);
+			assert.equal(await store.add('a', expiresAt), true);
+			assert.equal(await store.add('c', expiresAt), false);
+		});
+	});
+
+	describe('GA4Client', () => {
+		it('should drop purchases whose transaction_id was already sent', async () => {
+			const transport = new GA4RecordingTransport();
+			const onDuplicate = mock.fn();
+			const client = new GA4Client({ ...defaultOptions, transport, dedup: { onDuplicate } });
+
+			await client.send({ client_id: 'c1', events: [purchase('T-1')] });
+			await client.sendBatch([{ client_id: 'c1', events: [purchase('T-1'), purchase('T-2'), { name: 'login' }] }]);
+			await client.send({ client_id: 'c1', events: [purchase('T-1')] });
+
+			assert.equal(transport.requests.length, 2);
+			assert.deepEqual(
+				transport.events().map((e) => e.params?.transaction_id ?? e.name),
+				['T-1', 'T-2', 'login'],
+			);
+			assert.equal(client.duplicates, 2);
+			assert.deepEqual(onDuplicate.mock.calls[0]?.arguments[0], [purchase('T-1')]);
+		});
+
+		it('should use caller-supplied keys and share a store across restarts', async () => {
+			const transport = new GA4RecordingTransport();
+			const store = new GA4MemoryDedupStore();
+			const dedup = { store, key: (item: { params?: Record<string, unknown> }) => item.params?.event_id as string };
+			const event = { client_id: 'c1', events: [{ name: 'sign_up', params: { event_id: 'e-1' } }] };
+
+			await new GA4Client({ ...defaultOptions, transport, dedup }).send(event);
+			await new GA4Client({ ...defaultOptions, transport, dedup }).send(event);
+			await new GA4Client({ ...defaultOptions, measurementId: 'G-OTHER', transport, dedup }).send(event);
+
+			assert.equal(transport.requests.length, 2);
+		});
+
+		it('should allow a resend after the request was rejected', async () => {
+			const transport = new GA4RecordingTransport().failNext({ type: 'client-error' });
+			const client = new GA4Client({ ...defaultOptions, transport, dedup: true });
+
+			await assert.rejects(client.send({ client_id: 'c1', events: [purchase('T-1')] }), GA4Error);
+			await client.send({ client_id: 'c1', events: [purchase('T-1')] });
+
+			assert.equal(transport.events('purchase').length, 1);
+			assert.equal(client.duplicates, 0);
+		});
+
+		it('should not resend keyed events after a timeout', async () => {
+			const transport = new GA4RecordingTransport().failNext({ type: 'timeout' });
+			const client = new GA4Client({ ...defaultOptions, transport, timeoutMs: 10, dedup: true });
+
+			await client.sendWithRetry([{ client_id: 'c1', events: [purchase('T-1'), { name: 'login' }] }], retry);
+			await client.sendWithRetry([{ client_id: 'c1', events: [purchase('T-1')] }], retry);
+
+			assert.deepEqual(
+				transport.requests.map((r) => (r.body as { events: Array<{ name: string }> }).events.map((e) => e.name)),
+				[['purchase', 'login'], ['login']],
+			);
+			assert.equal(client.duplicates, 1);
+		});
+
+		it('should deliver keyed events when an attempt could not connect', async () => {
+			const transport = new GA4RecordingTransport();
+			let refusals = 0;
+			const fetch: typeof globalThis.fetch = async (input, init) => {
+				if (refusals-- > 0) {
+					const cause = Object.assign(new Error('connect ECONNREFUSED 127.0.0.1:443'), { code: 'ECONNREFUSED' });
+					throw new TypeError('fetch failed', { cause });
+				}
+				return transport.fetch(input, init);
+			};
+			const client = new GA4Client({ ...defaultOptions, fetch, dedup: true });
+			const event = { client_id: 'c1', events: [purchase('T-1')] };
+
+			refusals = 1;
+			await client.sendWithRetry([event], retry);
+			assert.equal(transport.events('purchase').length, 1);
+
+			refusals = 3;
+			await assert.rejects(
+				client.sendWithRetry([{ ...event, events: [purchase('T-2')] }], retry),
+				(error: GA4Error) => error.code === GA4ErrorCode.Connection,
+			);
+			refusals = 1;
+			await client.sendWithRetry([{ ...event, events: [purchase('T-2')] }], retry);
+
+			assert.deepEqual(
+				transport.events('purchase').map((e) => e.params?.transaction_id),
+				['T-1', 'T-2'],
+			);
+			assert.equal(client.duplicates, 0);
+		});
+
+		it('should leave keyed events out of retries after a server error', async () => {
+			const transport = new GA4RecordingTransport().failNext({ type: 'server-error' });
+			const client = new GA4Client({ ...defaultOptions, transport, dedup: true });
+
+			await client.sendWithRetry([{ client_id: 'c1', events: [purchase('T-1'), { name: 'login' }] }], retry);
+			transport.failNext({ type: 'server-error' });
+			await assert.rejects(client.sendWithRetry([{ client_id: 'c1', events: [purchase('T-2')] }], retry), GA4Error);
+
+			assert.deepEqual(
+				transport.requests.map((r) => (r.body as { events: Array<{ name: string }> }).events.map((e) => e.name)),
+				[['purchase', 'login'], ['login'], ['purchase']],
+			);
+		});
+	});
+
+	describe('GA4BatchHandler', () => {
+		it('should drop events whose key is already queued and report them', async () => {
+			const transport = new GA4RecordingTransport();
+			const onDrop = mock.fn();
+			const client = new GA4Client({ ...defaultOptions, transport, dedup: true });
+			const batch = new GA4BatchHandler(client, { onDrop });
+
+			await batch.add({ client_id: 'c1', events: [purchase('T-1')] });
+			await batch.add({ client_id: 'c1', events: [purchase('T-1'), purchase('T-2')] });
+			await batch.add({ client_id: 'c2', events: [purchase('T-2')] });
+
+			assert.equal(batch.size, 2);
+			assert.equal(batch.duplicates, 2);
+			assert.equal(onDrop.mock.calls[0]?.arguments[1].reason, 'duplicate');
+
+			await batch.flush();
+			await batch.add({ client_id: 'c1', events: [purchase('T-1')] });
+			await batch.flush();
+
+			assert.equal(transport.events('purchase').length, 2);
+			assert.equal(client.duplicates, 1);
+		});
+	});
+});
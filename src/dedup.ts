@@ -0,0 +1,130 @@
+/**
+ * GA4 Deduplication - drops events whose idempotency key was already sent, across retries and restarts.
+ */
+
+import { GA4Error, GA4ErrorCode } from './errors.js';
+import { GA4, type GA4DedupOptions, type GA4DedupStore, type GA4Event, type GA4EventItem } from './types.js';
+
+const WINDOW_MS = GA4.MAX_BACKDATE_HOURS * 60 * 60 * 1000;
+
+/**
+ * In-memory seen-set that evicts the least recently added key beyond `maxSize`.
+ * Keys only survive as long as the process; use a shared store to deduplicate across restarts.
+ * @example
+ * const client = new GA4Client({ measurementId, apiSecret, dedup: { store: new GA4MemoryDedupStore({ maxSize: 50_000 }) } });
+ */
+export class GA4MemoryDedupStore implements GA4DedupStore {
+	private readonly maxSize: number;
+	private readonly keys = new Map<string, number>();
+
+	constructor(options: { maxSize?: number } = {}) {
+		this.maxSize = options.maxSize ?? GA4.MAX_DEDUP_KEYS;
+	}
+
+	async add(key: string, expiresAt: number): Promise<boolean> {
+		const existing = this.keys.get(key);
+		if (existing !== undefined && existing > Date.now()) return false;
+
+		this.keys.delete(key);
+		this.keys.set(key, expiresAt);
+		if (this.keys.size > this.maxSize) {
+			const oldest = this.keys.keys().next().value as string;
+			this.keys.delete(oldest);
+		}
+		return true;
+	}
+
+	async delete(key: string): Promise<void> {
+		this.keys.delete(key);
+	}
+
+	/** Number of stored keys, including expired ones not yet evicted. */
+	get size(): number {
+		return this.keys.size;
+	}
+}
+
+/** Default idempotency key: event name and transaction ID, for events that carry one (purchase, refund, ...). */
+export function transactionKey(item: GA4EventItem): string | undefined {
+	const id = item.params?.transaction_id;
+	return typeof id === 'string' || typeof id === 'number' ? `${item.name}:${id}` : undefined;
+}
+
+/** Keys claimed for one payload and the payload left after dropping duplicates. */
+export interface DedupClaim {
+	/** Undefined when every event was a duplicate. */
+	payload?: GA4Event;
+	keys: string[];
+	duplicates: GA4EventItem[];
+}
+
+/** GA4Client's dedup state: key derivation, claims against the store and the duplicate count. */
+export class Deduplicator {
+	private readonly keyOf: (item: GA4EventItem, event: GA4Event) => string | undefined;
+	private readonly windowMs: number;
+	private readonly store: GA4DedupStore;
+	private readonly onDuplicate?: (items: GA4EventItem[], event: GA4Event) => void;
+	/** Prefix that keeps keys of different streams apart in a shared store. */
+	private readonly namespace: string;
+	duplicates = 0;
+
+	constructor(options: GA4DedupOptions, namespace: string) {
+		this.keyOf = options.key ?? transactionKey;
+		this.windowMs = options.windowMs ?? WINDOW_MS;
+		this.store = options.store ?? new GA4MemoryDedupStore();
+		this.onDuplicate = options.onDuplicate;
+		this.namespace = namespace;
+	}
+
+	key(item: GA4EventItem, event: GA4Event): string | undefined {
+		return this.keyOf(item, event);
+	}
+
+	/**
+	 * Record the key of every keyed event in `payload`; events whose key was already recorded are removed.
+	 * The returned keys must be released if the payload is definitely not delivered.
+	 */
+	async claim(payload: GA4Event): Promise<DedupClaim> {
+		const expiresAt = Date.now() + this.windowMs;
+		const kept: GA4EventItem[] = [];
+		const duplicates: GA4EventItem[] = [];
+		const keys: string[] = [];
+
+		for (const item of payload.events) {
+			const key = this.key(item, payload);
+			if (key === undefined) kept.push(item);
+			else if (await this.store.add(`${this.namespace}:${key}`, expiresAt)) {
+				kept.push(item);
+				keys.push(key);
+			} else duplicates.push(item);
+		}
+
+		if (!duplicates.length) return { payload, keys, duplicates };
+		this.duplicates += duplicates.length;
+		this.onDuplicate?.(duplicates, payload);
+		return { payload: kept.length ? { ...payload, events: kept } : undefined, keys, duplicates };
+	}
+
+	async release(keys: string[]): Promise<void> {
+		for (const key of keys) await this.store.delete(`${this.namespace}:${key}`);
+	}
+
+	/** Remove the events claimed under `keys` from `payload`, e.g. before retrying a request that may have arrived. */
+	withoutClaimed(payload: GA4Event, keys: string[]): GA4Event | undefined {
+		const claimed = new Set(keys);
+		const events = payload.events.filter((item) => {
+			const key = this.key(item, payload);
+			return key === undefined || !claimed.has(key);
+		});
+		return events.length ? { ...payload, events } : undefined;
+	}
+}
+
+/**
+ * Whether a failed request may still have reached GA4: network errors after connecting, timeouts and 5xx
+ * responses. Requests that got a 4xx response, or were never sent (`GA4ErrorCode.Connection`, an open
+ * circuit or a rate limiter rejection), were not delivered.
+ */
+export function mayHaveArrived(error: unknown): boolean {
+	return !(error instanceof GA4Error) || error.code === GA4ErrorCode.Request || error.code === GA4ErrorCode.Server;
+}
@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it, mock } from 'node:test';
+import { GA4BatchHandler } from './batch.js';
+import { GA4Client } from './client.js';
+import { flushWithWaitUntil, ga4EdgeHandler } from './edge.js';
+
+describe('edge', () => {
+	let mockFetch: ReturnType<typeof mock.fn>;
+	let batch: GA4BatchHandler;
+
+	beforeEach(() => {
+		mockFetch = mock.fn(async () => ({ ok: true, status: 204 }));
+		const client = new GA4Client({
+			measurementId: 'G-TEST',
+			apiSecret: 'test-secret',
+			fetch: mockFetch as unknown as typeof fetch,
+		});
+		batch = new GA4BatchHandler(client);
+	});
+
+	const context = () => {
+		const pending: Promise<unknown>[] = [];
+		return { pending, waitUntil: mock.fn((promise: Promise<unknown>) => pending.push(promise)) };
+	};
+
+	describe('flushWithWaitUntil', () => {
+		it('should hand the flush to waitUntil', async () => {
+			const ctx = context();
+			await batch.add({ client_id: 'edge', events: [{ name: 'login' }] });
+
+			flushWithWaitUntil(batch, ctx);
+			await Promise.all(ctx.pending);
+
+			assert.equal(ctx.waitUntil.mock.callCount(), 1);
+			assert.equal(mockFetch.mock.callCount(), 1);
+			assert.equal(batch.size, 0);
+		});
+
+		it('should report flush errors to onError', async () => {
+			mockFetch.mock.mockImplementation(async () => {
+				throw new Error('offline');
+			});
+			const ctx = context();
+			const onError = mock.fn();
+			await batch.add({ client_id: 'edge', events: [{ name: 'login' }] });
+
+			flushWithWaitUntil(batch, ctx, { onError });
+			await Promise.all(ctx.pending);
+
+			assert.equal(onError.mock.callCount(), 1);
+		});
+	});
+
+	describe('ga4EdgeHandler', () => {
+		it('should find the execution context among the handler arguments', async () => {
+			const ctx = context();
+			const handler = ga4EdgeHandler(batch, async (_request: Request, _env: object, _ctx: typeof ctx) => {
+				await batch.add({ client_id: 'edge', events: [{ name: 'api_call' }] });
+				return 'ok';
+			});
+
+			assert.equal(await handler(new Request('https://example.test/'), {}, ctx), 'ok');
+			await Promise.all(ctx.pending);
+
+			assert.equal(ctx.waitUntil.mock.callCount(), 1);
+			assert.equal(mockFetch.mock.callCount(), 1);
+		});
+
+		it('should flush before returning without an execution context', async () => {
+			const handler = ga4EdgeHandler(batch, async () => {
+				await batch.add({ client_id: 'edge', events: [{ name: 'api_call' }] });
+				throw new Error('handler failed');
+			});
+
+			await assert.rejects(handler(), /handler failed/);
+			assert.equal(mockFetch.mock.callCount(), 1);
+		});
+	});
+});
@@ -0,0 +1,58 @@
+/**
+ * GA4 Edge - background flushing for Cloudflare Workers, Vercel Edge and other `waitUntil` runtimes,
+ * where timers do not outlive the request.
+ */
+
+import type { GA4BatchHandler } from './batch.js';
+import type { GA4EdgeOptions, GA4ExecutionContext } from './types.js';
+
+/**
+ * Flush `batch` without delaying the response: the flush is handed to `ctx.waitUntil`, which keeps the
+ * isolate alive until it settles. Payloads added while another flush runs go out with the next one.
+ * @example
+ * await batch.add({ client_id, events: [{ name: 'page_view' }] });
+ * flushWithWaitUntil(batch, ctx);
+ * return new Response('ok');
+ */
+export function flushWithWaitUntil(
+	batch: GA4BatchHandler,
+	ctx: GA4ExecutionContext,
+	options: GA4EdgeOptions = {},
+): void {
+	const { onError } = options;
+	const flush = batch.flush();
+	ctx.waitUntil(onError ? flush.catch(onError) : flush);
+}
+
+/**
+ * Wrap a fetch handler so each invocation ends with `flushWithWaitUntil`. The execution context is the
+ * first argument with a `waitUntil` method (the third for Workers, the second for Vercel Edge); without
+ * one, the batch is flushed before the handler's result is returned.
+ * @example
+ * const batch = new GA4BatchHandler(new GA4Client({ measurementId, apiSecret }));
+ * export default {
+ *   fetch: ga4EdgeHandler(batch, async (request, env, ctx) => {
+ *     await batch.add({ client_id: 'edge', events: [{ name: 'api_call', params: { path: new URL(request.url).pathname } }] });
+ *     return new Response('ok');
+ *   }),
+ * };
+ */
+export function ga4EdgeHandler<A extends unknown[], R>(
+	batch: GA4BatchHandler,
+	handler: (...args: A) => R | Promise<R>,
+	options: GA4EdgeOptions = {},
+): (...args: A) => Promise<R> {
+	return async (...args: A) => {
+		try {
+			return await handler(...args);
+		} finally {
+			const ctx = args.find(isExecutionContext);
+			if (ctx) flushWithWaitUntil(batch, ctx, options);
+			else await batch.flush().catch((error) => options.onError?.(error));
+		}
+	};
+}
+
+function isExecutionContext(value: unknown): value is GA4ExecutionContext {
+	return typeof (value as GA4ExecutionContext | null)?.waitUntil === 'function';
+}
@@ -2,10 +2,15 @@
 
 export const GA4ErrorCode = {
 	Request: 'REQUEST_ERROR',
+	/** The request was never sent: connection refused, DNS failure, proxy CONNECT rejected or sendBeacon refused. */
+	Connection: 'CONNECTION_ERROR',
 	Serialization: 'SERIALIZATION_ERROR',
 	Validation: 'VALIDATION_ERROR',
 	RateLimited: 'RATE_LIMITED',
 	TooManyEvents: 'TOO_MANY_EVENTS',
+	QueueFull: 'QUEUE_FULL',
+	CircuitOpen: 'CIRCUIT_OPEN',
+	InvalidCookie: 'INVALID_COOKIE',
 	Client: 'CLIENT_ERROR',
 	Server: 'SERVER_ERROR',
 	Unknown: 'UNKNOWN_ERROR',
@@ -13,7 +18,13 @@ export const GA4ErrorCode = {
 
 export type GA4ErrorCode = (typeof GA4ErrorCode)[keyof typeof GA4ErrorCode];
 
-const RETRYABLE_CODES = new Set<GA4ErrorCode>([GA4ErrorCode.RateLimited, GA4ErrorCode.Server]);
+const RETRYABLE_CODES = new Set<GA4ErrorCode>([
+	GA4ErrorCode.Request,
+	GA4ErrorCode.Connection,
+	GA4ErrorCode.RateLimited,
+	GA4ErrorCode.Server,
+	GA4ErrorCode.CircuitOpen,
+]);
 
 export class GA4Error extends Error {
 	constructor(
@@ -21,6 +32,7 @@ export class GA4Error extends Error {
 		message: string,
 		readonly statusCode?: number,
 		readonly responseBody?: string,
+		readonly headers?: Record<string, string>,
 	) {
 		super(message);
 		this.name = 'GA4Error';
@@ -31,6 +43,17 @@ export class GA4Error extends Error {
 		return RETRYABLE_CODES.has(this.code);
 	}
 
+	/** Delay requested by the response's Retry-After header (seconds or HTTP date), in ms. */
+	retryAfterMs(): number | undefined {
+		const value = this.headers?.['retry-after'];
+		if (!value) return undefined;
+
+		const seconds = Number(value);
+		if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+		const date = Date.parse(value);
+		return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+	}
+
 	toJSON() {
 		return {
 			name: this.name,
@@ -38,6 +61,39 @@ export class GA4Error extends Error {
 			message: this.message,
 			statusCode: this.statusCode,
 			responseBody: this.responseBody,
+			headers: this.headers,
 		};
 	}
 }
+
+/** Client-side validation failure pointing at the offending field (e.g., "events[0].params.value"). */
+export class GA4ValidationError extends GA4Error {
+	constructor(
+		message: string,
+		readonly fieldPath: string,
+	) {
+		super(GA4ErrorCode.Validation, `${fieldPath}: ${message}`);
+		this.name = 'GA4ValidationError';
+		Object.setPrototypeOf(this, GA4ValidationError.prototype);
+	}
+
+	override toJSON() {
+		return { ...super.toJSON(), fieldPath: this.fieldPath };
+	}
+}
+
+/** Malformed `_ga` or `_ga_<ID>` cookie value. */
+export class GA4CookieError extends GA4Error {
+	constructor(
+		message: string,
+		readonly cookie: '_ga' | '_ga_<ID>',
+	) {
+		super(GA4ErrorCode.InvalidCookie, `${cookie}: ${message}`);
+		this.name = 'GA4CookieError';
+		Object.setPrototypeOf(this, GA4CookieError.prototype);
+	}
+
+	override toJSON() {
+		return { ...super.toJSON(), cookie: this.cookie };
+	}
+}
@@ -0,0 +1,64 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { contextKey, groupByIdentity, mergePayloads } from './grouping.js';
+
+describe('grouping', () => {
+	describe('groupByIdentity', () => {
+		it('should group payloads by client_id and user_id', () => {
+			const a1 = { client_id: 'a', events: [{ name: 'e1' }] };
+			const b1 = { client_id: 'a', user_id: 'u', events: [{ name: 'e2' }] };
+			const a2 = { client_id: 'a', events: [{ name: 'e3' }] };
+			assert.deepEqual(groupByIdentity([a1, b1, a2]), [[a1, a2], [b1]]);
+		});
+
+		it('should keep payloads with different request fields apart', () => {
+			const a1 = { client_id: 'a', consent: { ad_user_data: 'GRANTED' as const }, events: [{ name: 'e1' }] };
+			const a2 = { client_id: 'a', consent: { ad_user_data: 'DENIED' as const }, events: [{ name: 'e2' }] };
+			const a3 = { client_id: 'a', consent: { ad_user_data: 'GRANTED' as const }, events: [{ name: 'e3' }] };
+			assert.deepEqual(groupByIdentity([a1, a2, a3]), [[a1, a3], [a2]]);
+		});
+
+		it('should split groups at the event limit', () => {
+			const event = { client_id: 'a', events: Array.from({ length: 10 }, () => ({ name: 'e' })) };
+			const groups = groupByIdentity([event, event, event]);
+			assert.deepEqual(
+				groups.map((g) => g.length),
+				[2, 1],
+			);
+		});
+	});
+
+	describe('mergePayloads', () => {
+		it('should move timestamps onto events and combine user properties', () => {
+			const merged = mergePayloads([
+				{ client_id: 'a', timestamp_micros: 1, user_properties: { plan: { value: 'free' } }, events: [{ name: 'e1' }] },
+				{ client_id: 'a', user_properties: { plan: { value: 'pro' } }, events: [{ name: 'e2' }] },
+			]);
+			assert.deepEqual(merged, {
+				client_id: 'a',
+				user_id: undefined,
+				user_properties: { plan: { value: 'pro' } },
+				events: [{ name: 'e1', timestamp_micros: 1 }, { name: 'e2' }],
+			});
+		});
+
+		it('should keep request fields', () => {
+			const context = { consent: { ad_user_data: 'GRANTED' as const }, ip_override: '203.0.113.7' };
+			const merged = mergePayloads([
+				{ client_id: 'a', ...context, events: [{ name: 'e1' }] },
+				{ client_id: 'a', ...context, events: [{ name: 'e2' }] },
+			]);
+			assert.deepEqual(merged.consent, context.consent);
+			assert.equal(merged.ip_override, context.ip_override);
+		});
+	});
+
+	describe('contextKey', () => {
+		it('should ignore key order', () => {
+			assert.equal(
+				contextKey({ client_id: 'a', device: { brand: 'x', model: 'y' }, events: [] }),
+				contextKey({ client_id: 'b', device: { model: 'y', brand: 'x' }, events: [] }),
+			);
+		});
+	});
+});
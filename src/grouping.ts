@@ -0,0 +1,107 @@
+/**
+ * GA4 Payload Grouping - splits queued payloads into per-identity requests.
+ */
+
+import { GA4Error, GA4ErrorCode } from './errors.js';
+import { GA4, type GA4Event } from './types.js';
+
+/** Key identifying the user a payload belongs to (client_id or app_instance_id, plus user_id). */
+export function identityKey(event: GA4Event): string {
+	return JSON.stringify([event.client_id ?? null, event.app_instance_id ?? null, event.user_id ?? null]);
+}
+
+/** Request-level fields that apply to every event in a request. */
+const REQUEST_FIELDS = [
+	'consent',
+	'non_personalized_ads',
+	'user_data',
+	'user_location',
+	'device',
+	'ip_override',
+] as const;
+
+/**
+ * Key identifying the request-level fields of a payload (consent, user_data, user_location, device,
+ * ip_override, non_personalized_ads). Payloads can only share a request when their keys match.
+ */
+export function contextKey(event: GA4Event): string {
+	return stableStringify(REQUEST_FIELDS.map((field) => event[field] ?? null));
+}
+
+/**
+ * Group payloads by identity and split each group into requests of at most `maxEvents` events.
+ * Payloads of one identity with different request-level fields (e.g., consent) are grouped separately.
+ * Payload order is preserved within a group; a payload is never split across requests.
+ * @example
+ * const requests = groupByIdentity(queue); // [[a1, a2], [b1], ...]
+ */
+export function groupByIdentity<T extends GA4Event>(events: T[], maxEvents: number = GA4.MAX_EVENTS): T[][] {
+	const groups = new Map<string, T[][]>();
+
+	for (const event of events) {
+		const key = identityKey(event) + contextKey(event);
+		const chunks = groups.get(key) ?? [];
+		const last = chunks.at(-1);
+		const size = last?.reduce((n, e) => n + e.events.length, 0) ?? 0;
+
+		if (last && size + event.events.length <= maxEvents) last.push(event);
+		else chunks.push([event]);
+		groups.set(key, chunks);
+	}
+
+	return [...groups.values()].flat();
+}
+
+/** Split a payload with more than `maxEvents` events into several payloads with the same identity. */
+export function splitPayload<T extends GA4Event>(event: T, maxEvents: number = GA4.MAX_EVENTS): T[] {
+	if (event.events.length <= maxEvents) return [event];
+
+	const parts: T[] = [];
+	for (let i = 0; i < event.events.length; i += maxEvents) {
+		parts.push({ ...event, events: event.events.slice(i, i + maxEvents) });
+	}
+	return parts;
+}
+
+/**
+ * Merge payloads sharing one identity into a single request.
+ * Request-level timestamps move onto their events and user properties are combined (later payloads win).
+ * Other request-level fields are taken from the first payload; callers must check `contextKey` matches.
+ */
+export function mergePayloads(events: GA4Event[]): GA4Event {
+	const [first, ...rest] = events;
+	if (!first) throw new GA4Error(GA4ErrorCode.Validation, 'No events to merge');
+	if (!rest.length) return first;
+
+	const user_properties = events.some((e) => e.user_properties)
+		? Object.assign({}, ...events.map((e) => e.user_properties))
+		: undefined;
+
+	const context = Object.fromEntries(
+		REQUEST_FIELDS.filter((field) => first[field] !== undefined).map((field) => [field, first[field]]),
+	);
+
+	const identity =
+		first.app_instance_id === undefined ? { client_id: first.client_id } : { app_instance_id: first.app_instance_id };
+
+	return {
+		...identity,
+		user_id: first.user_id,
+		user_properties,
+		...context,
+		events: events.flatMap((e) =>
+			e.timestamp_micros === undefined
+				? e.events
+				: e.events.map((item) => ({ timestamp_micros: e.timestamp_micros, ...item })),
+		),
+	};
+}
+
+/** JSON with object keys sorted, so equal objects produce equal strings regardless of key order. */
+function stableStringify(value: unknown): string {
+	return JSON.stringify(value, (_, v: unknown) =>
+		v && typeof v === 'object' && !Array.isArray(v)
+			? Object.fromEntries(Object.entries(v).sort(([a], [b]) => (a < b ? -1 : 1)))
+			: v,
+	);
+}
@@ -0,0 +1,128 @@
+import assert from 'node:assert/strict';
+import { type Server, createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, describe, it, mock } from 'node:test';
+import { GA4BatchHandler } from './batch.js';
+import { GA4Client } from './client.js';
+import { type GA4HttpOptions, ga4Middleware } from './http.js';
+
+describe('ga4Middleware', () => {
+	let server: Server | undefined;
+
+	afterEach(() => {
+		server?.close();
+		server = undefined;
+	});
+
+	async function setup(options: GA4HttpOptions = {}, handle?: Parameters<typeof createServer>[1]) {
+		const mockFetch = mock.fn(async () => ({ ok: true, status: 204 }));
+		const client = new GA4Client({ measurementId: 'G-TEST', apiSecret: 'secret', fetch: mockFetch as never });
+		const batch = new GA4BatchHandler(client);
+		const add = mock.method(batch, 'add');
+		const middleware = ga4Middleware(batch, options);
+
+		server = createServer((req, res) => middleware(req, res, () => (handle ? handle(req, res) : res.end('ok'))));
+		await new Promise<void>((resolve) => server?.listen(0, '127.0.0.1', resolve));
+		const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+		return { url, batch, add };
+	}
+
+	const settle = () => new Promise((r) => setTimeout(r, 20));
+
+	it('should mint a client_id and set the _ga cookie for new visitors', async () => {
+		const { url, batch } = await setup({ pageView: true });
+		const response = await fetch(`${url}/pricing?plan=pro`);
+		await response.text();
+		await settle();
+
+		const cookie = response.headers.get('set-cookie') ?? '';
+		assert.match(cookie, /^_ga=GA1\.1\.\d+\.\d+; Path=\/; Max-Age=63072000; SameSite=Lax$/);
+		assert.equal(batch.size, 1);
+	});
+
+	it('should reuse the _ga cookie and read session_id from _ga_<ID>', async () => {
+		const { url, add } = await setup({ pageView: true, measurementId: 'G-TEST', userId: () => 'u-1' });
+		const response = await fetch(`${url}/docs`, {
+			headers: {
+				cookie: '_ga=GA1.1.1234567890.1702934567; _ga_TEST=GS2.1.s1702934567$o3$g1$t1702935000$j0$l0$h0',
+				referer: 'https://example.com/',
+			},
+		});
+		await response.text();
+		await settle();
+
+		assert.equal(response.headers.get('set-cookie'), null);
+		assert.deepEqual(add.mock.calls[0]?.arguments[0], {
+			client_id: '1234567890.1702934567',
+			user_id: 'u-1',
+			events: [
+				{
+					name: 'page_view',
+					params: {
+						page_location: `${url}/docs`,
+						session_id: '1702934567',
+						engagement_time_msec: 1,
+						page_referrer: 'https://example.com/',
+					},
+				},
+			],
+		});
+	});
+
+	it('should queue tracked events after the response', async () => {
+		const { url, add } = await setup({}, (req, res) => {
+			req.ga4?.track('sign_up', { method: 'email' });
+			if (req.ga4) req.ga4.user_id = 'u-2';
+			assert.equal(add.mock.callCount(), 0);
+			res.end('ok');
+		});
+		await (await fetch(`${url}/signup`, { headers: { cookie: '_ga=garbage' } })).text();
+		await settle();
+
+		const payload = add.mock.calls[0]?.arguments[0];
+		assert.equal(payload?.user_id, 'u-2');
+		assert.deepEqual(
+			payload?.events.map((e) => [e.name, e.params?.method]),
+			[['sign_up', 'email']],
+		);
+	});
+
+	it('should skip page_view for error responses', async () => {
+		const { url, add } = await setup({ pageView: true }, (_req, res) => {
+			res.statusCode = 404;
+			res.end();
+		});
+		await (await fetch(`${url}/missing`)).text();
+		await settle();
+		assert.equal(add.mock.callCount(), 0);
+	});
+
+	it('should only trust forwarded headers with trustProxy', async () => {
+		const headers = { 'x-forwarded-host': 'evil.example', 'x-forwarded-proto': 'https' };
+		const direct = await setup({ pageView: true });
+		const response = await fetch(`${direct.url}/a`, { headers });
+		await response.text();
+		await settle();
+
+		assert.equal(direct.add.mock.calls[0]?.arguments[0].events[0]?.params?.page_location, `${direct.url}/a`);
+		assert.doesNotMatch(response.headers.get('set-cookie') ?? '', /Secure/);
+		server?.close();
+
+		const proxied = await setup({ pageView: true, trustProxy: true });
+		const forwarded = await fetch(`${proxied.url}/a`, { headers });
+		await forwarded.text();
+		await settle();
+
+		assert.equal(proxied.add.mock.calls[0]?.arguments[0].events[0]?.params?.page_location, 'https://evil.example/a');
+		assert.match(forwarded.headers.get('set-cookie') ?? '', /; Secure$/);
+	});
+
+	it('should use the first host of a comma-separated X-Forwarded-Host', async () => {
+		const { url, add } = await setup({ pageView: true, trustProxy: true });
+		const headers = { 'x-forwarded-host': 'a.example, proxy.internal', 'x-forwarded-proto': 'https, http' };
+		await (await fetch(`${url}/a`, { headers })).text();
+		await settle();
+
+		assert.equal(add.mock.calls[0]?.arguments[0].events[0]?.params?.page_location, 'https://a.example/a');
+	});
+});
@@ -0,0 +1,245 @@
+/**
+ * GA4 HTTP Middleware - server-side tracking for node:http based frameworks (Express, Fastify, Koa, ...).
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { TLSSocket } from 'node:tls';
+import { GA4BatchHandler } from './batch.js';
+import type { GA4Client } from './client.js';
+import {
+	formatClientCookie,
+	generateCookieClientId,
+	parseClientCookie,
+	parseSessionCookie,
+	sessionCookieName,
+} from './cookies.js';
+import { splitPayload } from './grouping.js';
+import { GA4, type GA4Event, type GA4EventItem, type GA4EventParams } from './types.js';
+
+/** Options for the node:http middleware created by `ga4Middleware`. */
+export interface GA4HttpOptions {
+	/**
+	 * Send a page_view when the response completes: true, or a predicate per request.
+	 * With `true`, only responses with status < 400 are tracked. @default false
+	 */
+	pageView?: boolean | ((req: IncomingMessage, res: ServerResponse) => boolean);
+
+	/** Measurement ID whose `_ga_<ID>` cookie provides session_id for the request's events. */
+	measurementId?: string;
+
+	/** Resolve the user_id for a request (e.g., from its auth session). */
+	userId?: (req: IncomingMessage) => string | undefined;
+
+	/** Attributes of the `_ga` cookie set for new visitors. */
+	cookie?: {
+		domain?: string;
+		/** @default 63072000 (2 years, like gtag.js) */
+		maxAgeSeconds?: number;
+		/** @default true when the request arrived over HTTPS */
+		secure?: boolean;
+	};
+
+	/**
+	 * Read the host and protocol of `page_location` (and whether the `_ga` cookie is Secure) from the
+	 * X-Forwarded-Host and X-Forwarded-Proto headers. Enable only behind a reverse proxy that sets them;
+	 * otherwise any client can spoof them. @default false
+	 */
+	trustProxy?: boolean;
+
+	/** Callback when events cannot be queued or sent. Errors are otherwise ignored so tracking never fails a request. */
+	onError?: (error: Error, event: GA4Event) => void;
+}
+
+declare module 'node:http' {
+	interface IncomingMessage {
+		/** Request-scoped GA4 tracker attached by `ga4Middleware`. */
+		ga4?: GA4RequestTracker;
+	}
+}
+
+/**
+ * Request-scoped tracker. Events are collected while the request is handled and queued
+ * once the response has been sent, so tracking never delays it.
+ */
+export class GA4RequestTracker {
+	/** client_id from the `_ga` cookie, or minted for a new visitor. */
+	readonly client_id: string;
+	/** Whether client_id was minted for this request (and a `_ga` cookie set). */
+	readonly isNewVisitor: boolean;
+	/** session_id from the `_ga_<ID>` cookie, when `measurementId` is configured. */
+	readonly session_id?: string;
+	user_id?: string;
+	page_location: string;
+	page_referrer?: string;
+
+	private readonly events: GA4EventItem[] = [];
+
+	constructor(init: {
+		client_id: string;
+		isNewVisitor: boolean;
+		session_id?: string;
+		user_id?: string;
+		page_location: string;
+		page_referrer?: string;
+	}) {
+		this.client_id = init.client_id;
+		this.isNewVisitor = init.isNewVisitor;
+		this.session_id = init.session_id;
+		this.user_id = init.user_id;
+		this.page_location = init.page_location;
+		this.page_referrer = init.page_referrer;
+	}
+
+	/**
+	 * Track an event; page_location (and session_id, when known) are added unless `params` sets them.
+	 * @example
+	 * req.ga4?.track('sign_up', { method: 'email' });
+	 */
+	track(name: string, params: GA4EventParams = {}): void {
+		this.events.push({ name, params: this.withContext(params) });
+	}
+
+	/** Track a page_view for the current page_location. */
+	pageView(params: GA4EventParams = {}): void {
+		this.track('page_view', { page_referrer: this.page_referrer, ...params });
+	}
+
+	/** Events tracked so far. */
+	get pending(): readonly GA4EventItem[] {
+		return this.events;
+	}
+
+	/** Build the payload for the tracked events and reset the tracker; undefined when nothing was tracked. */
+	takePayload(): GA4Event | undefined {
+		if (!this.events.length) return undefined;
+		const events = this.events.splice(0);
+		return { client_id: this.client_id, ...(this.user_id && { user_id: this.user_id }), events };
+	}
+
+	private withContext(params: GA4EventParams): GA4EventParams {
+		return {
+			page_location: this.page_location,
+			...(this.session_id && { session_id: this.session_id, engagement_time_msec: 1 }),
+			...params,
+		};
+	}
+}
+
+/**
+ * Create node:http middleware that attaches a GA4RequestTracker to `req.ga4`. The client_id comes from the
+ * `_ga` cookie; new visitors get a gtag-compatible client_id and a `_ga` cookie. Tracked events are queued
+ * on the batch handler (or sent with the client) after the response has been sent, without being awaited.
+ * @example
+ * const batch = new GA4BatchHandler(client);
+ * batch.start();
+ * app.use(ga4Middleware(batch, { pageView: true, userId: (req) => req.session?.userId }));
+ * app.post('/signup', (req, res) => { req.ga4?.track('sign_up', { method: 'email' }); ... });
+ */
+export function ga4Middleware(
+	target: GA4Client | GA4BatchHandler,
+	options: GA4HttpOptions = {},
+): (req: IncomingMessage, res: ServerResponse, next?: (error?: unknown) => void) => void {
+	return (req, res, next) => {
+		try {
+			const tracker = createTracker(req, res, options);
+			req.ga4 = tracker;
+			res.once('close', () => {
+				const pageView =
+					typeof options.pageView === 'function'
+						? options.pageView(req, res)
+						: options.pageView === true && res.statusCode < 400;
+				if (pageView) tracker.pageView();
+				dispatch(target, tracker, options);
+			});
+		} catch (error) {
+			next?.(error);
+			return;
+		}
+		next?.();
+	};
+}
+
+function createTracker(req: IncomingMessage, res: ServerResponse, options: GA4HttpOptions): GA4RequestTracker {
+	const cookies = parseCookies(req.headers.cookie);
+	const trustProxy = options.trustProxy ?? false;
+	const secure = isSecure(req, trustProxy);
+
+	let client_id = readCookie(cookies._ga, (value) => parseClientCookie(value).client_id);
+	const isNewVisitor = client_id === undefined;
+	if (client_id === undefined) {
+		client_id = generateCookieClientId();
+		res.appendHeader('Set-Cookie', clientCookie(client_id, secure, options.cookie));
+	}
+
+	const sessionCookie = options.measurementId && cookies[sessionCookieName(options.measurementId)];
+	const session_id = readCookie(sessionCookie || undefined, (value) => parseSessionCookie(value).session_id);
+
+	const host = (trustProxy && firstValue(req.headers['x-forwarded-host'])) || req.headers.host || 'localhost';
+	const referrer = req.headers.referer;
+
+	return new GA4RequestTracker({
+		client_id,
+		isNewVisitor,
+		session_id,
+		user_id: options.userId?.(req),
+		page_location: `${secure ? 'https' : 'http'}://${host}${req.url ?? '/'}`,
+		page_referrer: typeof referrer === 'string' ? referrer : undefined,
+	});
+}
+
+function dispatch(target: GA4Client | GA4BatchHandler, tracker: GA4RequestTracker, options: GA4HttpOptions): void {
+	const payload = tracker.takePayload();
+	if (!payload) return;
+
+	const report = (error: unknown) => options.onError?.(error as Error, payload);
+	if (target instanceof GA4BatchHandler) {
+		target.add(payload).catch(report);
+		return;
+	}
+	for (const part of splitPayload(payload)) target.send(part).catch(report);
+}
+
+function clientCookie(clientId: string, secure: boolean, cookie: GA4HttpOptions['cookie'] = {}): string {
+	const attributes = [
+		`_ga=${formatClientCookie(clientId)}`,
+		'Path=/',
+		`Max-Age=${cookie.maxAgeSeconds ?? GA4.COOKIE_MAX_AGE_SECONDS}`,
+		'SameSite=Lax',
+	];
+	if (cookie.domain) attributes.push(`Domain=${cookie.domain}`);
+	if (cookie.secure ?? secure) attributes.push('Secure');
+	return attributes.join('; ');
+}
+
+/** Parse a cookie with `parse`, treating malformed values like missing ones. */
+function readCookie(value: string | undefined, parse: (value: string) => string): string | undefined {
+	if (value === undefined) return undefined;
+	try {
+		return parse(value);
+	} catch {
+		return undefined;
+	}
+}
+
+function parseCookies(header: string | undefined): Record<string, string> {
+	const cookies: Record<string, string> = {};
+	for (const part of header?.split(';') ?? []) {
+		const index = part.indexOf('=');
+		if (index < 0) continue;
+		const name = part.slice(0, index).trim();
+		if (name && !(name in cookies)) cookies[name] = part.slice(index + 1).trim();
+	}
+	return cookies;
+}
+
+/** Whether the request arrived over HTTPS; X-Forwarded-Proto is only believed behind a trusted proxy. */
+function isSecure(req: IncomingMessage, trustProxy: boolean): boolean {
+	const proto = trustProxy ? firstValue(req.headers['x-forwarded-proto']) : undefined;
+	if (proto) return proto === 'https';
+	return (req.socket as TLSSocket).encrypted === true;
+}
+
+/** First entry of a forwarded header; each proxy in a chain appends its own, comma-separated. */
+function firstValue(value: string | string[] | undefined): string | undefined {
+	return (Array.isArray(value) ? value[0] : value)?.split(',')[0]?.trim();
+}
@@ -1,22 +1,12 @@
 /**
- * GA4 Measurement Protocol Client
+ * GA4 Measurement Protocol Client - Node.js entry: the runtime-neutral core plus file storage,
+ * the node:http transport and node:http middleware.
  * @see https://developers.google.com/analytics/devguides/collection/protocol/ga4
  */
 
-export { GA4Client } from './client.js';
-export { GA4BatchHandler } from './batch.js';
-export { GA4Error, GA4ErrorCode } from './errors.js';
-export { GA4 } from './types.js';
-export { generateClientId, generateSessionId, toMicros } from './utils.js';
+export * from './web.js';
+export { type GA4HttpOptions, GA4RequestTracker, ga4Middleware } from './http.js';
+export { GA4NodeHttpTransport, type GA4NodeHttpTransportOptions } from './node-transport.js';
+export { GA4FileBackfillCheckpoint, GA4FileDeadLetterSink, GA4FileQueueStorage } from './storage.js';
 
-export type {
-	GA4Event,
-	GA4EventItem,
-	GA4EventParams,
-	GA4UserProperties,
-	GA4ClientOptions,
-	GA4BatchOptions,
-	GA4DebugResponse,
-	GA4ValidationMessage,
-	RetryOptions,
-} from './types.js';
+export type { GA4FileQueueStorageOptions } from './types.js';
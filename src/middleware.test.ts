@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { allowEvents, defaultParams, denyEvents, runMiddleware, sampling } from './middleware.js';
+import type { GA4Event, GA4MiddlewareContext } from './types.js';
+
+describe('middleware', () => {
+	const context = (): GA4MiddlewareContext => ({ stage: 'send', metadata: {} });
+	const payload = (...names: string[]): GA4Event => ({ client_id: 'c', events: names.map((name) => ({ name })) });
+
+	describe('runMiddleware', () => {
+		it('should run in order and share metadata', async () => {
+			const ctx = context();
+			const result = await runMiddleware(
+				[
+					(event, c) => {
+						c.metadata.seen = true;
+						return { ...event, user_id: 'u' };
+					},
+					async (event, c) => ({ ...event, events: [{ name: c.metadata.seen ? 'tagged' : 'untagged' }] }),
+				],
+				payload('a'),
+				ctx,
+			);
+			assert.deepEqual(result, { client_id: 'c', user_id: 'u', events: [{ name: 'tagged' }] });
+		});
+
+		it('should stop when a middleware drops the payload', async () => {
+			let called = false;
+			const result = await runMiddleware(
+				[
+					() => null,
+					(event) => {
+						called = true;
+						return event;
+					},
+				],
+				payload('a'),
+				context(),
+			);
+			assert.equal(result, null);
+			assert.equal(called, false);
+		});
+	});
+
+	describe('defaultParams', () => {
+		it('should add params without overriding event params', async () => {
+			const event = { client_id: 'c', events: [{ name: 'a', params: { environment: 'test' } }, { name: 'b' }] };
+			const result = await defaultParams({ app_version: '1.0', environment: 'prod' })(event, context());
+			assert.deepEqual(
+				result?.events.map((e) => e.params),
+				[
+					{ app_version: '1.0', environment: 'test' },
+					{ app_version: '1.0', environment: 'prod' },
+				],
+			);
+		});
+	});
+
+	describe('sampling', () => {
+		it('should keep events by name with the given rate', async () => {
+			const middleware = sampling({ scroll: 0.1 }, { random: () => 0.5 });
+			assert.deepEqual(await middleware(payload('scroll', 'purchase'), context()), payload('purchase'));
+			assert.equal(await middleware(payload('scroll'), context()), null);
+		});
+
+		it('should reject rates outside 0-1', () => {
+			assert.throws(() => sampling({ scroll: 2 }), RangeError);
+			assert.throws(() => sampling({}, { defaultRate: -1 }), RangeError);
+		});
+	});
+
+	describe('allowEvents/denyEvents', () => {
+		it('should filter events by name', async () => {
+			assert.deepEqual(await allowEvents(['a'])(payload('a', 'b'), context()), payload('a'));
+			assert.deepEqual(await denyEvents(['a'])(payload('a', 'b'), context()), payload('b'));
+			assert.equal(await denyEvents(['a'])(payload('a'), context()), null);
+		});
+	});
+});
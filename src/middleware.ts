@@ -0,0 +1,83 @@
+/**
+ * GA4 Middleware - rewrite, enrich or drop payloads before they are queued or sent.
+ */
+
+import type { GA4Event, GA4EventItem, GA4EventParams, GA4Middleware, GA4MiddlewareContext } from './types.js';
+
+/** Run `chain` in order; stops and returns null as soon as a middleware drops the payload. */
+export async function runMiddleware(
+	chain: readonly GA4Middleware[],
+	event: GA4Event,
+	context: GA4MiddlewareContext,
+): Promise<GA4Event | null> {
+	let current: GA4Event | null = event;
+	for (const middleware of chain) {
+		current = await middleware(current, context);
+		if (!current) return null;
+	}
+	return current;
+}
+
+/**
+ * Add parameters to every event; parameters already set on an event win.
+ * @example
+ * client.use(defaultParams({ app_version: '2.4.1', environment: process.env.NODE_ENV }));
+ */
+export function defaultParams(params: GA4EventParams | ((item: GA4EventItem) => GA4EventParams)): GA4Middleware {
+	return (event) => ({
+		...event,
+		events: event.events.map((item) => ({
+			...item,
+			params: { ...(typeof params === 'function' ? params(item) : params), ...item.params },
+		})),
+	});
+}
+
+/**
+ * Keep each event with the probability given for its name (0-1); names without a rate use `defaultRate`.
+ * Payloads left without events are dropped.
+ * @example
+ * client.use(sampling({ scroll: 0.1, page_view: 0.5 }));
+ */
+export function sampling(
+	rates: Record<string, number>,
+	options: { defaultRate?: number; random?: () => number } = {},
+): GA4Middleware {
+	const { defaultRate = 1, random = Math.random } = options;
+	for (const [name, rate] of Object.entries({ ...rates, '(default)': defaultRate })) {
+		if (!(rate >= 0 && rate <= 1)) throw new RangeError(`Sampling rate for ${name} must be 0-1, got ${rate}`);
+	}
+
+	return filterEvents((item) => {
+		const rate = rates[item.name] ?? defaultRate;
+		return rate >= 1 || random() < rate;
+	});
+}
+
+/**
+ * Only send events whose names are listed. Payloads left without events are dropped.
+ * @example
+ * client.use(allowEvents(['purchase', 'sign_up']));
+ */
+export function allowEvents(names: Iterable<string>): GA4Middleware {
+	const allowed = new Set(names);
+	return filterEvents((item) => allowed.has(item.name));
+}
+
+/**
+ * Never send events whose names are listed. Payloads left without events are dropped.
+ * @example
+ * client.use(denyEvents(['debug_ping']));
+ */
+export function denyEvents(names: Iterable<string>): GA4Middleware {
+	const denied = new Set(names);
+	return filterEvents((item) => !denied.has(item.name));
+}
+
+function filterEvents(keep: (item: GA4EventItem) => boolean): GA4Middleware {
+	return (event) => {
+		const events = event.events.filter(keep);
+		if (!events.length) return null;
+		return events.length === event.events.length ? event : { ...event, events };
+	};
+}
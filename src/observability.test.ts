@@ -0,0 +1,162 @@
+import assert from 'node:assert/strict';
+import { describe, it, mock } from 'node:test';
+import { GA4BatchHandler } from './batch.js';
+import { GA4Client } from './client.js';
+import { GA4ValidationError } from './errors.js';
+import { denyEvents } from './middleware.js';
+import { Histogram } from './observability.js';
+import { GA4RecordingTransport } from './testing.js';
+
+describe('observability', () => {
+	const defaultOptions = { measurementId: 'G-TEST123', apiSecret: 'test-secret' };
+	const retry = { maxRetries: 2, initialDelayMs: 1, maxDelayMs: 5 };
+
+	describe('Histogram', () => {
+		it('should count values per bucket', () => {
+			const histogram = new Histogram([10, 100]);
+			for (const value of [5, 10, 50, 500]) histogram.record(value);
+
+			assert.deepEqual(histogram.snapshot(), {
+				count: 4,
+				sum: 565,
+				min: 5,
+				max: 500,
+				buckets: [
+					{ le: 10, count: 2 },
+					{ le: 100, count: 1 },
+					{ le: Number.POSITIVE_INFINITY, count: 1 },
+				],
+			});
+		});
+	});
+
+	describe('GA4Client', () => {
+		it('should emit request start and end around every attempt', async () => {
+			const transport = new GA4RecordingTransport().failNext({ type: 'server-error', status: 503 });
+			const client = new GA4Client({ ...defaultOptions, transport });
+			const starts = mock.fn();
+			const ends = mock.fn();
+			const retries = mock.fn();
+			client.on('request:start', starts);
+			client.on('request:end', ends);
+			client.on('retry', retries);
+
+			await client.sendWithRetry([{ client_id: 'c1', events: [{ name: 'login' }, { name: 'search' }] }], retry);
+
+			assert.deepEqual(
+				starts.mock.calls.map((c) => c.arguments[0]),
+				[
+					{ id: 1, endpoint: '/mp/collect', events: 2, attempt: 1 },
+					{ id: 2, endpoint: '/mp/collect', events: 2, attempt: 2 },
+				],
+			);
+			const [failed, succeeded] = ends.mock.calls.map((c) => c.arguments[0]);
+			assert.equal(failed.status, 503);
+			assert.equal(failed.error.code, 'SERVER_ERROR');
+			assert.equal(succeeded.status, 204);
+			assert.equal(succeeded.error, undefined);
+			assert.equal(typeof succeeded.durationMs, 'number');
+			assert.equal(retries.mock.calls[0]?.arguments[0].attempt, 2);
+		});
+
+		it('should report validation failures, repairs and drops', async () => {
+			const transport = new GA4RecordingTransport();
+			const client = new GA4Client({ ...defaultOptions, transport, validation: 'repair' }).use(denyEvents(['ping']));
+			const validation = mock.fn();
+			const drops = mock.fn();
+			client.on('validation', validation);
+			client.on('drop', drops);
+
+			await client.send({ client_id: 'c1', events: [{ name: 'ping' }] });
+			await client.send({ client_id: 'c1', events: [{ name: 'login', params: { method: 'x'.repeat(150) } }] });
+			await assert.rejects(client.send({ events: [{ name: 'login' }] } as never), GA4ValidationError);
+
+			assert.equal(drops.mock.calls[0]?.arguments[0].reason, 'middleware');
+			const [repaired, rejected] = validation.mock.calls.map((c) => c.arguments[0]);
+			assert.equal(repaired.issues[0].action, 'truncated');
+			assert.ok(rejected.error instanceof GA4ValidationError);
+		});
+
+		it('should keep counters and a latency histogram', async () => {
+			const transport = new GA4RecordingTransport().failNext({ type: 'client-error', status: 400 });
+			const client = new GA4Client({ ...defaultOptions, transport });
+
+			await assert.rejects(client.send({ client_id: 'c1', events: [{ name: 'login' }] }));
+			await client.send({ client_id: 'c1', events: [{ name: 'login' }, { name: 'search' }] });
+
+			const stats = client.stats();
+			assert.equal(stats.requests, 2);
+			assert.equal(stats.succeeded, 1);
+			assert.equal(stats.failed, 1);
+			assert.equal(stats.events, 2);
+			assert.deepEqual(stats.statuses, { 400: 1, 204: 1 });
+			assert.equal(stats.latency.count, 2);
+		});
+
+		it('should ignore listener errors and stop calling removed listeners', async () => {
+			const client = new GA4Client({ ...defaultOptions, transport: new GA4RecordingTransport() });
+			const listener = mock.fn();
+			client.on('request:start', () => {
+				throw new Error('listener failed');
+			});
+			const off = client.on('request:end', listener);
+
+			await client.send({ client_id: 'c1', events: [{ name: 'login' }] });
+			off();
+			await client.send({ client_id: 'c1', events: [{ name: 'login' }] });
+
+			assert.equal(listener.mock.callCount(), 1);
+		});
+	});
+
+	describe('GA4BatchHandler', () => {
+		it('should emit queue depth, drops and flush duration', async () => {
+			const client = new GA4Client({ ...defaultOptions, transport: new GA4RecordingTransport() });
+			const batch = new GA4BatchHandler(client).use(denyEvents(['ping']));
+			const depths: number[] = [];
+			const drops = mock.fn();
+			const flushes = mock.fn();
+			batch.on('queue', ({ size }) => depths.push(size));
+			batch.on('drop', drops);
+			batch.on('flush:end', flushes);
+
+			for (const name of ['login', 'ping', 'search', 'login']) await batch.add({ client_id: 'c1', events: [{ name }] });
+			await batch.flush();
+
+			assert.deepEqual(depths, [1, 2, 3, 0]);
+			assert.equal(drops.mock.calls[0]?.arguments[0].reason, 'middleware');
+			const [flush] = flushes.mock.calls.map((c) => c.arguments[0]);
+			assert.equal(flush.sent, 3);
+			assert.equal(flush.failed, 0);
+			assert.equal(flush.queueSize, 0);
+		});
+
+		it('should keep counters and a flush duration histogram', async () => {
+			const transport = new GA4RecordingTransport().failNext({ type: 'server-error' }, 10);
+			const client = new GA4Client({ ...defaultOptions, transport });
+			const batch = new GA4BatchHandler(client, { maxRetries: 0 });
+			const flushes = mock.fn();
+			batch.on('flush:end', flushes);
+
+			await batch.add({ client_id: 'c1', events: [{ name: 'login' }] });
+			await assert.rejects(batch.flush());
+
+			assert.ok(flushes.mock.calls[0]?.arguments[0].error);
+			assert.deepEqual(
+				{ ...batch.stats(), flushDuration: batch.stats().flushDuration.count },
+				{
+					queueSize: 1,
+					enqueued: 1,
+					sent: 0,
+					failed: 1,
+					dropped: 0,
+					expired: 0,
+					deadLettered: 0,
+					duplicates: 0,
+					flushes: 1,
+					flushDuration: 1,
+				},
+			);
+		});
+	});
+});
@@ -0,0 +1,69 @@
+/**
+ * GA4 Observability - typed lifecycle events and the histograms behind `stats()`.
+ */
+
+import { GA4, type GA4HistogramSnapshot, type GA4Listener } from './types.js';
+
+/** Minimal typed event emitter; works in every runtime, unlike node:events. */
+export class Emitter<E extends object> {
+	private readonly listeners = new Map<keyof E, Set<GA4Listener<never>>>();
+
+	on<K extends keyof E>(name: K, listener: GA4Listener<E[K]>): () => void {
+		let set = this.listeners.get(name);
+		if (!set) {
+			set = new Set();
+			this.listeners.set(name, set);
+		}
+		set.add(listener);
+		return () => this.off(name, listener);
+	}
+
+	off<K extends keyof E>(name: K, listener: GA4Listener<E[K]>): void {
+		this.listeners.get(name)?.delete(listener);
+	}
+
+	/** Call every listener of `name`. A throwing listener must not break sending, so its error is ignored. */
+	emit<K extends keyof E>(name: K, data: E[K]): void {
+		for (const listener of this.listeners.get(name) ?? []) {
+			try {
+				(listener as GA4Listener<E[K]>)(data);
+			} catch {
+				// Listener errors are the listener's concern.
+			}
+		}
+	}
+}
+
+/** Fixed-bucket histogram; the last bucket (`le: Infinity`) holds values above every bound. */
+export class Histogram {
+	private readonly bounds: readonly number[];
+	private readonly counts: number[];
+	private count = 0;
+	private sum = 0;
+	private min = 0;
+	private max = 0;
+
+	constructor(bounds: readonly number[] = GA4.DURATION_BUCKETS_MS) {
+		this.bounds = [...bounds, Number.POSITIVE_INFINITY];
+		this.counts = this.bounds.map(() => 0);
+	}
+
+	record(value: number): void {
+		const index = this.bounds.findIndex((le) => value <= le);
+		this.counts[index] = (this.counts[index] ?? 0) + 1;
+		this.min = this.count ? Math.min(this.min, value) : value;
+		this.max = this.count ? Math.max(this.max, value) : value;
+		this.count++;
+		this.sum += value;
+	}
+
+	snapshot(): GA4HistogramSnapshot {
+		return {
+			count: this.count,
+			sum: this.sum,
+			min: this.min,
+			max: this.max,
+			buckets: this.bounds.map((le, i) => ({ le, count: this.counts[i] ?? 0 })),
+		};
+	}
+}
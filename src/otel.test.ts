@@ -0,0 +1,111 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { GA4BatchHandler } from './batch.js';
+import { GA4Client } from './client.js';
+import { ga4OpenTelemetry } from './otel.js';
+import { GA4RecordingTransport } from './testing.js';
+import type { GA4OtelAttributes, GA4OtelObservableCallback } from './types.js';
+
+/** In-memory stand-ins for an OpenTelemetry tracer and meter. */
+function fakeOtel() {
+	const spans: Array<{ name: string; attributes: GA4OtelAttributes; status?: number; ended: boolean }> = [];
+	const points: Array<{ name: string; value: number; attributes?: GA4OtelAttributes }> = [];
+	const callbacks = new Set<GA4OtelObservableCallback>();
+
+	const tracer = {
+		startSpan(name: string, options: { attributes?: GA4OtelAttributes } = {}) {
+			const span = {
+				name,
+				attributes: { ...options.attributes },
+				status: undefined as number | undefined,
+				ended: false,
+			};
+			spans.push(span);
+			return {
+				setAttribute: (key: string, value: string | number | boolean) => {
+					span.attributes[key] = value;
+				},
+				setStatus: ({ code }: { code: number }) => {
+					span.status = code;
+				},
+				end: () => {
+					span.ended = true;
+				},
+			};
+		},
+	};
+	const instrument = (name: string) => ({
+		add: (value: number, attributes?: GA4OtelAttributes) => points.push({ name, value, attributes }),
+		record: (value: number, attributes?: GA4OtelAttributes) => points.push({ name, value, attributes }),
+	});
+	const meter = {
+		createCounter: instrument,
+		createHistogram: instrument,
+		createObservableGauge: () => ({
+			addCallback: (callback: GA4OtelObservableCallback) => callbacks.add(callback),
+			removeCallback: (callback: GA4OtelObservableCallback) => callbacks.delete(callback),
+		}),
+	};
+	const observe = () => {
+		const values: number[] = [];
+		for (const callback of callbacks) callback({ observe: (value) => values.push(value) });
+		return values;
+	};
+	return { tracer, meter, spans, points, observe };
+}
+
+describe('ga4OpenTelemetry', () => {
+	const defaultOptions = { measurementId: 'G-TEST123', apiSecret: 'test-secret' };
+
+	it('should record request spans and metrics', async () => {
+		const otel = fakeOtel();
+		const transport = new GA4RecordingTransport().failNext({ type: 'client-error', status: 400 });
+		const client = new GA4Client({ ...defaultOptions, transport });
+		ga4OpenTelemetry({ client }, otel);
+
+		await assert.rejects(client.send({ client_id: 'c1', events: [{ name: 'login' }] }));
+		await client.send({ client_id: 'c1', events: [{ name: 'login' }, { name: 'search' }] });
+
+		assert.deepEqual(
+			otel.spans.map((s) => [s.name, s.attributes['http.response.status_code'], s.status, s.ended]),
+			[
+				['ga4.request', 400, 2, true],
+				['ga4.request', 204, 1, true],
+			],
+		);
+		const requests = otel.points.filter((p) => p.name === 'ga4.requests');
+		assert.deepEqual(
+			requests.map((p) => p.attributes?.['ga4.outcome']),
+			['failure', 'success'],
+		);
+		assert.deepEqual(
+			otel.points.filter((p) => p.name === 'ga4.events.sent').map((p) => p.value),
+			[2],
+		);
+		assert.equal(otel.points.filter((p) => p.name === 'ga4.request.duration').length, 2);
+	});
+
+	it('should record flushes and observe queue depth until stopped', async () => {
+		const otel = fakeOtel();
+		const client = new GA4Client({ ...defaultOptions, transport: new GA4RecordingTransport() });
+		const batch = new GA4BatchHandler(client);
+		const stop = ga4OpenTelemetry({ client, batch }, { meter: otel.meter, tracer: otel.tracer, prefix: 'analytics' });
+
+		await batch.add({ client_id: 'c1', events: [{ name: 'login' }] });
+		assert.deepEqual(otel.observe(), [1]);
+		await batch.flush();
+
+		const flush = otel.spans.find((s) => s.name === 'analytics.flush');
+		assert.deepEqual(flush?.attributes, { 'ga4.queue.size': 1, 'ga4.sent': 1, 'ga4.failed': 0 });
+		assert.ok(otel.points.some((p) => p.name === 'analytics.flush.duration'));
+
+		stop();
+		await batch.add({ client_id: 'c1', events: [{ name: 'login' }] });
+		await batch.flush();
+		assert.deepEqual(otel.observe(), []);
+		assert.deepEqual(
+			otel.spans.map((s) => s.name),
+			['analytics.flush', 'analytics.request'],
+		);
+	});
+});
@@ -0,0 +1,126 @@
+/**
+ * GA4 OpenTelemetry - spans and metrics from client and batch handler events, without depending on
+ * @opentelemetry/api: pass its tracer and meter, or anything with the same shape.
+ */
+
+import type { GA4BatchHandler } from './batch.js';
+import type { GA4Client } from './client.js';
+import type { GA4EventMap, GA4OtelObservableCallback, GA4OtelOptions, GA4OtelSpan } from './types.js';
+
+/** `SpanKind.CLIENT` and `SpanStatusCode` values from @opentelemetry/api. */
+const SPAN_KIND_CLIENT = 2;
+const STATUS_OK = 1;
+const STATUS_ERROR = 2;
+
+/**
+ * Report a client's requests (and a batch handler's flushes and queue) to OpenTelemetry:
+ * - spans `ga4.request` and `ga4.flush`
+ * - counters `ga4.requests`, `ga4.events.sent`, `ga4.retries`, `ga4.validation.failures`, `ga4.dropped`
+ * - histograms `ga4.request.duration` and `ga4.flush.duration` (ms), and the gauge `ga4.queue.size`
+ *
+ * Returns a function that stops reporting.
+ * @example
+ * import { metrics, trace } from '@opentelemetry/api';
+ * const stop = ga4OpenTelemetry({ client, batch }, { tracer: trace.getTracer('ga4'), meter: metrics.getMeter('ga4') });
+ */
+export function ga4OpenTelemetry<S extends GA4EventMap>(
+	source: { client?: GA4Client<S>; batch?: GA4BatchHandler<S> },
+	options: GA4OtelOptions,
+): () => void {
+	const { client, batch } = source;
+	const { tracer, meter, prefix = 'ga4' } = options;
+	const unsubscribe: Array<() => void> = [];
+
+	const requests = meter?.createCounter(`${prefix}.requests`, { description: 'GA4 requests by status' });
+	const requestDuration = meter?.createHistogram(`${prefix}.request.duration`, { unit: 'ms' });
+	const eventsSent = meter?.createCounter(`${prefix}.events.sent`, { description: 'Events in successful requests' });
+	const retries = meter?.createCounter(`${prefix}.retries`);
+	const validationFailures = meter?.createCounter(`${prefix}.validation.failures`);
+	const dropped = meter?.createCounter(`${prefix}.dropped`, { description: 'Payloads dropped without being sent' });
+	const flushDuration = meter?.createHistogram(`${prefix}.flush.duration`, { unit: 'ms' });
+
+	if (client) {
+		const spans = new Map<number, GA4OtelSpan>();
+
+		unsubscribe.push(
+			client.on('request:start', ({ id, endpoint, events, attempt }) => {
+				const span = tracer?.startSpan(`${prefix}.request`, {
+					kind: SPAN_KIND_CLIENT,
+					attributes: { 'ga4.endpoint': endpoint, 'ga4.events': events, 'ga4.attempt': attempt },
+				});
+				if (span) spans.set(id, span);
+			}),
+			client.on('request:end', ({ id, endpoint, events, durationMs, status, error }) => {
+				const attributes = {
+					'ga4.endpoint': endpoint,
+					'ga4.outcome': error ? 'failure' : 'success',
+					...(status !== undefined && { 'http.response.status_code': status }),
+				};
+				requests?.add(1, attributes);
+				requestDuration?.record(durationMs, attributes);
+				if (!error) eventsSent?.add(events, { 'ga4.endpoint': endpoint });
+
+				const span = spans.get(id);
+				if (!span) return;
+				spans.delete(id);
+				if (status !== undefined) span.setAttribute('http.response.status_code', status);
+				if (error) {
+					span.recordException?.(error);
+					span.setStatus({ code: STATUS_ERROR, message: error.message });
+				} else span.setStatus({ code: STATUS_OK });
+				span.end();
+			}),
+			client.on('retry', ({ attempt, error }) => {
+				retries?.add(1, { 'ga4.attempt': attempt, 'ga4.error.code': error.code });
+			}),
+			client.on('validation', ({ error }) => {
+				if (error) validationFailures?.add(1);
+			}),
+			client.on('drop', ({ events, reason }) => {
+				dropped?.add(events.length, { 'ga4.reason': reason, 'ga4.source': 'client' });
+			}),
+		);
+	}
+
+	if (batch) {
+		let flushSpan: GA4OtelSpan | undefined;
+
+		unsubscribe.push(
+			batch.on('flush:start', ({ queueSize }) => {
+				flushSpan = tracer?.startSpan(`${prefix}.flush`, { attributes: { 'ga4.queue.size': queueSize } });
+			}),
+			batch.on('flush:end', ({ durationMs, sent, failed, error }) => {
+				flushDuration?.record(durationMs, { 'ga4.outcome': error ? 'failure' : 'success' });
+				if (!flushSpan) return;
+				flushSpan.setAttribute('ga4.sent', sent);
+				flushSpan.setAttribute('ga4.failed', failed);
+				if (error) {
+					flushSpan.recordException?.(error);
+					flushSpan.setStatus({ code: STATUS_ERROR, message: error.message });
+				} else flushSpan.setStatus({ code: STATUS_OK });
+				flushSpan.end();
+				flushSpan = undefined;
+			}),
+			batch.on('drop', ({ events, reason }) => {
+				dropped?.add(events.length, { 'ga4.reason': reason, 'ga4.source': 'batch' });
+			}),
+			batch.on('expired', ({ events }) => {
+				dropped?.add(events.length, { 'ga4.reason': 'expired', 'ga4.source': 'batch' });
+			}),
+			batch.on('dead-letter', ({ letters }) => {
+				dropped?.add(letters.length, { 'ga4.reason': 'dead-letter', 'ga4.source': 'batch' });
+			}),
+		);
+
+		const queueSize = meter?.createObservableGauge?.(`${prefix}.queue.size`, { description: 'Queued payloads' });
+		if (queueSize) {
+			const observe: GA4OtelObservableCallback = (result) => result.observe(batch.size);
+			queueSize.addCallback(observe);
+			unsubscribe.push(() => queueSize.removeCallback?.(observe));
+		}
+	}
+
+	return () => {
+		for (const stop of unsubscribe) stop();
+	};
+}
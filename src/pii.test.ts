@@ -0,0 +1,102 @@
+import assert from 'node:assert/strict';
+import { describe, it, mock } from 'node:test';
+import type { GA4ValidationError } from './errors.js';
+import { piiScrubber, scrubPii } from './pii.js';
+import type { GA4Event } from './types.js';
+import { sha256 } from './utils.js';
+
+describe('pii', () => {
+	const payload = (params: Record<string, string | number>): GA4Event => ({
+		client_id: 'c',
+		events: [{ name: 'test', params }],
+	});
+
+	describe('scrubPii', () => {
+		it('should redact emails, phones, cards and IPs', () => {
+			const { event, findings } = scrubPii(
+				payload({
+					note: 'Contact jane.doe@example.com or +1 650-555-1234',
+					card: '4111 1111 1111 1111',
+					ip: 'from 203.0.113.7 and 2001:db8::1',
+				}),
+			);
+
+			assert.deepEqual(event.events[0]?.params, {
+				note: 'Contact [REDACTED_EMAIL] or [REDACTED_PHONE]',
+				card: '[REDACTED_CREDIT_CARD]',
+				ip: 'from [REDACTED_IP] and [REDACTED_IP]',
+			});
+			assert.deepEqual(
+				findings.map((f) => [f.fieldPath, f.type, f.count]),
+				[
+					['events[0].params.note', 'email', 1],
+					['events[0].params.note', 'phone', 1],
+					['events[0].params.card', 'credit_card', 1],
+					['events[0].params.ip', 'ip', 2],
+				],
+			);
+		});
+
+		it('should leave look-alikes alone', () => {
+			const event = payload({
+				order: '4111 1111 1111 1112',
+				date: '2024-01-15 10:30',
+				time: '12:30:45',
+				version: '1.2.3',
+				value: 1234567890,
+			});
+			assert.deepEqual(scrubPii(event), { event, findings: [] });
+		});
+
+		it('should scrub decoded URL query parameters', () => {
+			const { event, findings } = scrubPii(
+				payload({ page_location: 'https://shop.example/checkout?email=jane%40example.com&step=2' }),
+			);
+			assert.equal(
+				event.events[0]?.params?.page_location,
+				'https://shop.example/checkout?email=%5BREDACTED_EMAIL%5D&step=2',
+			);
+			assert.equal(findings[0]?.fieldPath, 'events[0].params.page_location');
+		});
+
+		it('should scrub user properties and ecommerce items', () => {
+			const { event } = scrubPii({
+				client_id: 'c',
+				user_properties: { contact: { value: '(650) 555-1234' } },
+				events: [{ name: 'purchase', params: { items: [{ item_id: 'SKU', item_name: 'for jane@example.com' }] } }],
+			});
+			assert.equal(event.user_properties?.contact?.value, '[REDACTED_PHONE]');
+			assert.deepEqual(event.events[0]?.params?.items, [{ item_id: 'SKU', item_name: 'for [REDACTED_EMAIL]' }]);
+		});
+
+		it('should hash or throw per detector and support custom patterns', () => {
+			const { event } = scrubPii(payload({ email: 'Jane@Example.com', staff: 'EMP-123456' }), {
+				patterns: { employee_id: /EMP-\d{6}/ },
+				action: { email: 'hash' },
+			});
+			assert.deepEqual(event.events[0]?.params, {
+				email: sha256('jane@example.com'),
+				staff: '[REDACTED_EMPLOYEE_ID]',
+			});
+
+			assert.throws(
+				() => scrubPii(payload({ email: 'jane@example.com' }), { action: 'throw' }),
+				(error: GA4ValidationError) => error.fieldPath === 'events[0].params.email' && !error.message.includes('jane'),
+			);
+		});
+	});
+
+	describe('piiScrubber', () => {
+		it('should report findings per payload', async () => {
+			const onReport = mock.fn();
+			const metadata: Record<string, unknown> = {};
+			const middleware = piiScrubber({ detect: ['email'], onReport });
+
+			await middleware(payload({ a: 'jane@example.com', b: '+1 650-555-1234' }), { stage: 'send', metadata });
+			await middleware(payload({ a: 'nothing here' }), { stage: 'send', metadata: {} });
+
+			assert.equal(onReport.mock.callCount(), 1);
+			assert.deepEqual(metadata.pii, [{ fieldPath: 'events[0].params.a', type: 'email', action: 'redact', count: 1 }]);
+		});
+	});
+});
@@ -0,0 +1,217 @@
+/**
+ * GA4 PII Scrubber - detects and redacts personal data before it reaches GA4.
+ * @see https://support.google.com/analytics/answer/6366371
+ */
+
+import { GA4ValidationError } from './errors.js';
+import type {
+	GA4Event,
+	GA4EventItem,
+	GA4EventParams,
+	GA4Item,
+	GA4Middleware,
+	GA4PiiAction,
+	GA4PiiFinding,
+	GA4PiiScrubberOptions,
+	GA4PiiType,
+	GA4UserProperties,
+} from './types.js';
+import { isIpAddress, sha256 } from './utils.js';
+
+interface Detector {
+	type: string;
+	pattern: RegExp;
+	/** Confirms a regex match, to rule out false positives. */
+	accept?: (match: string) => boolean;
+}
+
+const DETECTORS: Record<GA4PiiType, Detector> = {
+	email: { type: 'email', pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g },
+	credit_card: {
+		type: 'credit_card',
+		pattern: /(?<!\d)\d(?:[ -]?\d){12,18}(?!\d)/g,
+		accept: (match) => luhn(match.replace(/\D/g, '')),
+	},
+	ip: {
+		type: 'ip',
+		pattern: /(?<![\w.:])(?:(?:\d{1,3}\.){3}\d{1,3}|[0-9A-Fa-f]{0,4}(?::[0-9A-Fa-f]{0,4}){2,7})(?![\w.:])/g,
+		accept: (match) => /[0-9A-Fa-f]/.test(match) && isIpAddress(match),
+	},
+	phone: {
+		type: 'phone',
+		pattern: /(?<![\w+])(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,4}\)[ .-]?)?\d{2,4}(?:[ .-]?\d{2,4}){1,4}(?![\w])/g,
+		accept: (match) => {
+			const digits = match.replace(/\D/g, '').length;
+			if (/^\d{4}-\d{2}-\d{2}/.test(match)) return false;
+			return match.startsWith('+') ? digits >= 8 && digits <= 15 : digits >= 10 && digits <= 15 && /\D/.test(match);
+		},
+	},
+};
+
+/** Detector order matters: card numbers are removed before the phone detector can claim their digits. */
+const DEFAULT_DETECT: GA4PiiType[] = ['email', 'credit_card', 'ip', 'phone'];
+
+const URL_PATTERN = /^https?:\/\//i;
+
+/** Result of scrubbing a payload. `event` is a scrubbed copy when anything was found. */
+export interface GA4PiiScrubResult {
+	event: GA4Event;
+	findings: GA4PiiFinding[];
+}
+
+/**
+ * Scan string values in event params (including ecommerce items), URL query strings and user properties
+ * for PII, and redact or hash each match, or throw, as configured. Numbers and booleans are not scanned.
+ * @example
+ * const { event, findings } = scrubPii(payload, { action: { email: 'hash' } });
+ */
+export function scrubPii(event: GA4Event, options: Omit<GA4PiiScrubberOptions, 'onReport'> = {}): GA4PiiScrubResult {
+	const scrubber = new PiiScrubber(options);
+	return { event: scrubber.event(event), findings: scrubber.findings };
+}
+
+/**
+ * Middleware that scrubs PII from every payload; `onReport` receives the changes per payload,
+ * which are also attached to `context.metadata.pii`.
+ * @example
+ * client.use(piiScrubber({ patterns: { employee_id: /EMP-\d{6}/ }, onReport: (findings) => audit.log(findings) }));
+ */
+export function piiScrubber(options: GA4PiiScrubberOptions = {}): GA4Middleware {
+	return (event, context) => {
+		const { event: scrubbed, findings } = scrubPii(event, options);
+		if (findings.length) {
+			context.metadata.pii = findings;
+			options.onReport?.(findings, event);
+		}
+		return scrubbed;
+	};
+}
+
+function parseUrl(value: string): URL | undefined {
+	try {
+		return new URL(value);
+	} catch {
+		return undefined;
+	}
+}
+
+/** Luhn checksum used by payment card numbers. */
+function luhn(digits: string): boolean {
+	let sum = 0;
+	for (let i = 0; i < digits.length; i++) {
+		let digit = Number(digits[digits.length - 1 - i]);
+		if (i % 2 === 1) {
+			digit *= 2;
+			if (digit > 9) digit -= 9;
+		}
+		sum += digit;
+	}
+	return sum % 10 === 0;
+}
+
+class PiiScrubber {
+	readonly findings: GA4PiiFinding[] = [];
+	private readonly detectors: Detector[];
+	private readonly action: GA4PiiScrubberOptions['action'];
+
+	constructor(options: Omit<GA4PiiScrubberOptions, 'onReport'>) {
+		const detect = options.detect ?? DEFAULT_DETECT;
+		this.detectors = [
+			...DEFAULT_DETECT.filter((type) => detect.includes(type)).map((type) => DETECTORS[type]),
+			...Object.entries(options.patterns ?? {}).map(([type, pattern]) => ({
+				type,
+				pattern: pattern.global ? pattern : new RegExp(pattern.source, `${pattern.flags}g`),
+			})),
+		];
+		this.action = options.action;
+	}
+
+	event(event: GA4Event): GA4Event {
+		const found = this.findings.length;
+		const events = event.events.map((item, i) => this.item(item, `events[${i}]`));
+		const user_properties = event.user_properties && this.userProperties(event.user_properties);
+		if (this.findings.length === found) return event;
+
+		return { ...event, events, ...(user_properties && { user_properties }) };
+	}
+
+	private item(item: GA4EventItem, path: string): GA4EventItem {
+		if (!item.params) return item;
+
+		const params: GA4EventParams = {};
+		for (const [key, value] of Object.entries(item.params)) {
+			const fieldPath = `${path}.params.${key}`;
+			if (typeof value === 'string') params[key] = this.value(value, fieldPath);
+			else if (Array.isArray(value)) {
+				params[key] = (value as (string | GA4Item)[]).map((v, i) =>
+					typeof v === 'string' ? this.value(v, `${fieldPath}[${i}]`) : this.ecommerceItem(v, `${fieldPath}[${i}]`),
+				) as GA4EventParams[string];
+			} else params[key] = value;
+		}
+		return { ...item, params };
+	}
+
+	private ecommerceItem(item: GA4Item, path: string): GA4Item {
+		return Object.fromEntries(
+			Object.entries(item).map(([key, value]) => [
+				key,
+				typeof value === 'string' ? this.value(value, `${path}.${key}`) : value,
+			]),
+		);
+	}
+
+	private userProperties(properties: GA4UserProperties): GA4UserProperties {
+		return Object.fromEntries(
+			Object.entries(properties).map(([key, property]) => [
+				key,
+				typeof property.value === 'string'
+					? { ...property, value: this.value(property.value, `user_properties.${key}.value`) }
+					: property,
+			]),
+		);
+	}
+
+	/** Scrub a value; URLs are scrubbed per query parameter (decoded), path and fragment, leaving the host alone. */
+	private value(value: string, fieldPath: string): string {
+		const url = URL_PATTERN.test(value) ? parseUrl(value) : undefined;
+		if (!url) return this.text(value, fieldPath);
+
+		const found = this.findings.length;
+		const query = new URLSearchParams();
+		for (const [key, param] of url.searchParams) query.append(key, this.text(param, fieldPath));
+
+		url.pathname = this.text(url.pathname, fieldPath);
+		url.search = query.toString();
+		url.hash = this.text(url.hash, fieldPath);
+		return this.findings.length === found ? value : url.toString();
+	}
+
+	private text(value: string, fieldPath: string): string {
+		let result = value;
+		for (const detector of this.detectors) {
+			const action = this.actionFor(detector.type);
+			let count = 0;
+
+			result = result.replace(detector.pattern, (match) => {
+				if (detector.accept && !detector.accept(match)) return match;
+				if (action === 'throw') throw new GA4ValidationError(`PII detected (${detector.type})`, fieldPath);
+				count++;
+				return action === 'hash' ? sha256(match.trim().toLowerCase()) : `[REDACTED_${detector.type.toUpperCase()}]`;
+			});
+
+			if (count) this.record(fieldPath, detector.type, action as Exclude<GA4PiiAction, 'throw'>, count);
+		}
+		return result;
+	}
+
+	private actionFor(type: string): GA4PiiAction {
+		if (typeof this.action === 'string') return this.action;
+		return this.action?.[type] ?? 'redact';
+	}
+
+	private record(fieldPath: string, type: string, action: GA4PiiFinding['action'], count: number): void {
+		const existing = this.findings.find((f) => f.fieldPath === fieldPath && f.type === type);
+		if (existing) existing.count += count;
+		else this.findings.push({ fieldPath, type, action, count });
+	}
+}
@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { GA4ValidationError } from './errors.js';
+import { GA4Events, type GA4RecommendedEventParams, recommendedEvent } from './recommended.js';
+import { GA4 } from './types.js';
+import { validateEvent } from './validation.js';
+
+describe('recommended events', () => {
+	const items = [{ item_id: 'SKU-1', price: 15, quantity: 2 }];
+
+	describe('recommendedEvent', () => {
+		it('should build a purchase event', () => {
+			const event = recommendedEvent('purchase', { transaction_id: 'T-1', currency: 'USD', value: 30, items });
+			assert.deepEqual(event, {
+				name: 'purchase',
+				params: { transaction_id: 'T-1', currency: 'USD', value: 30, items },
+			});
+			assert.doesNotThrow(() => validateEvent({ client_id: 'test', events: [event] }));
+		});
+
+		it('should require transaction_id', () => {
+			assert.throws(
+				() => recommendedEvent('purchase', { transaction_id: '', currency: 'USD', value: 30, items }),
+				(error: GA4ValidationError) => error.fieldPath === 'params.transaction_id',
+			);
+		});
+
+		it('should require value with currency', () => {
+			const params = { currency: 'USD', items } as unknown as GA4RecommendedEventParams['add_to_cart'];
+			assert.throws(
+				() => recommendedEvent('add_to_cart', params),
+				(error: GA4ValidationError) => error.fieldPath === 'params.value',
+			);
+		});
+
+		it('should reject invalid currency codes', () => {
+			assert.throws(() => recommendedEvent('generate_lead', { currency: 'usd', value: 10 }), GA4ValidationError);
+		});
+
+		it('should require between 1 and GA4.MAX_ITEMS items', () => {
+			assert.throws(() => recommendedEvent('view_item_list', { items: [] }), GA4ValidationError);
+			const tooMany = Array.from({ length: GA4.MAX_ITEMS + 1 }, (_, i) => ({ item_id: `SKU-${i}` }));
+			assert.throws(
+				() => recommendedEvent('view_item_list', { items: tooMany }),
+				(error: GA4ValidationError) => error.fieldPath === 'params.items',
+			);
+		});
+
+		it('should validate item fields', () => {
+			assert.throws(
+				() => recommendedEvent('view_item', { currency: 'EUR', value: 1, items: [{ price: 1 }] }),
+				(error: GA4ValidationError) => error.fieldPath === 'params.items[0]',
+			);
+			assert.throws(
+				() => recommendedEvent('view_item', { currency: 'EUR', value: 1, items: [{ item_id: 'a', quantity: 0 }] }),
+				(error: GA4ValidationError) => error.fieldPath === 'params.items[0].quantity',
+			);
+			assert.throws(
+				() => recommendedEvent('view_item_list', { items: [null as never] }),
+				(error: GA4ValidationError) => error.fieldPath === 'params.items[0]',
+			);
+		});
+
+		it('should allow refund without items', () => {
+			assert.doesNotThrow(() => recommendedEvent('refund', { transaction_id: 'T-1', currency: 'USD', value: 30 }));
+		});
+	});
+
+	describe('GA4Events', () => {
+		it('should expose a builder per event', () => {
+			assert.deepEqual(GA4Events.login({ method: 'Google' }), { name: 'login', params: { method: 'Google' } });
+			assert.deepEqual(GA4Events.sign_up({}), { name: 'sign_up', params: {} });
+		});
+	});
+});
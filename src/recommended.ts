@@ -0,0 +1,191 @@
+/**
+ * GA4 Recommended Events - typed parameters and builders.
+ * @see https://developers.google.com/analytics/devguides/collection/ga4/reference/events
+ */
+
+import { GA4ValidationError } from './errors.js';
+import { GA4, type GA4EventItem, type GA4EventParams, type GA4Item } from './types.js';
+
+/** Monetary value; `currency` (ISO 4217) is required whenever `value` is set. */
+export type GA4Monetary = { currency: string; value: number } | { currency?: undefined; value?: undefined };
+
+type Items = { items: GA4Item[] };
+
+type ListParams = Items & { item_list_id?: string; item_list_name?: string };
+
+type PromotionParams = Items & {
+	creative_name?: string;
+	creative_slot?: string;
+	promotion_id?: string;
+	promotion_name?: string;
+};
+
+type TransactionParams = {
+	transaction_id: string;
+	affiliation?: string;
+	coupon?: string;
+	shipping?: number;
+	tax?: number;
+};
+
+type LeadParams = GA4Monetary & { lead_source?: string };
+
+/** Parameters of each recommended event, keyed by event name. */
+export interface GA4RecommendedEventParams {
+	// Ecommerce
+	add_payment_info: GA4Monetary & Items & { coupon?: string; payment_type?: string };
+	add_shipping_info: GA4Monetary & Items & { coupon?: string; shipping_tier?: string };
+	add_to_cart: GA4Monetary & Items;
+	add_to_wishlist: GA4Monetary & Items;
+	begin_checkout: GA4Monetary & Items & { coupon?: string };
+	purchase: GA4Monetary & Items & TransactionParams;
+	refund: GA4Monetary & Partial<Items> & TransactionParams;
+	remove_from_cart: GA4Monetary & Items;
+	select_item: ListParams;
+	select_promotion: PromotionParams;
+	view_cart: GA4Monetary & Items;
+	view_item: GA4Monetary & Items;
+	view_item_list: ListParams;
+	view_promotion: PromotionParams;
+
+	// Engagement
+	join_group: { group_id: string };
+	login: { method?: string };
+	search: { search_term: string };
+	select_content: { content_type: string; content_id?: string };
+	share: { method?: string; content_type?: string; item_id?: string };
+	sign_up: { method?: string };
+	tutorial_begin: Record<string, never>;
+	tutorial_complete: Record<string, never>;
+
+	// Lead generation
+	close_convert_lead: LeadParams;
+	close_unconvert_lead: LeadParams & { unconvert_lead_reason?: string };
+	disqualify_lead: LeadParams & { disqualified_lead_reason?: string };
+	generate_lead: LeadParams;
+	qualify_lead: LeadParams;
+	working_lead: LeadParams & { lead_status?: string };
+}
+
+/** Name of a GA4 recommended event. */
+export type GA4RecommendedEventName = keyof GA4RecommendedEventParams;
+
+interface EventRules {
+	items?: 'required' | 'optional';
+	monetary?: boolean;
+	required?: readonly string[];
+}
+
+const ITEMS_MONETARY: EventRules = { items: 'required', monetary: true };
+
+const RULES: { readonly [N in GA4RecommendedEventName]: EventRules } = {
+	add_payment_info: ITEMS_MONETARY,
+	add_shipping_info: ITEMS_MONETARY,
+	add_to_cart: ITEMS_MONETARY,
+	add_to_wishlist: ITEMS_MONETARY,
+	begin_checkout: ITEMS_MONETARY,
+	purchase: { ...ITEMS_MONETARY, required: ['transaction_id'] },
+	refund: { items: 'optional', monetary: true, required: ['transaction_id'] },
+	remove_from_cart: ITEMS_MONETARY,
+	select_item: { items: 'required' },
+	select_promotion: { items: 'required' },
+	view_cart: ITEMS_MONETARY,
+	view_item: ITEMS_MONETARY,
+	view_item_list: { items: 'required' },
+	view_promotion: { items: 'required' },
+	join_group: { required: ['group_id'] },
+	login: {},
+	search: { required: ['search_term'] },
+	select_content: { required: ['content_type'] },
+	share: {},
+	sign_up: {},
+	tutorial_begin: {},
+	tutorial_complete: {},
+	close_convert_lead: { monetary: true },
+	close_unconvert_lead: { monetary: true },
+	disqualify_lead: { monetary: true },
+	generate_lead: { monetary: true },
+	qualify_lead: { monetary: true },
+	working_lead: { monetary: true },
+};
+
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+
+/**
+ * Build a recommended event, checking required parameters and ecommerce invariants.
+ * Throws GA4ValidationError pointing at the offending parameter.
+ * @example
+ * const event = recommendedEvent('purchase', {
+ *   transaction_id: 'T-1001',
+ *   currency: 'USD',
+ *   value: 30,
+ *   items: [{ item_id: 'SKU-1', price: 15, quantity: 2 }],
+ * });
+ */
+export function recommendedEvent<N extends GA4RecommendedEventName>(
+	name: N,
+	params: GA4RecommendedEventParams[N],
+): GA4EventItem {
+	const rules = RULES[name];
+	const p = params as GA4EventParams;
+
+	for (const key of rules.required ?? []) {
+		if (p[key] === undefined || p[key] === '') {
+			throw new GA4ValidationError(`${key} is required for ${name}`, `params.${key}`);
+		}
+	}
+	if (rules.monetary) checkMonetary(name, p);
+	if (rules.items === 'required' || p.items !== undefined) checkItems(name, p.items);
+
+	return { name, params: p };
+}
+
+/**
+ * Builders for each recommended event.
+ * @example
+ * const event = GA4Events.login({ method: 'Google' });
+ */
+export const GA4Events = Object.fromEntries(
+	Object.keys(RULES).map((name) => [
+		name,
+		(params: never) => recommendedEvent(name as GA4RecommendedEventName, params),
+	]),
+) as { readonly [N in GA4RecommendedEventName]: (params: GA4RecommendedEventParams[N]) => GA4EventItem };
+
+function checkMonetary(name: string, params: GA4EventParams): void {
+	const { currency, value } = params;
+
+	if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value))) {
+		throw new GA4ValidationError(`value must be a finite number for ${name}`, 'params.value');
+	}
+	if (value !== undefined && currency === undefined) {
+		throw new GA4ValidationError(`currency is required when value is set for ${name}`, 'params.currency');
+	}
+	if (currency !== undefined && value === undefined) {
+		throw new GA4ValidationError(`value is required when currency is set for ${name}`, 'params.value');
+	}
+	if (currency !== undefined && (typeof currency !== 'string' || !CURRENCY_PATTERN.test(currency))) {
+		throw new GA4ValidationError(`currency must be an ISO 4217 code: ${String(currency)}`, 'params.currency');
+	}
+}
+
+function checkItems(name: string, items: GA4EventParams[string]): void {
+	if (!Array.isArray(items) || !items.length) {
+		throw new GA4ValidationError(`items must be a non-empty array for ${name}`, 'params.items');
+	}
+	if (items.length > GA4.MAX_ITEMS) {
+		throw new GA4ValidationError(`Exceeds ${GA4.MAX_ITEMS} items per event`, 'params.items');
+	}
+
+	for (const [i, item] of items.entries()) {
+		const path = `params.items[${i}]`;
+		if (item === null || typeof item !== 'object') throw new GA4ValidationError('Item must be an object', path);
+		if (!item.item_id && !item.item_name) throw new GA4ValidationError('Item requires item_id or item_name', path);
+		if (item.price !== undefined && !Number.isFinite(item.price)) {
+			throw new GA4ValidationError('price must be a finite number', `${path}.price`);
+		}
+		if (item.quantity !== undefined && (!Number.isInteger(item.quantity) || item.quantity < 1)) {
+			throw new GA4ValidationError('quantity must be a positive integer', `${path}.quantity`);
+		}
+	}
+}
@@ -0,0 +1,226 @@
+import assert from 'node:assert/strict';
+import { describe, it, mock } from 'node:test';
+import { GA4BatchHandler } from './batch.js';
+import { GA4Client } from './client.js';
+import { GA4Error, GA4ErrorCode } from './errors.js';
+import { GA4CircuitBreaker, GA4RateLimiter, GA4RetryBudget, backoffDelay } from './resilience.js';
+import { GA4RecordingTransport } from './testing.js';
+
+describe('resilience', () => {
+	describe('backoffDelay', () => {
+		it('should double without jitter', () => {
+			assert.deepEqual(
+				[0, 1, 2, 3].map((a) => backoffDelay('none', a, 0, 100, 500)),
+				[100, 200, 400, 500],
+			);
+		});
+
+		it('should apply full and equal jitter', () => {
+			assert.equal(
+				backoffDelay('full', 2, 0, 100, 10_000, () => 0.5),
+				200,
+			);
+			assert.equal(
+				backoffDelay('equal', 2, 0, 100, 10_000, () => 0),
+				200,
+			);
+			assert.equal(
+				backoffDelay('equal', 2, 0, 100, 10_000, () => 1),
+				400,
+			);
+		});
+
+		it('should apply decorrelated jitter', () => {
+			assert.equal(
+				backoffDelay('decorrelated', 0, 100, 100, 10_000, () => 1),
+				300,
+			);
+			assert.equal(
+				backoffDelay('decorrelated', 1, 300, 100, 10_000, () => 0),
+				100,
+			);
+			assert.equal(
+				backoffDelay('decorrelated', 1, 5_000, 100, 1_000, () => 1),
+				1_000,
+			);
+		});
+	});
+
+	describe('GA4RetryBudget', () => {
+		it('should allow retries up to the minimum plus ratio of requests', () => {
+			const budget = new GA4RetryBudget({ ratio: 0.5, minRetriesPerSecond: 1, windowMs: 1000 });
+			for (let i = 0; i < 4; i++) budget.recordRequest();
+
+			const granted = Array.from({ length: 5 }, () => budget.tryRetry()).filter(Boolean).length;
+			assert.equal(granted, 3);
+		});
+	});
+
+	describe('GA4CircuitBreaker', () => {
+		it('should open after consecutive failures and half-open after the timeout', () => {
+			mock.timers.enable({ apis: ['Date'] });
+			try {
+				const onStateChange = mock.fn();
+				const breaker = new GA4CircuitBreaker({ failureThreshold: 2, resetTimeoutMs: 1000, onStateChange });
+
+				breaker.onFailure();
+				breaker.acquire();
+				breaker.onFailure();
+				assert.equal(breaker.state, 'open');
+				assert.throws(
+					() => breaker.acquire(),
+					(e: GA4Error) => e.code === GA4ErrorCode.CircuitOpen,
+				);
+
+				mock.timers.tick(1000);
+				breaker.acquire();
+				assert.equal(breaker.state, 'half-open');
+				assert.throws(() => breaker.acquire(), GA4Error);
+
+				breaker.onSuccess();
+				assert.equal(breaker.state, 'closed');
+				assert.deepEqual(
+					onStateChange.mock.calls.map((c) => c.arguments[0]),
+					['open', 'half-open', 'closed'],
+				);
+			} finally {
+				mock.timers.reset();
+			}
+		});
+
+		it('should reopen when the probe fails', () => {
+			mock.timers.enable({ apis: ['Date'] });
+			try {
+				const breaker = new GA4CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 1000 });
+				breaker.onFailure();
+				mock.timers.tick(1000);
+				breaker.acquire();
+				breaker.onFailure();
+				assert.equal(breaker.state, 'open');
+			} finally {
+				mock.timers.reset();
+			}
+		});
+	});
+
+	describe('GA4RateLimiter', () => {
+		const payload = (...names: string[]) => ({ client_id: 'c1', events: names.map((name) => ({ name })) });
+
+		it('should allow a burst, then wait for tokens and report the wait', async () => {
+			mock.timers.enable({ apis: ['setTimeout', 'Date'], now: 0 });
+			try {
+				const onWait = mock.fn();
+				const limiter = new GA4RateLimiter({ requestsPerSecond: 2, requestBurst: 2, onWait });
+				await limiter.acquire(payload('login'));
+				await limiter.acquire(payload('login'));
+
+				let released = false;
+				const third = limiter.acquire(payload('login')).then(() => {
+					released = true;
+				});
+				assert.deepEqual(onWait.mock.calls[0]?.arguments[0], { waitMs: 500, events: 1, priority: 0, queued: 1 });
+
+				mock.timers.tick(499);
+				await Promise.resolve();
+				assert.equal(released, false);
+				mock.timers.tick(1);
+				await third;
+				assert.equal(limiter.pending, 0);
+			} finally {
+				mock.timers.reset();
+			}
+		});
+
+		it('should limit events per second', async () => {
+			mock.timers.enable({ apis: ['setTimeout', 'Date'], now: 0 });
+			try {
+				const onWait = mock.fn();
+				const limiter = new GA4RateLimiter({ eventsPerSecond: 25, onWait });
+				await limiter.acquire(payload(...Array<string>(25).fill('scroll')));
+
+				const next = limiter.acquire(payload('scroll', 'scroll'));
+				assert.equal(onWait.mock.calls[0]?.arguments[0].waitMs, 80);
+				mock.timers.tick(80);
+				await next;
+			} finally {
+				mock.timers.reset();
+			}
+		});
+
+		it('should release waiting requests by priority', async () => {
+			mock.timers.enable({ apis: ['setTimeout', 'Date'], now: 0 });
+			try {
+				const limiter = new GA4RateLimiter({ requestsPerSecond: 1, priorities: { purchase: 10, scroll: -1 } });
+				const order: string[] = [];
+				await limiter.acquire(payload('page_view'));
+
+				const waiting = [payload('scroll'), payload('page_view'), payload('scroll', 'purchase')].map((p) =>
+					limiter.acquire(p).then(() => order.push(p.events.map((e) => e.name).join('+'))),
+				);
+				assert.equal(limiter.pending, 3);
+				mock.timers.tick(1000);
+				mock.timers.tick(1000);
+				mock.timers.tick(1000);
+				await Promise.all(waiting);
+
+				assert.deepEqual(order, ['scroll+purchase', 'page_view', 'scroll']);
+			} finally {
+				mock.timers.reset();
+			}
+		});
+
+		it('should reject waits longer than maxWaitMs', async () => {
+			const limiter = new GA4RateLimiter({ requestsPerSecond: 1, maxWaitMs: 100 });
+			await limiter.acquire(payload('login'));
+			await assert.rejects(
+				limiter.acquire(payload('login')),
+				(error: GA4Error) => error.code === GA4ErrorCode.RateLimited && error.isRetryable(),
+			);
+		});
+
+		it('should reject waiting and later requests once closed', async () => {
+			const limiter = new GA4RateLimiter({ requestsPerSecond: 1 });
+			await limiter.acquire(payload('login'));
+			const waiting = limiter.acquire(payload('login'));
+			assert.equal(limiter.pending, 1);
+
+			limiter.close();
+
+			const closed = (error: GA4Error) => error.code === GA4ErrorCode.RateLimited && /closed/.test(error.message);
+			await assert.rejects(waiting, closed);
+			await assert.rejects(limiter.acquire(payload('login')), closed);
+			assert.equal(limiter.pending, 0);
+		});
+
+		it('should validate options', () => {
+			assert.throws(() => new GA4RateLimiter({ requestsPerSecond: 0 }), RangeError);
+			assert.throws(() => new GA4RateLimiter({ eventsPerSecond: 10, eventBurst: 10 }), RangeError);
+		});
+
+		it('should pause after GA4 answers 429', async () => {
+			const transport = new GA4RecordingTransport().failNext({ type: 'rate-limit', retryAfterSeconds: 2 });
+			const rateLimiter = new GA4RateLimiter({ maxWaitMs: 1000 });
+			const client = new GA4Client({ measurementId: 'G-TEST123', apiSecret: 'test-secret', transport, rateLimiter });
+
+			await assert.rejects(client.send(payload('login')), GA4Error);
+			await assert.rejects(client.send(payload('login')), /maxWaitMs/);
+			assert.equal(transport.requests.length, 1);
+		});
+
+		it('should let GA4BatchHandler send high-priority groups first', async () => {
+			const transport = new GA4RecordingTransport();
+			const rateLimiter = new GA4RateLimiter();
+			const client = new GA4Client({ measurementId: 'G-TEST123', apiSecret: 'test-secret', transport, rateLimiter });
+			const batch = new GA4BatchHandler(client, { maxConcurrency: 1 });
+
+			await batch.add({ client_id: 'c1', events: [{ name: 'scroll' }] });
+			await batch.add({ client_id: 'c2', events: [{ name: 'purchase' }] });
+			await batch.flush();
+
+			assert.deepEqual(
+				transport.events().map((e) => e.name),
+				['purchase', 'scroll'],
+			);
+		});
+	});
+});
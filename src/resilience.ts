@@ -0,0 +1,347 @@
+/**
+ * GA4 Resilience - backoff jitter, shared retry budgets, circuit breaking and rate limiting.
+ */
+
+import { GA4Error, GA4ErrorCode } from './errors.js';
+import {
+	GA4,
+	type GA4CircuitBreakerOptions,
+	type GA4CircuitState,
+	type GA4Event,
+	type GA4JitterStrategy,
+	type GA4RateLimitWait,
+	type GA4RateLimiterOptions,
+	type GA4RetryBudgetOptions,
+} from './types.js';
+
+/**
+ * Delay before retry number `attempt` (0-based).
+ * @see https://aws.amazon.com/blogs/architecture/exponential-backoff-and-jitter/
+ */
+export function backoffDelay(
+	strategy: GA4JitterStrategy,
+	attempt: number,
+	previousMs: number,
+	initialDelayMs: number,
+	maxDelayMs: number,
+	random: () => number = Math.random,
+): number {
+	const exponential = Math.min(maxDelayMs, initialDelayMs * 2 ** attempt);
+
+	switch (strategy) {
+		case 'none':
+			return exponential;
+		case 'full':
+			return random() * exponential;
+		case 'equal':
+			return exponential / 2 + (random() * exponential) / 2;
+		case 'decorrelated':
+			return Math.min(
+				maxDelayMs,
+				initialDelayMs + random() * (Math.max(previousMs, initialDelayMs) * 3 - initialDelayMs),
+			);
+	}
+}
+
+/**
+ * Caps retries across calls to a share of recent traffic, so a failing endpoint isn't
+ * hammered by every worker retrying in lockstep. Share one instance between clients.
+ * @example
+ * const retryBudget = new GA4RetryBudget({ ratio: 0.1 });
+ * const client = new GA4Client({ measurementId, apiSecret, retryBudget });
+ */
+export class GA4RetryBudget {
+	private readonly ratio: number;
+	private readonly minRetriesPerSecond: number;
+	private readonly windowMs: number;
+
+	/** Requests and retries per second, keyed by second. */
+	private readonly buckets = new Map<number, { requests: number; retries: number }>();
+
+	constructor(options: GA4RetryBudgetOptions = {}) {
+		this.ratio = options.ratio ?? GA4.RETRY_BUDGET_RATIO;
+		this.minRetriesPerSecond = options.minRetriesPerSecond ?? GA4.RETRY_BUDGET_MIN_PER_SECOND;
+		this.windowMs = options.windowMs ?? GA4.RETRY_BUDGET_WINDOW_MS;
+	}
+
+	/** Record a request (first attempt). */
+	recordRequest(): void {
+		this.bucket().requests++;
+	}
+
+	/** Reserve a retry; false when the budget is exhausted. */
+	tryRetry(): boolean {
+		let requests = 0;
+		let retries = 0;
+		for (const bucket of this.buckets.values()) {
+			requests += bucket.requests;
+			retries += bucket.retries;
+		}
+
+		const allowed = (this.minRetriesPerSecond * this.windowMs) / 1000 + this.ratio * requests;
+		if (retries >= allowed) return false;
+
+		this.bucket().retries++;
+		return true;
+	}
+
+	private bucket(): { requests: number; retries: number } {
+		const second = Math.floor(Date.now() / 1000);
+		const oldest = second - Math.ceil(this.windowMs / 1000);
+		for (const key of this.buckets.keys()) if (key <= oldest) this.buckets.delete(key);
+
+		let bucket = this.buckets.get(second);
+		if (!bucket) {
+			bucket = { requests: 0, retries: 0 };
+			this.buckets.set(second, bucket);
+		}
+		return bucket;
+	}
+}
+
+/**
+ * Opens after `failureThreshold` consecutive transient failures and fails fast with
+ * CIRCUIT_OPEN; after `resetTimeoutMs` it lets one probe request through (half-open)
+ * and closes again if it reaches the server.
+ * @example
+ * const client = new GA4Client({ measurementId, apiSecret, circuitBreaker: new GA4CircuitBreaker() });
+ */
+export class GA4CircuitBreaker {
+	private readonly failureThreshold: number;
+	private readonly resetTimeoutMs: number;
+	private readonly onStateChange?: (state: GA4CircuitState) => void;
+
+	private current: GA4CircuitState = 'closed';
+	private failures = 0;
+	private openedAt = 0;
+	private probing = false;
+
+	constructor(options: GA4CircuitBreakerOptions = {}) {
+		this.failureThreshold = options.failureThreshold ?? GA4.CIRCUIT_FAILURE_THRESHOLD;
+		this.resetTimeoutMs = options.resetTimeoutMs ?? GA4.CIRCUIT_RESET_TIMEOUT_MS;
+		this.onStateChange = options.onStateChange;
+	}
+
+	/** Current circuit state. */
+	get state(): GA4CircuitState {
+		return this.current;
+	}
+
+	/** Throw a CIRCUIT_OPEN GA4Error unless a request may proceed. */
+	acquire(): void {
+		if (this.current === 'open') {
+			const remaining = this.openedAt + this.resetTimeoutMs - Date.now();
+			if (remaining > 0) throw new GA4Error(GA4ErrorCode.CircuitOpen, `Circuit open, retry in ${remaining}ms`);
+			this.transition('half-open');
+		}
+		if (this.current === 'half-open') {
+			if (this.probing) throw new GA4Error(GA4ErrorCode.CircuitOpen, 'Circuit half-open, probe in flight');
+			this.probing = true;
+		}
+	}
+
+	/** Record a request that reached the server. */
+	onSuccess(): void {
+		this.failures = 0;
+		this.probing = false;
+		this.transition('closed');
+	}
+
+	/** Record a transient failure (network, timeout, 5xx, 429). */
+	onFailure(): void {
+		this.probing = false;
+		this.failures++;
+		if (this.current === 'half-open' || this.failures >= this.failureThreshold) {
+			this.openedAt = Date.now();
+			this.transition('open');
+		}
+	}
+
+	private transition(state: GA4CircuitState): void {
+		if (this.current === state) return;
+		this.current = state;
+		this.onStateChange?.(state);
+	}
+}
+
+/** A token bucket refilled continuously at `perMs` tokens per ms, up to `capacity`. */
+class TokenBucket {
+	private readonly capacity: number;
+	private readonly perMs: number;
+	private tokens: number;
+	private updatedAt = Date.now();
+
+	constructor(capacity: number, perMs: number) {
+		this.capacity = capacity;
+		this.perMs = perMs;
+		this.tokens = capacity;
+	}
+
+	/** Ms until `count` tokens are available (0 if they are now). */
+	waitFor(count: number): number {
+		this.refill();
+		return this.tokens >= count ? 0 : Math.ceil((count - this.tokens) / this.perMs);
+	}
+
+	take(count: number): void {
+		this.refill();
+		this.tokens -= count;
+	}
+
+	private refill(): void {
+		const now = Date.now();
+		this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * this.perMs);
+		this.updatedAt = now;
+	}
+}
+
+/** A request waiting for tokens. */
+interface RateLimitWaiter {
+	events: number;
+	priority: number;
+	resolve: () => void;
+	reject: (error: GA4Error) => void;
+}
+
+/**
+ * Token-bucket rate limiter for requests and events per second. Requests that have to wait are queued by
+ * priority, so a `purchase` goes out before a backlog of `scroll` events. A 429 response pauses every
+ * request sharing the limiter for its Retry-After. Share one instance between clients (and so their batch
+ * handlers) to keep many workers under one property's quota.
+ * @example
+ * const rateLimiter = new GA4RateLimiter({
+ *   requestsPerSecond: 20,
+ *   eventsPerSecond: 200,
+ *   priorities: { purchase: 10, scroll: -1 },
+ *   onWait: ({ waitMs, queued }) => metrics.gauge('ga4.rate_limit.wait', waitMs, { queued }),
+ * });
+ * const client = new GA4Client({ measurementId, apiSecret, rateLimiter });
+ */
+export class GA4RateLimiter {
+	private readonly requests: TokenBucket;
+	private readonly events?: TokenBucket;
+	private readonly priorities: Readonly<Record<string, number>>;
+	private readonly defaultPriority: number;
+	private readonly maxWaitMs: number;
+	private readonly onWait?: (wait: GA4RateLimitWait) => void;
+
+	/** Waiting requests, highest priority first and oldest first within a priority. */
+	private readonly waiters: RateLimitWaiter[] = [];
+	private timer: ReturnType<typeof setTimeout> | null = null;
+	private pausedUntil = 0;
+	private closed = false;
+
+	constructor(options: GA4RateLimiterOptions = {}) {
+		const requestsPerSecond = options.requestsPerSecond ?? GA4.RATE_LIMIT_REQUESTS_PER_SECOND;
+		if (!(requestsPerSecond > 0)) throw new RangeError('requestsPerSecond must be greater than 0');
+		const requestBurst = options.requestBurst ?? Math.max(1, requestsPerSecond);
+		if (!(requestBurst >= 1)) throw new RangeError('requestBurst must be at least 1');
+		this.requests = new TokenBucket(requestBurst, requestsPerSecond / 1000);
+
+		const { eventsPerSecond } = options;
+		if (eventsPerSecond !== undefined) {
+			if (!(eventsPerSecond > 0)) throw new RangeError('eventsPerSecond must be greater than 0');
+			const eventBurst = options.eventBurst ?? Math.max(GA4.MAX_EVENTS, eventsPerSecond);
+			if (!(eventBurst >= GA4.MAX_EVENTS)) throw new RangeError(`eventBurst must be at least ${GA4.MAX_EVENTS}`);
+			this.events = new TokenBucket(eventBurst, eventsPerSecond / 1000);
+		}
+
+		this.priorities = options.priorities ?? GA4.EVENT_PRIORITIES;
+		this.defaultPriority = options.defaultPriority ?? 0;
+		this.maxWaitMs = options.maxWaitMs ?? Number.POSITIVE_INFINITY;
+		this.onWait = options.onWait;
+	}
+
+	/** Priority of a payload: the highest priority among its events. */
+	priority(payload: GA4Event): number {
+		return Math.max(...payload.events.map((item) => this.priorities[item.name] ?? this.defaultPriority));
+	}
+
+	/**
+	 * Wait until `payload` may be sent, and take its tokens. Rejects with a retryable RATE_LIMITED GA4Error
+	 * when the estimated wait exceeds `maxWaitMs`, or once the limiter is closed.
+	 */
+	acquire(payload: GA4Event): Promise<void> {
+		if (this.closed) return Promise.reject(closedError());
+
+		const events = payload.events.length;
+		if (!this.waiters.length && this.waitFor(1, events) === 0) {
+			this.take(events);
+			return Promise.resolve();
+		}
+
+		const priority = this.priority(payload);
+		const position = this.waiters.findIndex((w) => w.priority < priority);
+		const index = position === -1 ? this.waiters.length : position;
+		const ahead = this.waiters.slice(0, index);
+		const waitMs = this.waitFor(ahead.length + 1, events + ahead.reduce((sum, w) => sum + w.events, 0));
+
+		if (waitMs > this.maxWaitMs) {
+			return Promise.reject(new GA4Error(GA4ErrorCode.RateLimited, `Rate limit wait of ${waitMs}ms exceeds maxWaitMs`));
+		}
+
+		return new Promise((resolve, reject) => {
+			this.waiters.splice(index, 0, { events, priority, resolve, reject });
+			this.onWait?.({ waitMs, events, priority, queued: this.waiters.length });
+			this.schedule();
+		});
+	}
+
+	/** Hold every request for `ms`, e.g. after GA4 answered 429. */
+	pause(ms: number): void {
+		this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+	}
+
+	/**
+	 * Reject waiting and future requests with a retryable RATE_LIMITED GA4Error, so a batch handler keeps
+	 * their events queued, and stop the timer. The timer keeps a Node.js process alive while requests wait;
+	 * call this on shutdown to let it exit without sending them.
+	 */
+	close(): void {
+		this.closed = true;
+		if (this.timer) clearTimeout(this.timer);
+		this.timer = null;
+		for (const { reject } of this.waiters.splice(0)) reject(closedError());
+	}
+
+	/** Requests waiting for tokens. */
+	get pending(): number {
+		return this.waiters.length;
+	}
+
+	/** Release waiting requests in order while their tokens are available, then wait for the next. */
+	private schedule(): void {
+		if (this.timer) clearTimeout(this.timer);
+		this.timer = null;
+
+		for (let head = this.waiters[0]; head; head = this.waiters[0]) {
+			const wait = this.waitFor(1, head.events);
+			if (wait > 0) {
+				this.timer = setTimeout(() => this.schedule(), wait);
+				return;
+			}
+			this.waiters.shift();
+			this.take(head.events);
+			head.resolve();
+		}
+	}
+
+	/** Ms until `requests` requests carrying `events` events in total could go out. */
+	private waitFor(requests: number, events: number): number {
+		return Math.max(
+			this.pausedUntil - Date.now(),
+			this.requests.waitFor(requests),
+			this.events?.waitFor(events) ?? 0,
+			0,
+		);
+	}
+
+	private take(events: number): void {
+		this.requests.take(1);
+		this.events?.take(events);
+	}
+}
+
+function closedError(): GA4Error {
+	return new GA4Error(GA4ErrorCode.RateLimited, 'Rate limiter is closed');
+}
@@ -0,0 +1,239 @@
+import assert from 'node:assert/strict';
+import { describe, it, mock } from 'node:test';
+import { GA4Error } from './errors.js';
+import { defaultParams } from './middleware.js';
+import { GA4Router } from './router.js';
+import { GA4RecordingTransport } from './testing.js';
+
+describe('GA4Router', () => {
+	const destination = (name: string, transport = new GA4RecordingTransport()) => ({
+		name,
+		measurementId: `G-${name.toUpperCase()}`,
+		apiSecret: `${name}-secret`,
+		transport,
+	});
+
+	describe('constructor', () => {
+		it('should require unique destinations', () => {
+			assert.throws(() => new GA4Router({ destinations: [] }), GA4Error);
+			assert.throws(() => new GA4Router({ destinations: [destination('prod'), destination('prod')] }), /Duplicate/);
+		});
+	});
+
+	describe('send', () => {
+		it('should send every event to destinations without a route', async () => {
+			const prod = new GA4RecordingTransport();
+			const staging = new GA4RecordingTransport();
+			const router = new GA4Router({ destinations: [destination('prod', prod), destination('staging', staging)] });
+
+			const results = await router.send({ client_id: 'c1', events: [{ name: 'login' }] });
+
+			assert.deepEqual(results, [
+				{ destination: 'prod', events: 1, status: 'sent' },
+				{ destination: 'staging', events: 1, status: 'sent' },
+			]);
+			assert.equal(prod.requests[0]?.query.measurement_id, 'G-PROD');
+			assert.equal(staging.requests[0]?.query.measurement_id, 'G-STAGING');
+		});
+
+		it('should narrow payloads to the events each route selects', async () => {
+			const prod = new GA4RecordingTransport();
+			const eu = new GA4RecordingTransport();
+			const router = new GA4Router({
+				destinations: [
+					{ ...destination('prod', prod), route: { events: ['purchase'] } },
+					{
+						...destination('eu', eu),
+						route: [
+							{ userProperties: { region: 'eu' }, params: { value: (v) => Number(v) > 10 } },
+							{ params: { currency: 'EUR' } },
+						],
+					},
+					{ ...destination('none'), route: () => false },
+				],
+			});
+			const user_properties = { region: { value: 'eu' } };
+
+			const results = await router.send({
+				client_id: 'c1',
+				user_properties,
+				events: [
+					{ name: 'purchase', params: { value: 5, currency: 'USD' } },
+					{ name: 'refund', params: { value: 20 } },
+					{ name: 'add_to_cart', params: { currency: 'EUR' } },
+				],
+			});
+
+			assert.deepEqual(
+				results.map((r) => [r.destination, r.status, r.events]),
+				[
+					['prod', 'sent', 1],
+					['eu', 'sent', 2],
+					['none', 'skipped', 0],
+				],
+			);
+			assert.deepEqual(
+				prod.events().map((e) => e.name),
+				['purchase'],
+			);
+			assert.deepEqual(
+				eu.events().map((e) => e.name),
+				['refund', 'add_to_cart'],
+			);
+		});
+
+		it('should apply middleware per destination', async () => {
+			const prod = new GA4RecordingTransport();
+			const mirror = new GA4RecordingTransport();
+			const router = new GA4Router({
+				destinations: [
+					destination('prod', prod),
+					{ ...destination('mirror', mirror), middleware: [defaultParams({ mirrored: 'yes' })] },
+				],
+			});
+
+			await router.send({ client_id: 'c1', events: [{ name: 'login' }] });
+
+			assert.equal(prod.events()[0]?.params, undefined);
+			mirror.assertEventSent('login', { mirrored: 'yes' });
+		});
+
+		it('should isolate a failing destination', async () => {
+			const prod = new GA4RecordingTransport();
+			const staging = new GA4RecordingTransport().failNext({ type: 'client-error', status: 403 });
+			const onError = mock.fn();
+			const router = new GA4Router({
+				destinations: [destination('staging', staging), destination('prod', prod)],
+				onError,
+			});
+
+			const [failed, sent] = await router.send({ client_id: 'c1', events: [{ name: 'login' }] });
+
+			assert.equal(failed?.status, 'failed');
+			assert.ok(failed?.error instanceof GA4Error);
+			assert.equal(sent?.status, 'sent');
+			assert.equal(prod.events().length, 1);
+			assert.equal(onError.mock.calls[0]?.arguments[1], 'staging');
+		});
+	});
+
+	describe('batching', () => {
+		it('should queue for batched destinations and report flushed events', async () => {
+			const prod = new GA4RecordingTransport();
+			const staging = new GA4RecordingTransport();
+			const onFlush = mock.fn();
+			const router = new GA4Router({
+				destinations: [
+					{ ...destination('prod', prod), batch: { batchSize: 10, onFlush } },
+					destination('staging', staging),
+				],
+			});
+
+			const [queued] = await router.send({ client_id: 'c1', events: [{ name: 'login' }, { name: 'search' }] });
+			await router.send({ client_id: 'c2', events: [{ name: 'login' }] });
+
+			assert.equal(queued?.status, 'queued');
+			assert.equal(prod.requests.length, 0);
+			assert.equal(staging.requests.length, 2);
+			assert.equal(router.destination('prod').batch?.size, 2);
+
+			assert.deepEqual(await router.flush(), [
+				{ destination: 'prod', status: 'sent', events: 3, failed: 0, deadLettered: 0, expired: 0 },
+			]);
+			assert.equal(prod.requests.length, 2);
+			assert.equal(onFlush.mock.callCount(), 2);
+			assert.deepEqual(await router.stop(), [{ destination: 'prod', status: 'skipped', events: 0 }]);
+		});
+
+		it('should report a failed flush without affecting other destinations', async () => {
+			const failing = new GA4RecordingTransport().failNext({ type: 'server-error' }, 10);
+			const router = new GA4Router({
+				destinations: [
+					{ ...destination('failing', failing), batch: { maxRetries: 0 } },
+					{ ...destination('prod'), batch: {} },
+				],
+			});
+
+			await router.send({ client_id: 'c1', events: [{ name: 'login' }] });
+			const [failed, sent] = await router.flush();
+
+			assert.equal(failed?.status, 'failed');
+			assert.equal(failed?.failed, 1);
+			assert.equal(router.destination('failing').batch?.size, 1);
+			assert.deepEqual(sent, {
+				destination: 'prod',
+				status: 'sent',
+				events: 1,
+				failed: 0,
+				deadLettered: 0,
+				expired: 0,
+			});
+		});
+
+		it('should report a payload as queued when the automatic flush it triggers fails', async () => {
+			const transport = new GA4RecordingTransport().failNext({ type: 'server-error' });
+			const onError = mock.fn();
+			const router = new GA4Router({
+				destinations: [{ ...destination('prod', transport), batch: { batchSize: 1, maxRetries: 0 } }],
+				onError,
+			});
+
+			const [result] = await router.send({ client_id: 'c1', events: [{ name: 'login' }] });
+
+			assert.equal(result?.status, 'queued');
+			assert.equal(result?.events, 1);
+			assert.ok(result?.error instanceof GA4Error);
+			assert.equal(onError.mock.callCount(), 1);
+			assert.equal(router.destination('prod').batch?.size, 1);
+			assert.deepEqual(await router.flush(), [
+				{ destination: 'prod', status: 'sent', events: 1, failed: 0, deadLettered: 0, expired: 0 },
+			]);
+		});
+
+		it('should report dead-lettered payloads as a failed flush', async () => {
+			const transport = new GA4RecordingTransport().failNext({ type: 'client-error' });
+			const router = new GA4Router({ destinations: [{ ...destination('prod', transport), batch: {} }] });
+
+			await router.send({ client_id: 'c1', events: [{ name: 'login' }] });
+			await router.send({ client_id: 'c2', events: [{ name: 'login' }] });
+			const [result] = await router.flush();
+
+			assert.equal(result?.status, 'failed');
+			assert.ok(result?.error instanceof GA4Error);
+			assert.deepEqual(
+				{ ...result, error: undefined },
+				{
+					destination: 'prod',
+					status: 'failed',
+					events: 1,
+					failed: 0,
+					deadLettered: 1,
+					expired: 0,
+					error: undefined,
+				},
+			);
+		});
+
+		it('should count each flushed event once when flushes overlap', async () => {
+			const router = new GA4Router({ destinations: [{ ...destination('prod'), batch: {} }] });
+
+			await router.send({ client_id: 'c1', events: [{ name: 'login' }, { name: 'search' }] });
+			const results = await Promise.all([router.flush(), router.flush()]);
+
+			assert.deepEqual(
+				results.map(([result]) => [result?.status, result?.events]),
+				[
+					['sent', 2],
+					['skipped', 0],
+				],
+			);
+		});
+	});
+
+	it('should look up destinations by name', () => {
+		const router = new GA4Router({ destinations: [destination('prod')] });
+		assert.deepEqual(router.names, ['prod']);
+		assert.equal(router.destination('prod').batch, undefined);
+		assert.throws(() => router.destination('missing'), /Unknown destination/);
+	});
+});
@@ -0,0 +1,224 @@
+/**
+ * GA4 Router - fans events out to several GA4 properties, each with its own routing, transforms and batching.
+ */
+
+import { GA4BatchHandler } from './batch.js';
+import { GA4Client } from './client.js';
+import { GA4Error, GA4ErrorCode } from './errors.js';
+import type {
+	GA4BatchEvents,
+	GA4Event,
+	GA4EventItem,
+	GA4EventMap,
+	GA4Route,
+	GA4RouteMatcher,
+	GA4RouteResult,
+	GA4RouteRule,
+	GA4RouterOptions,
+	GA4TypedEvent,
+	RetryOptions,
+} from './types.js';
+
+/** A destination's client, its batch handler if it queues, and how to pick its events. */
+interface Destination<S extends GA4EventMap> {
+	name: string;
+	route?: GA4Route;
+	client: GA4Client<S>;
+	batch?: GA4BatchHandler<S>;
+	retry?: RetryOptions;
+	/** Events sent and the first error of the batch handler's current flush. Its flushes never overlap. */
+	flushed: { events: number; error?: Error };
+}
+
+/**
+ * Sends each payload to every destination whose route matches, instead of one GA4Client per property.
+ * A payload is narrowed to the events each destination's route selects. Destinations are sent to
+ * concurrently and fail independently: `send` and `flush` resolve with one result per destination
+ * rather than rejecting.
+ * @example
+ * const router = new GA4Router({
+ *   destinations: [
+ *     { name: 'production', measurementId: 'G-PROD', apiSecret, batch: { batchSize: 25 } },
+ *     { name: 'staging', measurementId: 'G-STAGING', apiSecret: stagingSecret },
+ *     {
+ *       name: 'eu',
+ *       measurementId: 'G-EU',
+ *       apiSecret: euSecret,
+ *       route: { userProperties: { region: 'eu' } },
+ *       middleware: [defaultParams({ mirrored_from: 'production' })],
+ *     },
+ *   ],
+ *   onError: (error, destination) => console.error(`${destination}: ${error.message}`),
+ * });
+ * const results = await router.send({ client_id, events: [{ name: 'purchase', params: { value: 9.99 } }] });
+ */
+export class GA4Router<S extends GA4EventMap = GA4EventMap> {
+	private readonly destinations: Destination<S>[] = [];
+	private readonly onError?: (error: Error, destination: string) => void;
+
+	constructor(options: GA4RouterOptions<S>) {
+		if (!options.destinations.length) {
+			throw new GA4Error(GA4ErrorCode.Validation, 'At least one destination is required');
+		}
+
+		for (const { name, route, middleware = [], batch: batchOptions, retry, ...clientOptions } of options.destinations) {
+			if (this.destinations.some((d) => d.name === name)) {
+				throw new GA4Error(GA4ErrorCode.Validation, `Duplicate destination name: ${name}`);
+			}
+
+			const client = new GA4Client<S>(clientOptions);
+			const destination: Destination<S> = { name, route, client, retry, flushed: { events: 0 } };
+			if (batchOptions) {
+				destination.batch = new GA4BatchHandler(client, {
+					...batchOptions,
+					onFlush: (events) => {
+						destination.flushed.events += countEvents(events);
+						batchOptions.onFlush?.(events);
+					},
+					onError: (error, events) => {
+						destination.flushed.error ??= error;
+						batchOptions.onError?.(error, events);
+					},
+				});
+				destination.batch.on('flush:start', () => {
+					destination.flushed = { events: 0 };
+				});
+			}
+			(destination.batch ?? client).use(...middleware);
+			this.destinations.push(destination);
+		}
+		this.onError = options.onError;
+	}
+
+	/**
+	 * Send (or queue, for batched destinations) the events each destination's route selects.
+	 * Resolves with one result per destination once all of them have finished.
+	 */
+	async send(event: GA4TypedEvent<S>): Promise<GA4RouteResult[]> {
+		return Promise.all(
+			this.destinations.map(async (destination): Promise<GA4RouteResult> => {
+				const items = event.events.filter((item) => matches(destination.route, item, event));
+				const result = { destination: destination.name, events: items.length };
+				if (!items.length) return { ...result, status: 'skipped' };
+
+				const routed = items.length === event.events.length ? event : { ...event, events: items };
+				try {
+					if (destination.batch) {
+						// A failed automatic flush keeps the payload queued, so it is still reported as queued.
+						const error = await destination.batch.tryAdd(routed);
+						if (error === undefined) return { ...result, status: 'queued' };
+						return { ...this.failed(destination, error), ...result, status: 'queued' };
+					}
+					await destination.client.sendWithRetry([routed], destination.retry);
+					return { ...result, status: 'sent' };
+				} catch (error) {
+					return this.failed(destination, error);
+				}
+			}),
+		);
+	}
+
+	/** Flush every batched destination; destinations that send right away are not included. */
+	async flush(): Promise<GA4RouteResult[]> {
+		return Promise.all(this.batched().map((destination) => this.flushDestination(destination)));
+	}
+
+	/** Start periodic flushing of every batched destination. */
+	start(): void {
+		for (const { batch } of this.batched()) batch.start();
+	}
+
+	/** Stop periodic flushing and flush what is left, per destination. */
+	async stop(): Promise<GA4RouteResult[]> {
+		return Promise.all(this.batched().map((destination) => this.flushDestination(destination, true)));
+	}
+
+	/**
+	 * The client and batch handler behind a destination, e.g. to read its dead letters.
+	 * @example
+	 * const letters = await router.destination('production').batch?.deadLetters();
+	 */
+	destination(name: string): { client: GA4Client<S>; batch?: GA4BatchHandler<S> } {
+		const destination = this.destinations.find((d) => d.name === name);
+		if (!destination) throw new GA4Error(GA4ErrorCode.Validation, `Unknown destination: ${name}`);
+		return { client: destination.client, batch: destination.batch };
+	}
+
+	/** Destination names, in configuration order. */
+	get names(): string[] {
+		return this.destinations.map((d) => d.name);
+	}
+
+	private batched(): Array<Destination<S> & { batch: GA4BatchHandler<S> }> {
+		return this.destinations.filter((d): d is Destination<S> & { batch: GA4BatchHandler<S> } => !!d.batch);
+	}
+
+	/**
+	 * Flush one destination and report what that flush did, from its `flush:end` data. A call that finds the
+	 * queue empty, or another flush of the destination in progress, reports `skipped`.
+	 */
+	private async flushDestination(
+		destination: Destination<S> & { batch: GA4BatchHandler<S> },
+		stop = false,
+	): Promise<GA4RouteResult> {
+		let flush: GA4BatchEvents['flush:end'] | undefined;
+		let error: unknown;
+		const off = destination.batch.on('flush:end', (data) => {
+			flush ??= data;
+		});
+		try {
+			await (stop ? destination.batch.stop() : destination.batch.flush());
+		} catch (e) {
+			error = e;
+		} finally {
+			off();
+		}
+
+		if (!flush)
+			return error === undefined
+				? { destination: destination.name, status: 'skipped', events: 0 }
+				: this.failed(destination, error);
+
+		const { failed, deadLettered, expired } = flush;
+		const result = { destination: destination.name, events: destination.flushed.events, failed, deadLettered, expired };
+		error ??= flush.error ?? destination.flushed.error;
+		if (error === undefined && expired) {
+			error = new GA4Error(GA4ErrorCode.Validation, `${expired} queued payloads expired before they were sent`);
+		}
+		return error === undefined ? { ...result, status: 'sent' } : { ...this.failed(destination, error), ...result };
+	}
+
+	private failed(destination: Destination<S>, error: unknown): GA4RouteResult {
+		const err = error instanceof Error ? error : new Error(String(error));
+		this.onError?.(err, destination.name);
+		return { destination: destination.name, status: 'failed', events: 0, error: err };
+	}
+}
+
+/** Whether `item` (in `event`) goes to a destination with `route`; no route matches everything. */
+function matches(route: GA4Route | undefined, item: GA4EventItem, event: GA4Event): boolean {
+	if (!route) return true;
+	if (typeof route === 'function') return route(item, event);
+	if (Array.isArray(route)) return route.some((rule) => matchesRule(rule, item, event));
+	return matchesRule(route, item, event);
+}
+
+function matchesRule(rule: GA4RouteRule, item: GA4EventItem, event: GA4Event): boolean {
+	if (rule.events && !rule.events.includes(item.name)) return false;
+	for (const [key, matcher] of Object.entries(rule.params ?? {})) {
+		if (!matchesValue(matcher, item.params?.[key])) return false;
+	}
+	for (const [key, matcher] of Object.entries(rule.userProperties ?? {})) {
+		if (!matchesValue(matcher, event.user_properties?.[key]?.value)) return false;
+	}
+	return true;
+}
+
+function matchesValue(matcher: GA4RouteMatcher, value: unknown): boolean {
+	if (value === undefined) return false;
+	return typeof matcher === 'function' ? matcher(value) : matcher === value;
+}
+
+function countEvents(payloads: GA4Event[]): number {
+	return payloads.reduce((sum, payload) => sum + payload.events.length, 0);
+}
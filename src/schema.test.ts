@@ -0,0 +1,77 @@
+import assert from 'node:assert/strict';
+import { describe, it, mock } from 'node:test';
+import { GA4BatchHandler } from './batch.js';
+import { GA4Client } from './client.js';
+import { GA4ValidationError } from './errors.js';
+import { defineEventSchema } from './schema.js';
+
+describe('defineEventSchema', () => {
+	const schema = defineEventSchema({
+		purchase: { transaction_id: 'string', value: 'number', currency: 'string', coupon: 'string?' },
+		signup: { method: 'string?' },
+	});
+
+	it('should accept events matching the schema', () => {
+		assert.equal(
+			schema.check({ name: 'purchase', params: { transaction_id: 'T-1', value: 1, currency: 'USD' } }, 'e'),
+			undefined,
+		);
+		assert.equal(schema.check({ name: 'signup' }, 'e'), undefined);
+	});
+
+	it('should reject unknown events', () => {
+		assert.deepEqual(schema.check({ name: 'purchse' }, 'events[0]'), {
+			fieldPath: 'events[0].name',
+			description: 'Unknown event: purchse',
+		});
+	});
+
+	it('should reject missing and mistyped params', () => {
+		assert.equal(
+			schema.check({ name: 'purchase', params: { value: 1, currency: 'USD' } }, 'e')?.fieldPath,
+			'e.params.transaction_id',
+		);
+		assert.equal(
+			schema.check({ name: 'purchase', params: { transaction_id: 'T-1', value: '1', currency: 'USD' } }, 'e')
+				?.fieldPath,
+			'e.params.value',
+		);
+	});
+
+	describe('with GA4Client', () => {
+		it('should validate before sending', async () => {
+			const mockFetch = mock.fn(async () => ({ ok: true, status: 204 }));
+			const client = new GA4Client({
+				measurementId: 'G-TEST',
+				apiSecret: 'secret',
+				schema,
+				fetch: mockFetch as unknown as typeof fetch,
+			});
+
+			await client.send({ client_id: 'test', events: [{ name: 'signup', params: { method: 'email' } }] });
+			await assert.rejects(
+				client.send({ client_id: 'test', events: [{ name: 'purchase', params: { transaction_id: 'T-1' } }] } as never),
+				GA4ValidationError,
+			);
+			assert.equal(mockFetch.mock.callCount(), 1);
+		});
+
+		it('should drop invalid events in repair mode', async () => {
+			const mockFetch = mock.fn(async () => ({ ok: true, status: 204 }));
+			const client = new GA4Client({
+				measurementId: 'G-TEST',
+				apiSecret: 'secret',
+				schema,
+				validation: 'repair',
+				fetch: mockFetch as unknown as typeof fetch,
+			});
+			const batch = new GA4BatchHandler(client);
+
+			await batch.add({ client_id: 'test', events: [{ name: 'signup' }, { name: 'purchse' } as never] });
+			await batch.flush();
+
+			const body = JSON.parse(mockFetch.mock.calls[0]?.arguments[1]?.body as string);
+			assert.deepEqual(body.events, [{ name: 'signup' }]);
+		});
+	});
+});
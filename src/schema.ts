@@ -0,0 +1,86 @@
+/**
+ * GA4 Event Schema - declare custom events once for compile-time types and runtime validation.
+ */
+
+import type { GA4EventItem, GA4EventSchema, GA4Item } from './types.js';
+
+type ParamKind = 'string' | 'number' | 'boolean' | 'string[]' | 'items';
+
+/** Parameter type descriptor; a trailing `?` marks the parameter optional (e.g., "number?"). */
+export type GA4ParamSpec = ParamKind | `${ParamKind}?`;
+
+/** Event schema declaration: event name → parameter name → descriptor. */
+export type GA4SchemaDefinition = Record<string, Record<string, GA4ParamSpec>>;
+
+type KindType<K> = K extends 'string'
+	? string
+	: K extends 'number'
+		? number
+		: K extends 'boolean'
+			? boolean
+			: K extends 'string[]'
+				? string[]
+				: K extends 'items'
+					? GA4Item[]
+					: never;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type InferParams<P extends Record<string, GA4ParamSpec>> = Simplify<
+	{ [K in keyof P as P[K] extends `${string}?` ? never : K]: KindType<P[K]> } & {
+		[K in keyof P as P[K] extends `${string}?` ? K : never]?: P[K] extends `${infer B}?` ? KindType<B> : never;
+	}
+>;
+
+/** Event map inferred from a schema declaration. */
+export type InferEventMap<D extends GA4SchemaDefinition> = { [N in keyof D & string]: InferParams<D[N]> };
+
+/**
+ * Declare a custom event schema. Pass the result as `schema` to GA4Client to type
+ * `send`/`sendBatch` and validate events at runtime before sending.
+ * @example
+ * const schema = defineEventSchema({
+ *   purchase: { transaction_id: 'string', value: 'number', currency: 'string', coupon: 'string?' },
+ *   signup: { method: 'string' },
+ * });
+ * const client = new GA4Client({ measurementId, apiSecret, schema }); // GA4Client<InferEventMap<...>>
+ */
+export function defineEventSchema<const D extends GA4SchemaDefinition>(
+	definition: D,
+): GA4EventSchema<InferEventMap<D>> {
+	return {
+		check(item: GA4EventItem, path: string) {
+			const params = definition[item.name];
+			if (!params) return { fieldPath: `${path}.name`, description: `Unknown event: ${item.name}` };
+
+			for (const [key, spec] of Object.entries(params)) {
+				const fieldPath = `${path}.params.${key}`;
+				const optional = spec.endsWith('?');
+				const kind = (optional ? spec.slice(0, -1) : spec) as ParamKind;
+				const value = item.params?.[key];
+
+				if (value === undefined) {
+					if (optional) continue;
+					return { fieldPath, description: `${key} is required for ${item.name}` };
+				}
+				if (!matches(kind, value)) return { fieldPath, description: `${key} must be ${kind}` };
+			}
+			return undefined;
+		},
+	} as GA4EventSchema<InferEventMap<D>>;
+}
+
+function matches(kind: ParamKind, value: unknown): boolean {
+	switch (kind) {
+		case 'string[]':
+			return Array.isArray(value) && value.every((v) => typeof v === 'string');
+		case 'items':
+			return Array.isArray(value) && value.every((v) => typeof v === 'object' && v !== null);
+		case 'string':
+			return typeof value === 'string';
+		case 'number':
+			return typeof value === 'number';
+		case 'boolean':
+			return typeof value === 'boolean';
+	}
+}
@@ -0,0 +1,159 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { GA4Client } from './client.js';
+import { GA4Error } from './errors.js';
+import { defineEventSchema } from './schema.js';
+import { GA4MemorySessionStore, GA4SessionManager } from './session.js';
+import { GA4RecordingTransport } from './testing.js';
+import { GA4, type GA4Session } from './types.js';
+
+describe('sessions', () => {
+	const start = Date.UTC(2024, 0, 1);
+	const minutes = (n: number) => n * 60 * 1000;
+
+	describe('GA4SessionManager', () => {
+		it('should keep a session alive until the inactivity timeout', async () => {
+			const sessions = new GA4SessionManager();
+
+			const first = await sessions.touch('c', start);
+			const second = await sessions.touch('c', start + minutes(10));
+			const third = await sessions.touch('c', start + minutes(45));
+
+			assert.deepEqual([first.isNew, second.isNew, third.isNew], [true, false, true]);
+			assert.equal(first.session.session_id, String(start / 1000));
+			assert.equal(second.session.session_id, first.session.session_id);
+			assert.equal(second.engagementTimeMsec, minutes(10));
+			assert.equal(third.session.session_number, 2);
+		});
+
+		it('should start a new session after end()', async () => {
+			const sessions = new GA4SessionManager({ timeoutMs: minutes(5) });
+			await sessions.touch('c', start);
+			await sessions.end('c');
+
+			const next = await sessions.touch('c', start + 1000);
+			assert.equal(next.isNew, true);
+			assert.equal(next.session.session_number, 2);
+			assert.equal(await sessions.get('c', start + minutes(10)), undefined);
+		});
+
+		it('should end sessions in stores that serialize to JSON', async () => {
+			const saved = new Map<string, string>();
+			const store = {
+				get: async (key: string) => {
+					const json = saved.get(key);
+					return json === undefined ? undefined : JSON.parse(json);
+				},
+				set: async (key: string, session: GA4Session) => void saved.set(key, JSON.stringify(session)),
+				delete: async (key: string) => void saved.delete(key),
+			};
+			const sessions = new GA4SessionManager({ store });
+			await sessions.touch('c', start);
+			await sessions.end('c');
+
+			assert.equal(await sessions.get('c', start + 1000), undefined);
+			const next = await sessions.touch('c', start + 1000);
+			assert.equal(next.isNew, true);
+			assert.equal(next.engagementTimeMsec, 1);
+		});
+
+		it('should apply concurrent activity for one client in order', async () => {
+			const sessions = new GA4SessionManager();
+			const results = await Promise.all([sessions.touch('c', start), sessions.touch('c', start + 1000)]);
+			assert.deepEqual(
+				results.map((r) => r.isNew),
+				[true, false],
+			);
+		});
+
+		it('should inject session params and a start marker', async () => {
+			const sessions = new GA4SessionManager({ sessionStartEvent: 'server_session_start' });
+			const middleware = sessions.middleware();
+			const context = { stage: 'send' as const, metadata: {} };
+			const timestamp_micros = start * 1000;
+
+			const first = await middleware(
+				{ client_id: 'c', timestamp_micros, events: [{ name: 'page_view' }, { name: 'scroll' }] },
+				context,
+			);
+			const second = await middleware(
+				{
+					client_id: 'c',
+					timestamp_micros: timestamp_micros + 5_000_000,
+					events: [{ name: 'click', params: { engagement_time_msec: 100 } }],
+				},
+				context,
+			);
+
+			const session_id = String(start / 1000);
+			assert.deepEqual(first?.events, [
+				{ name: 'server_session_start', params: { session_id, session_number: 1, engagement_time_msec: 1 } },
+				{ name: 'page_view', params: { session_id, engagement_time_msec: 1 } },
+				{ name: 'scroll', params: { session_id, engagement_time_msec: 1 } },
+			]);
+			assert.deepEqual(second?.events, [{ name: 'click', params: { session_id, engagement_time_msec: 100 } }]);
+		});
+
+		it('should send a start marker that overflows a full payload in a separate request', async () => {
+			const transport = new GA4RecordingTransport();
+			const client = new GA4Client({ measurementId: 'G-TEST', apiSecret: 'secret', transport });
+			client.use(new GA4SessionManager({ sessionStartEvent: 'server_session_start' }).middleware());
+
+			const events = Array.from({ length: GA4.MAX_EVENTS }, (_, i) => ({ name: `event_${i}` }));
+			await client.send({ client_id: 'c', events });
+
+			assert.deepEqual(
+				transport.requests.map((r) => r.body.events.length),
+				[GA4.MAX_EVENTS, 1],
+			);
+			assert.equal(transport.requests[0]?.body.events[0].name, 'server_session_start');
+		});
+
+		it('should validate the start marker against the client schema', async () => {
+			const transport = new GA4RecordingTransport();
+			const options = { measurementId: 'G-TEST', apiSecret: 'secret', transport };
+			const middleware = () => new GA4SessionManager({ sessionStartEvent: 'server_session_start' }).middleware();
+			const signup = { client_id: 'c', events: [{ name: 'signup', params: { method: 'email' } }] };
+
+			const declared = defineEventSchema({
+				server_session_start: { session_id: 'string', session_number: 'number' },
+				signup: { method: 'string' },
+			});
+			await new GA4Client({ ...options, schema: declared }).use(middleware()).send(signup);
+			assert.deepEqual(
+				transport.requests[0]?.body.events.map((e: { name: string }) => e.name),
+				['server_session_start', 'signup'],
+			);
+
+			const undeclared = defineEventSchema({ signup: { method: 'string' } });
+			await new GA4Client({ ...options, schema: undeclared }).use(middleware()).send(signup);
+			assert.deepEqual(
+				transport.requests[1]?.body.events.map((e: { name: string }) => e.name),
+				['signup'],
+			);
+			await assert.rejects(
+				new GA4Client({ ...options, schema: undeclared, validation: 'strict' }).use(middleware()).send(signup),
+				/Unknown event: server_session_start/,
+			);
+		});
+
+		it('should reject session_start as marker name', () => {
+			assert.throws(() => new GA4SessionManager({ sessionStartEvent: 'session_start' }), GA4Error);
+		});
+	});
+
+	describe('GA4MemorySessionStore', () => {
+		it('should evict the least recently active client', async () => {
+			const store = new GA4MemorySessionStore({ maxSize: 2 });
+			const sessions = new GA4SessionManager({ store });
+			await sessions.touch('a', start);
+			await sessions.touch('b', start);
+			await sessions.touch('a', start + 1000);
+			await sessions.touch('c', start);
+
+			assert.equal(store.size, 2);
+			assert.equal(await store.get('b'), undefined);
+			assert.ok(await store.get('a'));
+		});
+	});
+});
@@ -0,0 +1,165 @@
+/**
+ * GA4 Sessions - server-side session tracking for session_id and engagement_time_msec.
+ */
+
+import { GA4Error, GA4ErrorCode } from './errors.js';
+import {
+	GA4,
+	type GA4EventItem,
+	type GA4Middleware,
+	type GA4Session,
+	type GA4SessionActivity,
+	type GA4SessionOptions,
+	type GA4SessionStore,
+} from './types.js';
+
+/** `lastActivityAt` of an ended session; not -Infinity, which JSON-based stores turn into null. */
+const ENDED = 0;
+
+/**
+ * In-memory sessions; the least recently active client is evicted beyond `maxSize`.
+ * @example
+ * const store = new GA4MemorySessionStore({ maxSize: 50_000 });
+ */
+export class GA4MemorySessionStore implements GA4SessionStore {
+	private readonly maxSize: number;
+	private readonly sessions = new Map<string, GA4Session>();
+
+	constructor(options: { maxSize?: number } = {}) {
+		this.maxSize = options.maxSize ?? GA4.MAX_SESSIONS;
+	}
+
+	async get(key: string): Promise<GA4Session | undefined> {
+		return this.sessions.get(key);
+	}
+
+	async set(key: string, session: GA4Session): Promise<void> {
+		this.sessions.delete(key);
+		this.sessions.set(key, session);
+		if (this.sessions.size > this.maxSize) {
+			const oldest = this.sessions.keys().next().value as string;
+			this.sessions.delete(oldest);
+		}
+	}
+
+	async delete(key: string): Promise<void> {
+		this.sessions.delete(key);
+	}
+
+	/** Number of stored sessions. */
+	get size(): number {
+		return this.sessions.size;
+	}
+}
+
+/**
+ * Tracks sessions per client_id (or app_instance_id): a new session starts after `timeoutMs` of inactivity.
+ * @example
+ * const sessions = new GA4SessionManager({ timeoutMs: 30 * 60 * 1000 });
+ * client.use(sessions.middleware());
+ */
+export class GA4SessionManager {
+	private readonly timeoutMs: number;
+	private readonly store: GA4SessionStore;
+	private readonly sessionStartEvent?: string;
+	private readonly locks = new Map<string, Promise<unknown>>();
+
+	constructor(options: GA4SessionOptions = {}) {
+		if (options.sessionStartEvent === 'session_start') {
+			throw new GA4Error(GA4ErrorCode.Validation, 'session_start is reserved by GA4; use a custom marker name');
+		}
+
+		this.timeoutMs = options.timeoutMs ?? GA4.SESSION_TIMEOUT_MS;
+		this.store = options.store ?? new GA4MemorySessionStore();
+		this.sessionStartEvent = options.sessionStartEvent;
+	}
+
+	/**
+	 * Record activity for a client at `at` (ms since Unix epoch), starting a new session when the
+	 * previous one timed out. Calls for the same client are applied one at a time.
+	 */
+	touch(clientId: string, at: number = Date.now()): Promise<GA4SessionActivity> {
+		return this.exclusive(clientId, async () => {
+			const previous = await this.store.get(clientId);
+
+			if (previous && isActive(previous, at, this.timeoutMs)) {
+				const session = { ...previous, lastActivityAt: Math.max(previous.lastActivityAt, at) };
+				await this.store.set(clientId, session);
+				return { session, isNew: false, engagementTimeMsec: Math.max(1, at - previous.lastActivityAt) };
+			}
+
+			const session: GA4Session = {
+				session_id: Math.floor(at / 1000).toString(),
+				session_number: (previous?.session_number ?? 0) + 1,
+				startedAt: at,
+				lastActivityAt: at,
+			};
+			await this.store.set(clientId, session);
+			return { session, isNew: true, engagementTimeMsec: 1 };
+		});
+	}
+
+	/** Current session of a client, if it has not timed out. */
+	async get(clientId: string, at: number = Date.now()): Promise<GA4Session | undefined> {
+		const session = await this.store.get(clientId);
+		return session && isActive(session, at, this.timeoutMs) ? session : undefined;
+	}
+
+	/** End a client's session; its next event starts a new one. The session count is kept. */
+	end(clientId: string): Promise<void> {
+		return this.exclusive(clientId, async () => {
+			const session = await this.store.get(clientId);
+			if (session) await this.store.set(clientId, { ...session, lastActivityAt: ENDED });
+		});
+	}
+
+	/**
+	 * Middleware that adds `session_id` and `engagement_time_msec` to every event that lacks them.
+	 * The payload's engagement time goes on its first event (1 ms on the others, so each still counts
+	 * for Realtime reports). Activity time is the payload's `timestamp_micros`, or now. A start marker can
+	 * take a payload past 25 events; GA4Client and GA4BatchHandler send the overflow in a separate request.
+	 */
+	middleware(): GA4Middleware {
+		return async (event) => {
+			const clientId = event.client_id ?? event.app_instance_id;
+			if (!clientId) return event;
+
+			const at = event.timestamp_micros === undefined ? Date.now() : Math.floor(event.timestamp_micros / 1000);
+			const { session, isNew, engagementTimeMsec } = await this.touch(clientId, at);
+
+			const events: GA4EventItem[] = event.events.map((item, i) => ({
+				...item,
+				params: {
+					session_id: session.session_id,
+					engagement_time_msec: i === 0 ? engagementTimeMsec : 1,
+					...item.params,
+				},
+			}));
+			if (isNew && this.sessionStartEvent) {
+				events.unshift({
+					name: this.sessionStartEvent,
+					params: { session_id: session.session_id, session_number: session.session_number, engagement_time_msec: 1 },
+				});
+			}
+			return { ...event, events };
+		};
+	}
+
+	/** Run `operation` after earlier operations for the same client finished. */
+	private exclusive<T>(key: string, operation: () => Promise<T>): Promise<T> {
+		const previous = this.locks.get(key) ?? Promise.resolve();
+		const result = previous.then(operation, operation);
+		const settled = result.catch(() => undefined);
+		this.locks.set(key, settled);
+		settled.then(() => {
+			if (this.locks.get(key) === settled) this.locks.delete(key);
+		});
+		return result;
+	}
+}
+
+/** Whether activity at `at` continues `session`; ended sessions and sessions without activity never do. */
+function isActive(session: GA4Session, at: number, timeoutMs: number): boolean {
+	const last = session.lastActivityAt;
+	return typeof last === 'number' && last > ENDED && at - last < timeoutMs;
+}
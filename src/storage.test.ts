@@ -0,0 +1,116 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { GA4BatchHandler } from './batch.js';
+import { GA4Client } from './client.js';
+import { GA4Error, GA4ErrorCode } from './errors.js';
+import { GA4FileQueueStorage } from './storage.js';
+
+describe('GA4FileQueueStorage', () => {
+	let dir: string;
+	let path: string;
+
+	beforeEach(async () => {
+		dir = await mkdtemp(join(tmpdir(), 'ga4-queue-'));
+		path = join(dir, 'queue.log');
+	});
+
+	afterEach(async () => {
+		await rm(dir, { recursive: true, force: true });
+	});
+
+	it('should persist pending entries across instances', async () => {
+		const storage = new GA4FileQueueStorage({ path, fsync: 'always' });
+		const a = await storage.append({ client_id: 'a', events: [{ name: 'e1' }] }, 1000);
+		await storage.append({ client_id: 'b', events: [{ name: 'e2' }] }, 2000);
+		await storage.ack([a]);
+		await storage.close();
+
+		const entries = await new GA4FileQueueStorage({ path }).load();
+		assert.deepEqual(entries, [{ id: '2', event: { client_id: 'b', events: [{ name: 'e2' }] }, enqueuedAt: 2000 }]);
+	});
+
+	it('should compact acknowledged records', async () => {
+		const storage = new GA4FileQueueStorage({ path, compactThreshold: 2 });
+		const ids = [];
+		for (let i = 0; i < 3; i++) ids.push(await storage.append({ client_id: 'a', events: [{ name: `e${i}` }] }, i));
+		await storage.ack(ids.slice(0, 2));
+		await storage.close();
+
+		const lines = (await readFile(path, 'utf8')).trim().split('\n');
+		assert.equal(lines.length, 1);
+		assert.equal(JSON.parse(lines[0] as string).id, ids[2]);
+	});
+
+	it('should ignore a torn last line', async () => {
+		const record = JSON.stringify({
+			op: 'add',
+			id: '1',
+			event: { client_id: 'a', events: [{ name: 'e' }] },
+			enqueuedAt: 1,
+		});
+		await writeFile(path, `${record}\n{"op":"add","id":"2","ev`);
+
+		const storage = new GA4FileQueueStorage({ path });
+		assert.equal((await storage.load()).length, 1);
+		assert.equal(await storage.append({ client_id: 'a', events: [{ name: 'e' }] }, 2), '2');
+		await storage.close();
+	});
+
+	it('should throw QueueFull beyond maxBytes', async () => {
+		const storage = new GA4FileQueueStorage({ path, maxBytes: 100 });
+		try {
+			await storage.append({ client_id: 'a', events: [{ name: 'x'.repeat(100) }] }, 1);
+			assert.fail('Should have thrown');
+		} catch (error) {
+			assert.ok(error instanceof GA4Error);
+			assert.equal(error.code, GA4ErrorCode.QueueFull);
+		}
+		await storage.close();
+	});
+
+	describe('with GA4BatchHandler', () => {
+		const createClient = (fetch: unknown) =>
+			new GA4Client({ measurementId: 'G-TEST', apiSecret: 'secret', fetch: fetch as typeof globalThis.fetch });
+
+		it('should replay unsent events after restart', async () => {
+			const failing = mock.fn(async () => ({ ok: false, status: 500, text: async () => 'Error' }));
+			const first = new GA4BatchHandler(createClient(failing), {
+				storage: new GA4FileQueueStorage({ path }),
+				maxRetries: 0,
+			});
+			await first.add({ client_id: 'a', events: [{ name: 'e1' }] });
+			await assert.rejects(first.stop());
+
+			const mockFetch = mock.fn(async () => ({ ok: true, status: 204 }));
+			const storage = new GA4FileQueueStorage({ path });
+			const second = new GA4BatchHandler(createClient(mockFetch), { storage });
+			await second.flush();
+
+			assert.equal(mockFetch.mock.callCount(), 1);
+			const body = JSON.parse(mockFetch.mock.calls[0]?.arguments[1]?.body as string);
+			assert.equal(body.client_id, 'a');
+			assert.ok(body.timestamp_micros > 0);
+			assert.equal(storage.size, 0);
+			await second.stop();
+		});
+
+		it('should drop events older than the backdate window', async () => {
+			const storage = new GA4FileQueueStorage({ path });
+			await storage.append({ client_id: 'a', events: [{ name: 'old' }] }, Date.now() - 73 * 60 * 60 * 1000);
+			await storage.close();
+
+			const mockFetch = mock.fn(async () => ({ ok: true, status: 204 }));
+			const onExpired = mock.fn();
+			const batch = new GA4BatchHandler(createClient(mockFetch), { storage, onExpired });
+			await batch.flush();
+
+			assert.equal(mockFetch.mock.callCount(), 0);
+			assert.equal(onExpired.mock.callCount(), 1);
+			assert.equal(storage.size, 0);
+			await batch.stop();
+		});
+	});
+});
@@ -0,0 +1,280 @@
+/**
+ * GA4 File Storage - durable, file-backed persistence (Node.js only): the batch queue, dead letters
+ * and backfill checkpoints.
+ */
+
+import { appendFile, mkdir, open, readFile, rename, writeFile } from 'node:fs/promises';
+import type { FileHandle } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { GA4Error, GA4ErrorCode } from './errors.js';
+import {
+	GA4,
+	type GA4BackfillCheckpoint,
+	type GA4DeadLetter,
+	type GA4DeadLetterSink,
+	type GA4Event,
+	type GA4FileQueueStorageOptions,
+	type GA4QueueEntry,
+	type GA4QueueStorage,
+} from './types.js';
+
+type LogRecord = ({ op: 'add' } & GA4QueueEntry) | { op: 'ack'; ids: string[] };
+
+/**
+ * File-backed queue: an append-only JSONL log of `add`/`ack` records, compacted to the
+ * pending entries on load and once enough records were acknowledged.
+ * @example
+ * const batch = new GA4BatchHandler(client, {
+ *   storage: new GA4FileQueueStorage({ path: './data/ga4-queue.log' }),
+ * });
+ */
+export class GA4FileQueueStorage implements GA4QueueStorage {
+	private readonly path: string;
+	private readonly fsync: NonNullable<GA4FileQueueStorageOptions['fsync']>;
+	private readonly fsyncIntervalMs: number;
+	private readonly maxBytes: number;
+	private readonly compactThreshold: number;
+
+	private pending = new Map<string, GA4QueueEntry>();
+	private handle: FileHandle | null = null;
+	private timer: ReturnType<typeof setInterval> | null = null;
+	private tail: Promise<unknown> = Promise.resolve();
+	private loaded = false;
+	private dirty = false;
+	private nextId = 1;
+	private bytes = 0;
+	private acked = 0;
+
+	constructor(options: GA4FileQueueStorageOptions) {
+		if (!options.path) throw new GA4Error(GA4ErrorCode.Validation, 'path is required');
+
+		this.path = options.path;
+		this.fsync = options.fsync ?? 'interval';
+		this.fsyncIntervalMs = options.fsyncIntervalMs ?? GA4.QUEUE_FSYNC_INTERVAL_MS;
+		this.maxBytes = options.maxBytes ?? GA4.MAX_QUEUE_BYTES;
+		this.compactThreshold = options.compactThreshold ?? GA4.QUEUE_COMPACT_THRESHOLD;
+	}
+
+	load(): Promise<GA4QueueEntry[]> {
+		return this.serialize(async () => {
+			await this.replay();
+			return [...this.pending.values()];
+		});
+	}
+
+	append(event: GA4Event, enqueuedAt: number): Promise<string> {
+		return this.serialize(async () => {
+			await this.replay();
+
+			const entry: GA4QueueEntry = { id: String(this.nextId++), event, enqueuedAt };
+			const line = `${JSON.stringify({ op: 'add', ...entry })}\n`;
+			const size = Buffer.byteLength(line);
+
+			if (this.bytes + size > this.maxBytes && this.acked) await this.compact();
+			if (this.bytes + size > this.maxBytes) {
+				throw new GA4Error(GA4ErrorCode.QueueFull, `Queue log exceeds ${this.maxBytes} bytes: ${this.path}`);
+			}
+
+			await this.write(line);
+			this.pending.set(entry.id, entry);
+			return entry.id;
+		});
+	}
+
+	ack(ids: string[]): Promise<void> {
+		return this.serialize(async () => {
+			await this.replay();
+
+			const known = ids.filter((id) => this.pending.delete(id));
+			if (!known.length) return;
+
+			await this.write(`${JSON.stringify({ op: 'ack', ids: known })}\n`);
+			this.acked += known.length;
+			if (this.acked >= this.compactThreshold) await this.compact();
+		});
+	}
+
+	close(): Promise<void> {
+		return this.serialize(async () => {
+			if (this.timer) {
+				clearInterval(this.timer);
+				this.timer = null;
+			}
+			await this.closeHandle();
+		});
+	}
+
+	/** Number of entries persisted but not yet acknowledged. */
+	get size(): number {
+		return this.pending.size;
+	}
+
+	private async replay(): Promise<void> {
+		if (this.loaded) return;
+
+		await mkdir(dirname(this.path), { recursive: true });
+		const content = await readFile(this.path, 'utf8').catch((error: NodeJS.ErrnoException) => {
+			if (error.code === 'ENOENT') return '';
+			throw error;
+		});
+
+		for (const line of content.split('\n')) {
+			const record = parseRecord(line);
+			if (record?.op === 'add') {
+				this.pending.set(record.id, { id: record.id, event: record.event, enqueuedAt: record.enqueuedAt });
+				this.nextId = Math.max(this.nextId, Number(record.id) + 1);
+			} else if (record?.op === 'ack') {
+				for (const id of record.ids) this.pending.delete(id);
+			}
+		}
+
+		// Rewrite before appending so a torn last line from a crash can't swallow the next record.
+		await this.compact();
+		this.loaded = true;
+	}
+
+	private async compact(): Promise<void> {
+		const content = [...this.pending.values()].map((e) => `${JSON.stringify({ op: 'add', ...e })}\n`).join('');
+		const tmp = `${this.path}.tmp`;
+
+		await this.closeHandle();
+		const file = await open(tmp, 'w');
+		try {
+			await file.writeFile(content);
+			await file.sync();
+		} finally {
+			await file.close();
+		}
+		await rename(tmp, this.path);
+
+		this.bytes = Buffer.byteLength(content);
+		this.acked = 0;
+	}
+
+	private async write(line: string): Promise<void> {
+		this.handle ??= await open(this.path, 'a');
+		await this.handle.write(line);
+		this.bytes += Buffer.byteLength(line);
+
+		if (this.fsync === 'always') {
+			await this.handle.sync();
+		} else if (this.fsync === 'interval') {
+			this.dirty = true;
+			if (!this.timer) {
+				this.timer = setInterval(() => void this.serialize(() => this.sync()).catch(() => {}), this.fsyncIntervalMs);
+				this.timer.unref();
+			}
+		}
+	}
+
+	private async sync(): Promise<void> {
+		if (!this.handle || !this.dirty) return;
+		await this.handle.sync();
+		this.dirty = false;
+	}
+
+	private async closeHandle(): Promise<void> {
+		if (!this.handle) return;
+		await this.sync();
+		await this.handle.close();
+		this.handle = null;
+	}
+
+	/** Run file operations one at a time, in call order. */
+	private serialize<T>(operation: () => Promise<T>): Promise<T> {
+		const result = this.tail.then(operation, operation);
+		this.tail = result.catch(() => undefined);
+		return result;
+	}
+}
+
+/**
+ * Dead letters appended to a JSONL file, one letter per line.
+ * @example
+ * const deadLetter = new GA4FileDeadLetterSink({ path: './data/ga4-dead-letters.jsonl' });
+ */
+export class GA4FileDeadLetterSink implements GA4DeadLetterSink {
+	private readonly path: string;
+	private tail: Promise<unknown> = Promise.resolve();
+
+	constructor(options: { path: string }) {
+		this.path = options.path;
+	}
+
+	write(letters: GA4DeadLetter[]): Promise<void> {
+		return this.serialize(async () => {
+			await mkdir(dirname(this.path), { recursive: true });
+			await appendFile(this.path, letters.map((l) => `${JSON.stringify(l)}\n`).join(''));
+		});
+	}
+
+	read(): Promise<GA4DeadLetter[]> {
+		return this.serialize(() => this.load());
+	}
+
+	remove(ids: string[]): Promise<void> {
+		return this.serialize(async () => {
+			const removed = new Set(ids);
+			const kept = (await this.load()).filter((l) => !removed.has(l.id));
+			const tmp = `${this.path}.tmp`;
+			await writeFile(tmp, kept.map((l) => `${JSON.stringify(l)}\n`).join(''));
+			await rename(tmp, this.path);
+		});
+	}
+
+	private async load(): Promise<GA4DeadLetter[]> {
+		const content = await readFile(this.path, 'utf8').catch((error: NodeJS.ErrnoException) => {
+			if (error.code === 'ENOENT') return '';
+			throw error;
+		});
+		return content
+			.split('\n')
+			.filter(Boolean)
+			.map((line) => JSON.parse(line) as GA4DeadLetter);
+	}
+
+	/** Run file operations one at a time, in call order. */
+	private serialize<T>(operation: () => Promise<T>): Promise<T> {
+		const result = this.tail.then(operation, operation);
+		this.tail = result.catch(() => undefined);
+		return result;
+	}
+}
+
+/**
+ * Checkpoint kept in a small JSON file, replaced atomically on each save.
+ * @example
+ * const checkpoint = new GA4FileBackfillCheckpoint({ path: './data/backfill-checkpoint.json' });
+ */
+export class GA4FileBackfillCheckpoint implements GA4BackfillCheckpoint {
+	private readonly path: string;
+
+	constructor(options: { path: string }) {
+		if (!options.path) throw new GA4Error(GA4ErrorCode.Validation, 'path is required');
+		this.path = options.path;
+	}
+
+	async load(): Promise<number> {
+		const content = await readFile(this.path, 'utf8').catch((error: NodeJS.ErrnoException) => {
+			if (error.code === 'ENOENT') return undefined;
+			throw error;
+		});
+		return content === undefined ? 0 : (JSON.parse(content) as { rows: number }).rows;
+	}
+
+	async save(rows: number): Promise<void> {
+		await mkdir(dirname(this.path), { recursive: true });
+		const tmp = `${this.path}.tmp`;
+		await writeFile(tmp, JSON.stringify({ rows, savedAt: new Date().toISOString() }));
+		await rename(tmp, this.path);
+	}
+}
+
+function parseRecord(line: string): LogRecord | undefined {
+	if (!line) return undefined;
+	try {
+		return JSON.parse(line) as LogRecord;
+	} catch {
+		return undefined;
+	}
+}
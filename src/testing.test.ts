@@ -0,0 +1,171 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { GA4Client } from './client.js';
+import { type GA4Error, GA4ErrorCode } from './errors.js';
+import { GA4MockServer, GA4RecordingTransport } from './testing.js';
+
+describe('testing', () => {
+	const defaultOptions = { measurementId: 'G-TEST123', apiSecret: 'test-secret' };
+	const retry = { maxRetries: 2, initialDelayMs: 1, maxDelayMs: 5 };
+
+	describe('GA4RecordingTransport', () => {
+		it('should record decoded requests', async () => {
+			const transport = new GA4RecordingTransport();
+			const client = new GA4Client({ ...defaultOptions, fetch: transport.fetch });
+
+			await client.send({ client_id: 'c1', events: [{ name: 'login', params: { method: 'Google' } }] });
+
+			assert.equal(transport.requests.length, 1);
+			assert.deepEqual(transport.requests[0], {
+				endpoint: '/mp/collect',
+				query: { measurement_id: 'G-TEST123', api_secret: 'test-secret' },
+				body: { client_id: 'c1', events: [{ name: 'login', params: { method: 'Google' } }] },
+				status: 204,
+			});
+		});
+
+		it('should assert sent events by name and params', async () => {
+			const transport = new GA4RecordingTransport();
+			const client = new GA4Client({ ...defaultOptions, fetch: transport.fetch });
+			const items = [{ item_id: 'SKU-1' }];
+
+			await client.send({ client_id: 'c1', events: [{ name: 'purchase', params: { transaction_id: 'T-1', items } }] });
+
+			const event = transport.assertEventSent('purchase', { transaction_id: 'T-1', items });
+			assert.equal(event.payload.client_id, 'c1');
+			assert.throws(() => transport.assertEventSent('purchase', { transaction_id: 'T-2' }), /purchase/);
+			assert.throws(() => transport.assertEventNotSent('purchase'), /1 time/);
+			transport.assertEventNotSent('refund');
+		});
+
+		it('should return validation messages from the debug endpoint', async () => {
+			const transport = new GA4RecordingTransport();
+			const client = new GA4Client({ ...defaultOptions, validation: 'off', fetch: transport.fetch });
+
+			const response = await client.debug([{ client_id: 'c1', events: [{ name: 'ga_event' }] }]);
+
+			assert.deepEqual(response.validationMessages, [
+				{
+					fieldPath: 'events[0].name',
+					description: 'Reserved prefix "ga_": ga_event',
+					validationCode: 'NAME_RESERVED',
+				},
+			]);
+			assert.deepEqual(
+				transport.events(undefined, { debug: true }).map((e) => e.name),
+				['ga_event'],
+			);
+			assert.deepEqual(transport.events(), []);
+		});
+
+		it('should simulate rate limiting with Retry-After', async () => {
+			const transport = new GA4RecordingTransport().failNext({ type: 'rate-limit', retryAfterSeconds: 0 });
+			const client = new GA4Client({ ...defaultOptions, fetch: transport.fetch });
+
+			await client.sendWithRetry([{ client_id: 'c1', events: [{ name: 'login' }] }], retry);
+
+			assert.deepEqual(
+				transport.requests.map((r) => r.status),
+				[429, 204],
+			);
+			assert.equal(transport.events('login').length, 1);
+		});
+
+		it('should simulate server errors', async () => {
+			const transport = new GA4RecordingTransport().failNext({ type: 'server-error', status: 503 }, 3);
+			const client = new GA4Client({ ...defaultOptions, fetch: transport.fetch });
+
+			await assert.rejects(
+				client.sendWithRetry([{ client_id: 'c1', events: [{ name: 'login' }] }], retry),
+				(error: GA4Error) => error.code === GA4ErrorCode.Server && error.statusCode === 503,
+			);
+			assert.equal(transport.requests.length, 3);
+		});
+
+		it('should simulate timeouts', async () => {
+			const transport = new GA4RecordingTransport().failNext({ type: 'timeout' });
+			const client = new GA4Client({ ...defaultOptions, timeoutMs: 10, fetch: transport.fetch });
+
+			await assert.rejects(client.send({ client_id: 'c1', events: [{ name: 'login' }] }), /Timeout after 10ms/);
+			assert.equal(transport.requests[0]?.status, undefined);
+		});
+
+		it('should work as a GA4Transport', async () => {
+			const transport = new GA4RecordingTransport().failNext({ type: 'timeout' });
+			const client = new GA4Client({ ...defaultOptions, timeoutMs: 10, transport });
+
+			await assert.rejects(client.send({ client_id: 'c1', events: [{ name: 'login' }] }), /Timeout after 10ms/);
+			await client.send({ client_id: 'c1', events: [{ name: 'login' }] });
+			transport.assertEventSent('login');
+		});
+
+		it('should clear requests and faults on reset', async () => {
+			const transport = new GA4RecordingTransport().failNext({ type: 'server-error' });
+			transport.reset();
+			const client = new GA4Client({ ...defaultOptions, fetch: transport.fetch });
+
+			await client.send({ client_id: 'c1', events: [{ name: 'login' }] });
+			assert.equal(transport.requests.length, 1);
+		});
+	});
+
+	describe('GA4MockServer', () => {
+		let server: GA4MockServer;
+
+		beforeEach(async () => {
+			server = await new GA4MockServer().start();
+		});
+
+		afterEach(async () => {
+			await server.stop();
+		});
+
+		it('should accept events over HTTP', async () => {
+			const client = new GA4Client({ ...defaultOptions, baseUrl: server.url });
+
+			await client.send({ client_id: 'c1', events: [{ name: 'page_view', params: { page_title: 'Home' } }] });
+
+			server.assertEventSent('page_view', { page_title: 'Home' });
+			assert.equal(server.requests[0]?.query.api_secret, 'test-secret');
+		});
+
+		it('should return validation messages from the debug endpoint', async () => {
+			const client = new GA4Client({ ...defaultOptions, baseUrl: server.url, validation: 'off' });
+
+			const response = await client.debug([
+				{ client_id: 'c1', events: [{ name: 'login', params: { method: 'x'.repeat(101) } }] },
+			]);
+
+			assert.deepEqual(response.validationMessages, [
+				{
+					fieldPath: 'events[0].params.method',
+					description: 'Value exceeds 100 chars',
+					validationCode: 'VALUE_OUT_OF_BOUNDS',
+				},
+			]);
+		});
+
+		it('should retry after simulated faults', async () => {
+			server.failNext({ type: 'server-error' }).failNext({ type: 'rate-limit', retryAfterSeconds: 0 });
+			const client = new GA4Client({ ...defaultOptions, baseUrl: server.url });
+
+			await client.sendWithRetry([{ client_id: 'c1', events: [{ name: 'login' }] }], retry);
+
+			assert.deepEqual(
+				server.requests.map((r) => r.status),
+				[500, 429, 204],
+			);
+		});
+
+		it('should hold timed-out requests until the client aborts', async () => {
+			server.failNext({ type: 'timeout' });
+			const client = new GA4Client({ ...defaultOptions, baseUrl: server.url, timeoutMs: 50 });
+
+			await assert.rejects(client.send({ client_id: 'c1', events: [{ name: 'login' }] }), /Timeout/);
+		});
+
+		it('should throw for url before start', () => {
+			assert.throws(() => new GA4MockServer().url, /not running/);
+		});
+	});
+});
@@ -0,0 +1,226 @@
+/**
+ * GA4 Testing - a recording fake transport and a local mock of the Measurement Protocol endpoints.
+ * Import from `ga4-client/testing`.
+ */
+
+import { AssertionError, deepStrictEqual } from 'node:assert';
+import { type IncomingMessage, type Server, type ServerResponse, createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type {
+	GA4Event,
+	GA4EventItem,
+	GA4EventParams,
+	GA4Transport,
+	GA4TransportRequest,
+	GA4TransportResponse,
+} from './types.js';
+import { validationMessages } from './validation.js';
+
+/** Fault to simulate for upcoming requests. */
+export type GA4MockFault =
+	| { type: 'rate-limit'; retryAfterSeconds?: number }
+	| { type: 'server-error'; status?: number }
+	| { type: 'client-error'; status?: number }
+	| { type: 'timeout' };
+
+/** A request received by the fake transport or mock server. */
+export interface GA4RecordedRequest {
+	endpoint: '/mp/collect' | '/debug/mp/collect';
+	/** Query parameters (measurement_id or firebase_app_id, api_secret). */
+	query: Record<string, string>;
+	body: GA4Event;
+	/** Status returned, or undefined for a simulated timeout. */
+	status?: number;
+}
+
+/** An event item as sent, with the payload it was part of. */
+export interface GA4RecordedEvent extends GA4EventItem {
+	payload: GA4Event;
+}
+
+/**
+ * Fake transport that records every request and answers like GA4: 204 from /mp/collect and
+ * validation messages from /debug/mp/collect. Pass it as GA4Client's `transport`, or `transport.fetch` as `fetch`.
+ * @example
+ * const transport = new GA4RecordingTransport();
+ * const client = new GA4Client({ measurementId, apiSecret, transport });
+ * await client.send({ client_id: 'c', events: [{ name: 'login', params: { method: 'Google' } }] });
+ * transport.assertEventSent('login', { method: 'Google' });
+ */
+export class GA4RecordingTransport implements GA4Transport {
+	readonly requests: GA4RecordedRequest[] = [];
+	private readonly faults: GA4MockFault[] = [];
+
+	/** fetch-compatible function that answers in memory. Simulated timeouts wait for the request's abort signal. */
+	readonly fetch = (async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+		const url = new URL(typeof input === 'string' || input instanceof URL ? input : input.url);
+		const response = this.respond(url, String(init?.body ?? ''));
+		if (response) return new Response(response.body || null, { status: response.status, headers: response.headers });
+		return hang(init?.signal);
+	}) as typeof fetch;
+
+	/** Answer in memory. Simulated timeouts wait for the request's abort signal. */
+	async send(request: GA4TransportRequest): Promise<GA4TransportResponse> {
+		return this.respond(new URL(request.url), request.body) ?? hang(request.signal);
+	}
+
+	/**
+	 * Fail the next `times` requests with `fault`. Faults queue up in order.
+	 * @example
+	 * transport.failNext({ type: 'rate-limit', retryAfterSeconds: 1 });
+	 * transport.failNext({ type: 'server-error', status: 503 }, 2);
+	 */
+	failNext(fault: GA4MockFault, times = 1): this {
+		for (let i = 0; i < times; i++) this.faults.push(fault);
+		return this;
+	}
+
+	/** Events sent to /mp/collect (or the debug endpoint with `debug: true`), optionally filtered by name. */
+	events(name?: string, options: { debug?: boolean } = {}): GA4RecordedEvent[] {
+		const endpoint = options.debug ? '/debug/mp/collect' : '/mp/collect';
+		return this.requests
+			.filter((r) => r.endpoint === endpoint && r.status !== undefined && r.status < 300)
+			.flatMap((r) => r.body.events.map((item) => ({ ...item, payload: r.body })))
+			.filter((e) => name === undefined || e.name === name);
+	}
+
+	/** Assert an event was sent, with at least the given params (deep-equal per param). */
+	assertEventSent(name: string, params: GA4EventParams = {}): GA4RecordedEvent {
+		const sent = this.events(name);
+		const match = sent.find((e) => Object.entries(params).every(([key, value]) => isDeepEqual(e.params?.[key], value)));
+		if (match) return match;
+
+		const seen = this.events().map((e) => `${e.name} ${JSON.stringify(e.params ?? {})}`);
+		throw new AssertionError({
+			message: `Expected ${name} with ${JSON.stringify(params)} to be sent; sent:\n${seen.join('\n') || '(nothing)'}`,
+		});
+	}
+
+	/** Assert no event with `name` was sent. */
+	assertEventNotSent(name: string): void {
+		const count = this.events(name).length;
+		if (count)
+			throw new AssertionError({ message: `Expected ${name} not to be sent, but it was sent ${count} time(s)` });
+	}
+
+	/** Forget recorded requests and pending faults. */
+	reset(): void {
+		this.requests.length = 0;
+		this.faults.length = 0;
+	}
+
+	/** Record a request and build its response; undefined simulates a timeout. */
+	protected respond(url: URL, rawBody: string): GA4TransportResponse | undefined {
+		const endpoint = url.pathname.endsWith('/debug/mp/collect') ? '/debug/mp/collect' : '/mp/collect';
+		const request: GA4RecordedRequest = {
+			endpoint,
+			query: Object.fromEntries(url.searchParams),
+			body: parseBody(rawBody),
+		};
+		this.requests.push(request);
+
+		const fault = this.faults.shift();
+		const response = fault ? this.fault(fault) : this.success(request);
+		request.status = response?.status;
+		return response;
+	}
+
+	private fault(fault: GA4MockFault): GA4TransportResponse | undefined {
+		switch (fault.type) {
+			case 'timeout':
+				return undefined;
+			case 'rate-limit':
+				return { status: 429, headers: { 'retry-after': String(fault.retryAfterSeconds ?? 1) }, body: '' };
+			case 'server-error':
+				return { status: fault.status ?? 500, headers: {}, body: 'Internal Server Error' };
+			case 'client-error':
+				return { status: fault.status ?? 400, headers: {}, body: 'Bad Request' };
+		}
+	}
+
+	private success(request: GA4RecordedRequest): GA4TransportResponse {
+		if (request.endpoint === '/mp/collect') return { status: 204, headers: {}, body: '' };
+		return {
+			status: 200,
+			headers: { 'content-type': 'application/json' },
+			body: JSON.stringify({ validationMessages: validationMessages(request.body) }),
+		};
+	}
+}
+
+/**
+ * Local HTTP server standing in for the Measurement Protocol. Behaves like GA4RecordingTransport;
+ * pass `server.url` as `baseUrl`. Simulated timeouts hold the response until the client gives up.
+ * @example
+ * const server = await new GA4MockServer().start();
+ * const client = new GA4Client({ measurementId, apiSecret, baseUrl: server.url });
+ * server.failNext({ type: 'server-error', status: 503 });
+ * await client.sendWithRetry(events);
+ * server.assertEventSent('purchase', { transaction_id: 'T-1' });
+ * await server.stop();
+ */
+export class GA4MockServer extends GA4RecordingTransport {
+	private server?: Server;
+
+	/** Base URL of the running server (e.g., "http://127.0.0.1:54321"). */
+	get url(): string {
+		const address = this.server?.address() as AddressInfo | null | undefined;
+		if (!address) throw new Error('GA4MockServer is not running; call start() first');
+		return `http://127.0.0.1:${address.port}`;
+	}
+
+	/** Start listening on 127.0.0.1 (a random free port by default). */
+	async start(port = 0): Promise<this> {
+		const server = createServer((req, res) => this.handle(req, res));
+		await new Promise<void>((resolve, reject) => {
+			server.once('error', reject);
+			server.listen(port, '127.0.0.1', resolve);
+		});
+		this.server = server;
+		return this;
+	}
+
+	/** Stop the server, dropping requests held by simulated timeouts. */
+	async stop(): Promise<void> {
+		const server = this.server;
+		if (!server) return;
+		this.server = undefined;
+		server.closeAllConnections();
+		await new Promise<void>((resolve) => server.close(() => resolve()));
+	}
+
+	private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+		const chunks: Buffer[] = [];
+		for await (const chunk of req) chunks.push(chunk as Buffer);
+
+		const response = this.respond(new URL(req.url ?? '/', 'http://127.0.0.1'), Buffer.concat(chunks).toString('utf8'));
+		if (!response) return;
+		res.writeHead(response.status, response.headers).end(response.body);
+	}
+}
+
+/** Never settle, except to reject once `signal` aborts. */
+function hang(signal?: AbortSignal | null): Promise<never> {
+	return new Promise((_, reject) => {
+		const abort = () => reject(signal?.reason ?? new DOMException('The operation was aborted', 'AbortError'));
+		if (signal?.aborted) abort();
+		else signal?.addEventListener('abort', abort, { once: true });
+	});
+}
+
+function parseBody(raw: string): GA4Event {
+	try {
+		return JSON.parse(raw) as GA4Event;
+	} catch {
+		return { client_id: '', events: [] };
+	}
+}
+
+function isDeepEqual(actual: unknown, expected: unknown): boolean {
+	try {
+		deepStrictEqual(actual, expected);
+		return true;
+	} catch {
+		return false;
+	}
+}
@@ -0,0 +1,77 @@
+import assert from 'node:assert/strict';
+import { describe, it, mock } from 'node:test';
+import { GA4Client } from './client.js';
+import { GA4Error, GA4ErrorCode } from './errors.js';
+import { GA4BeaconTransport, GA4FetchTransport } from './transport.js';
+
+describe('transport', () => {
+	const defaultOptions = { measurementId: 'G-TEST123', apiSecret: 'test-secret' };
+	const request = (url: string) => ({
+		url,
+		method: 'POST' as const,
+		headers: { 'Content-Type': 'application/json' },
+		body: '{"client_id":"c","events":[{"name":"login"}]}',
+		signal: new AbortController().signal,
+	});
+
+	describe('GA4FetchTransport', () => {
+		it('should return status, lower-case headers and body', async () => {
+			const fetch = mock.fn(async () => new Response('slow down', { status: 429, headers: { 'Retry-After': '2' } }));
+			const transport = new GA4FetchTransport({ fetch: fetch as unknown as typeof globalThis.fetch });
+
+			const response = await transport.send(request('https://example.test/mp/collect'));
+
+			assert.deepEqual(response, {
+				status: 429,
+				headers: { 'content-type': 'text/plain;charset=UTF-8', 'retry-after': '2' },
+				body: 'slow down',
+			});
+		});
+
+		it('should not be combined with the fetch option', () => {
+			const options = { ...defaultOptions, fetch: globalThis.fetch, transport: new GA4FetchTransport() };
+			assert.throws(() => new GA4Client(options), GA4Error);
+		});
+	});
+
+	describe('GA4BeaconTransport', () => {
+		const fallback = () => ({
+			send: mock.fn(async () => ({ status: 200, headers: {}, body: '{"validationMessages":[]}' })),
+		});
+
+		it('should queue requests as text/plain beacons and resolve as 204', async () => {
+			const sendBeacon = mock.fn((_url: string, _data: Blob) => true);
+			const transport = new GA4BeaconTransport({ sendBeacon, fallback: fallback() });
+
+			const response = await transport.send(request('https://example.test/mp/collect?api_secret=s'));
+
+			assert.deepEqual(response, { status: 204, headers: {}, body: '' });
+			const [url, data] = sendBeacon.mock.calls[0]?.arguments ?? [];
+			assert.equal(url, 'https://example.test/mp/collect?api_secret=s');
+			assert.equal(data?.type, 'text/plain');
+			assert.equal(await data?.text(), request('').body);
+		});
+
+		it('should throw when the browser refuses the beacon', async () => {
+			const transport = new GA4BeaconTransport({ sendBeacon: () => false, fallback: fallback() });
+			await assert.rejects(
+				transport.send(request('https://example.test/mp/collect')),
+				(error: GA4Error) => error.code === GA4ErrorCode.Connection,
+			);
+		});
+
+		it('should use the fallback for debug requests and without sendBeacon', async () => {
+			const sendBeacon = mock.fn(() => true);
+			const debugFallback = fallback();
+			await new GA4BeaconTransport({ sendBeacon, fallback: debugFallback }).send(
+				request('https://example.test/debug/mp/collect'),
+			);
+			const noBeaconFallback = fallback();
+			await new GA4BeaconTransport({ fallback: noBeaconFallback }).send(request('https://example.test/mp/collect'));
+
+			assert.equal(sendBeacon.mock.callCount(), 0);
+			assert.equal(debugFallback.send.mock.callCount(), 1);
+			assert.equal(noBeaconFallback.send.mock.callCount(), 1);
+		});
+	});
+});
@@ -0,0 +1,74 @@
+/**
+ * GA4 Transports - runtime-neutral HTTP backends for GA4Client.
+ */
+
+import { GA4Error, GA4ErrorCode } from './errors.js';
+import type { GA4Transport, GA4TransportRequest, GA4TransportResponse } from './types.js';
+
+/**
+ * Transport using the global `fetch` (or the one given). The default for GA4Client.
+ * @example
+ * const client = new GA4Client({ measurementId, apiSecret, transport: new GA4FetchTransport({ fetch: undici.fetch }) });
+ */
+export class GA4FetchTransport implements GA4Transport {
+	private readonly fetch: typeof fetch;
+	private readonly keepalive: boolean;
+
+	/** `keepalive: true` lets a browser finish the request after the page unloads (bodies up to 64 KB). */
+	constructor(options: { fetch?: typeof fetch; keepalive?: boolean } = {}) {
+		this.fetch = options.fetch ?? globalThis.fetch;
+		this.keepalive = options.keepalive ?? false;
+	}
+
+	async send(request: GA4TransportRequest): Promise<GA4TransportResponse> {
+		const response = await this.fetch(request.url, {
+			method: request.method,
+			headers: request.headers,
+			body: request.body,
+			signal: request.signal,
+			...(this.keepalive && { keepalive: true }),
+		});
+
+		return {
+			status: response.status,
+			headers: response.headers ? Object.fromEntries(response.headers) : {},
+			body: response.status === 204 ? '' : await response.text(),
+		};
+	}
+}
+
+/** `navigator.sendBeacon`, or a stand-in with the same contract. */
+type SendBeacon = (url: string, data: Blob) => boolean;
+
+/**
+ * Browser transport that queues requests with `navigator.sendBeacon`, which the browser delivers even after
+ * the page unloads. Beacons cannot read responses, so a queued request resolves as 204. Debug requests, and
+ * every request where sendBeacon is unavailable, go to `fallback` (fetch with keepalive by default).
+ * @example
+ * const client = new GA4Client({ measurementId, apiSecret, transport: new GA4BeaconTransport() });
+ * addEventListener('visibilitychange', () => {
+ *   if (document.visibilityState === 'hidden') void batch.flush();
+ * });
+ */
+export class GA4BeaconTransport implements GA4Transport {
+	private readonly sendBeacon?: SendBeacon;
+	private readonly fallback: GA4Transport;
+
+	constructor(options: { sendBeacon?: SendBeacon; fallback?: GA4Transport } = {}) {
+		const { navigator } = globalThis as { navigator?: { sendBeacon?: SendBeacon } };
+		this.sendBeacon = options.sendBeacon ?? navigator?.sendBeacon?.bind(navigator);
+		this.fallback = options.fallback ?? new GA4FetchTransport({ keepalive: true });
+	}
+
+	async send(request: GA4TransportRequest): Promise<GA4TransportResponse> {
+		if (!this.sendBeacon || new URL(request.url).pathname.endsWith('/debug/mp/collect')) {
+			return this.fallback.send(request);
+		}
+
+		// text/plain keeps the beacon a CORS-safelisted request; GA4 parses the body as JSON regardless.
+		if (!this.sendBeacon(request.url, new Blob([request.body], { type: 'text/plain' }))) {
+			throw new GA4Error(GA4ErrorCode.Connection, 'sendBeacon refused the request (payload too large or queue full)');
+		}
+		return { status: 204, headers: {}, body: '' };
+	}
+}
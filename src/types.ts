@@ -3,13 +3,44 @@
  * @see https://developers.google.com/analytics/devguides/collection/protocol/ga4/reference
  */
 
+import type { GA4Error, GA4ErrorCode, GA4ValidationError } from './errors.js';
+import type { GA4CircuitBreaker, GA4RateLimiter, GA4RetryBudget } from './resilience.js';
+
+/**
+ * Ecommerce item attached to events via the `items` parameter.
+ * - Either `item_id` or `item_name` is required
+ * - Max 200 items per event
+ */
+export interface GA4Item {
+	item_id?: string;
+	item_name?: string;
+	affiliation?: string;
+	coupon?: string;
+	discount?: number;
+	index?: number;
+	item_brand?: string;
+	item_category?: string;
+	item_category2?: string;
+	item_category3?: string;
+	item_category4?: string;
+	item_category5?: string;
+	item_list_id?: string;
+	item_list_name?: string;
+	item_variant?: string;
+	location_id?: string;
+	price?: number;
+	quantity?: number;
+	/** Custom item-scoped parameters. */
+	[key: string]: string | number | undefined;
+}
+
 /**
  * Event parameters - custom key-value pairs attached to events.
  * - Parameter names: max 40 characters, alphanumeric and underscores, must start with letter
  * - Parameter values: max 100 characters (500 for GA360)
  * - Reserved prefixes: _, firebase_, ga_, google_, gtag.
  */
-export type GA4EventParams = Record<string, string | number | boolean | string[] | undefined>;
+export type GA4EventParams = Record<string, string | number | boolean | string[] | GA4Item[] | undefined>;
 
 /**
  * User properties - persistent attributes about the user.
@@ -42,19 +73,149 @@ export interface GA4EventItem {
 	 * - Include `session_id` and `engagement_time_msec` for Realtime reports
 	 */
 	params?: GA4EventParams;
+
+	/** Optional. Per-event timestamp in microseconds; overrides the request-level `timestamp_micros`. */
+	timestamp_micros?: number;
 }
 
+/** Custom event registry: event name → parameter type. */
+export type GA4EventMap = Record<string, GA4EventParams>;
+
+/** Event item restricted to the names and parameter types of an event map. */
+export type GA4TypedEventItem<S extends GA4EventMap> = string extends keyof S
+	? GA4EventItem
+	: {
+			[N in keyof S & string]: { name: N; timestamp_micros?: number } & (Partial<S[N]> extends S[N]
+				? { params?: S[N] }
+				: { params: S[N] });
+		}[keyof S & string];
+
+/** Payload whose events are restricted to an event map. */
+export type GA4TypedEvent<S extends GA4EventMap> = GA4Event<GA4TypedEventItem<S>>;
+
+/** Runtime validator for a custom event map, created with `defineEventSchema`. */
+export interface GA4EventSchema<S extends GA4EventMap = GA4EventMap> {
+	/** Check an event item; returns the first violation or undefined. */
+	check(item: GA4EventItem, path: string): Pick<GA4ValidationIssue, 'fieldPath' | 'description'> | undefined;
+
+	/** Type-only marker carrying the event map. Never set at runtime. */
+	readonly __events?: S;
+}
+
+/** Consent status for a consent mode signal. */
+export type GA4ConsentStatus = 'GRANTED' | 'DENIED';
+
 /**
- * GA4 Measurement Protocol event payload sent to /mp/collect endpoint.
+ * Consent mode signals for the request.
+ * @see https://developers.google.com/analytics/devguides/collection/protocol/ga4/consent
+ */
+export interface GA4Consent {
+	/** Consent to send user data to Google for advertising. */
+	ad_user_data?: GA4ConsentStatus;
+	/** Consent to use the data for ad personalization. */
+	ad_personalization?: GA4ConsentStatus;
+}
+
+/** Geographic location of the user, overriding the location GA4 derives from the request. */
+export interface GA4UserLocation {
+	city?: string;
+	/** ISO 3166-2 subdivision code (e.g., "US-CA"). */
+	region_id?: string;
+	/** ISO 3166-1 alpha-2 country code (e.g., "US"). */
+	country_id?: string;
+	/** UN M49 subcontinent code (e.g., "021"). */
+	subcontinent_id?: string;
+	/** UN M49 continent code (e.g., "019"). */
+	continent_id?: string;
+}
+
+/** Device the events were collected on. */
+export interface GA4Device {
+	/** Device category (e.g., "mobile", "desktop", "tablet", "smart TV"). */
+	category?: string;
+	/** ISO 639-1 language, optionally with an ISO 3166-1 region (e.g., "en" or "en-US"). */
+	language?: string;
+	/** Screen resolution as WIDTHxHEIGHT (e.g., "1280x2856"). */
+	screen_resolution?: string;
+	operating_system?: string;
+	operating_system_version?: string;
+	model?: string;
+	brand?: string;
+	browser?: string;
+	browser_version?: string;
+}
+
+/** Postal address in user-provided data. Name and street fields are SHA-256 hashed. */
+export interface GA4UserAddress {
+	sha256_first_name?: string;
+	sha256_last_name?: string;
+	sha256_street?: string;
+	city?: string;
+	region?: string;
+	postal_code?: string;
+	/** ISO 3166-1 alpha-2 country code. */
+	country?: string;
+}
+
+/**
+ * User-provided data for enhanced conversions. Up to 3 values per field.
+ * @see https://developers.google.com/analytics/devguides/collection/ga4/uid-data
  */
-export interface GA4Event {
+export interface GA4UserData {
+	sha256_email_address?: string | string[];
+	sha256_phone_number?: string | string[];
+	address?: GA4UserAddress | GA4UserAddress[];
+}
+
+/** Raw postal address for `hashUserData`; normalized and hashed where Google requires. */
+export interface GA4UserAddressInput {
+	first_name?: string;
+	last_name?: string;
+	street?: string;
+	city?: string;
+	region?: string;
+	postal_code?: string;
+	/** ISO 3166-1 alpha-2 country code (case-insensitive). */
+	country?: string;
+}
+
+/** Raw user-provided data for `hashUserData`. Up to 3 values per field. */
+export interface GA4UserDataInput {
+	email?: string | string[];
+	/** Phone number in E.164 or national format (with `defaultCountryCode`). */
+	phone?: string | string[];
+	address?: GA4UserAddressInput | GA4UserAddressInput[];
+}
+
+/** Options for `hashUserData`. */
+export interface GA4HashUserDataOptions {
+	/** Country calling code for phone numbers without a leading + (e.g., "1" or "44"). */
+	defaultCountryCode?: string;
+}
+
+/** Identity of a web stream user. */
+export interface GA4WebIdentity {
 	/**
-	 * Required. Unique identifier for a user instance of a web client.
+	 * Required for web streams. Unique identifier for a user instance of a web client.
 	 * Identifies individual browser instances or web sessions.
 	 * Typically a UUID v4 format (e.g., "550e8400-e29b-41d4-a716-446655440000").
 	 */
 	client_id: string;
+	app_instance_id?: undefined;
+}
+
+/** Identity of a Firebase app stream user. */
+export interface GA4AppIdentity {
+	/**
+	 * Required for Firebase app streams. App instance ID from the Firebase SDK
+	 * (32 hexadecimal characters, e.g., "cbd7fc9d4ec6e2f6a3e4e5e0e1f2a3b4").
+	 */
+	app_instance_id: string;
+	client_id?: undefined;
+}
 
+/** Payload fields shared by web and app streams. */
+export interface GA4EventFields<TItem extends GA4EventItem = GA4EventItem> {
 	/**
 	 * Optional. Unique identifier for the user across devices/platforms.
 	 * Used for cross-platform analysis when the same user is logged in.
@@ -75,11 +236,94 @@ export interface GA4Event {
 	 */
 	user_properties?: GA4UserProperties;
 
+	/** Optional. Consent mode signals; required to use the data for ads in the EEA. */
+	consent?: GA4Consent;
+
+	/** Optional. Legacy flag to exclude the events from ad personalization. Prefer `consent.ad_personalization`. */
+	non_personalized_ads?: boolean;
+
+	/** Optional. User-provided data (hashed) for enhanced conversions. */
+	user_data?: GA4UserData;
+
+	/** Optional. User location; overrides the location derived from `ip_override`. */
+	user_location?: GA4UserLocation;
+
+	/** Optional. Device information. */
+	device?: GA4Device;
+
+	/** Optional. IPv4 or IPv6 address GA4 uses to derive the user's location. */
+	ip_override?: string;
+
 	/**
 	 * Required. Array of events to send.
 	 * Maximum 25 events per request.
 	 */
-	events: GA4EventItem[];
+	events: TItem[];
+}
+
+/**
+ * GA4 Measurement Protocol event payload sent to /mp/collect endpoint.
+ * Identified by `client_id` for web streams or `app_instance_id` for Firebase app streams.
+ * Payloads are only merged into one request when their identity and request-level fields
+ * (consent, user_data, user_location, device, ip_override, non_personalized_ads) match.
+ */
+export type GA4Event<TItem extends GA4EventItem = GA4EventItem> = (GA4WebIdentity | GA4AppIdentity) &
+	GA4EventFields<TItem>;
+
+/** Where a middleware chain runs: `queue` in GA4BatchHandler.add, `send` in GA4Client before validation. */
+export type GA4MiddlewareStage = 'queue' | 'send';
+
+/** Context shared by the middleware in one chain run for one payload. */
+export interface GA4MiddlewareContext {
+	stage: GA4MiddlewareStage;
+	/** Free-form metadata middleware can attach for later middleware in the chain. */
+	metadata: Record<string, unknown>;
+}
+
+/**
+ * Payload middleware registered with `use()`. Return the (possibly rewritten) payload,
+ * or null to drop it.
+ */
+export type GA4Middleware = (
+	event: GA4Event,
+	context: GA4MiddlewareContext,
+) => GA4Event | null | Promise<GA4Event | null>;
+
+/** Built-in PII detectors. */
+export type GA4PiiType = 'email' | 'phone' | 'credit_card' | 'ip';
+
+/**
+ * What the PII scrubber does with a match.
+ * - `redact`: replace it with `[REDACTED_<TYPE>]`
+ * - `hash`: replace it with its SHA-256 hex digest
+ * - `throw`: throw a GA4ValidationError naming the field (never the value)
+ */
+export type GA4PiiAction = 'redact' | 'hash' | 'throw';
+
+/** PII scrubber configuration options. */
+export interface GA4PiiScrubberOptions {
+	/** Built-in detectors to run. @default ["email", "phone", "credit_card", "ip"] */
+	detect?: GA4PiiType[];
+
+	/** Custom detectors: name → pattern (e.g., `{ employee_id: /EMP-\d{6}/ }`). */
+	patterns?: Record<string, RegExp>;
+
+	/** Action for every match, or per detector name (unlisted detectors redact). @default "redact" */
+	action?: GA4PiiAction | Partial<Record<GA4PiiType | (string & {}), GA4PiiAction>>;
+
+	/** Callback with the changes made to a payload, when there are any. */
+	onReport?: (findings: GA4PiiFinding[], event: GA4Event) => void;
+}
+
+/** A field the PII scrubber changed. */
+export interface GA4PiiFinding {
+	/** Path of the field (e.g., "events[0].params.page_location"). */
+	fieldPath: string;
+	/** Detector that matched: a GA4PiiType or a custom pattern name. */
+	type: string;
+	action: Exclude<GA4PiiAction, 'throw'>;
+	/** Number of matches in the field. */
+	count: number;
 }
 
 /** Debug endpoint validation message. */
@@ -94,14 +338,49 @@ export interface GA4DebugResponse {
 	validationMessages: GA4ValidationMessage[];
 }
 
-/** GA4Client configuration options. */
-export interface GA4ClientOptions {
+/**
+ * Client-side validation mode.
+ * - `strict`: throw a GA4ValidationError on the first rule violation
+ * - `repair`: truncate over-long values, drop invalid fields and report the changes
+ * - `drop`: drop invalid fields (including over-long values) and report the changes
+ * - `off`: skip validation entirely
+ */
+export type GA4ValidationMode = 'strict' | 'repair' | 'drop' | 'off';
+
+/** A change applied to a payload by `repair` or `drop` validation. */
+export interface GA4ValidationIssue {
+	/** Path of the offending field (e.g., "events[0].params.page_title"). */
+	fieldPath: string;
+	description: string;
+	action: 'truncated' | 'dropped';
+}
+
+/** Web data stream credentials. */
+export interface GA4WebStreamOptions {
 	/**
 	 * GA4 Measurement ID (format: G-XXXXXXXXXX).
 	 * Found in GA4 Admin > Data Streams > select stream > Measurement ID.
 	 */
 	measurementId: string;
+	firebaseAppId?: undefined;
+}
+
+/** Firebase app stream credentials. Payloads must use `app_instance_id` instead of `client_id`. */
+export interface GA4AppStreamOptions {
+	/**
+	 * Firebase App ID (format: 1:1234567890:android:321abc456def7890).
+	 * Found in Firebase console > Project settings > General > Your apps > App ID.
+	 */
+	firebaseAppId: string;
+	measurementId?: undefined;
+}
 
+/** GA4Client configuration options; pass `measurementId` for a web stream or `firebaseAppId` for an app stream. */
+export type GA4ClientOptions<S extends GA4EventMap = GA4EventMap> = (GA4WebStreamOptions | GA4AppStreamOptions) &
+	GA4ClientBaseOptions<S>;
+
+/** GA4Client options shared by web and app streams. */
+export interface GA4ClientBaseOptions<S extends GA4EventMap = GA4EventMap> {
 	/**
 	 * GA4 API secret for authentication.
 	 * Generated in GA4 Admin > Data Streams > select stream > Measurement Protocol > Create.
@@ -118,8 +397,104 @@ export interface GA4ClientOptions {
 	/** Use debug endpoint for validation without sending to production. @default false */
 	debug?: boolean;
 
-	/** Custom fetch implementation for testing or custom HTTP handling. */
+	/** Custom fetch implementation; shorthand for `transport: new GA4FetchTransport({ fetch })`. */
 	fetch?: typeof fetch;
+
+	/** HTTP backend, e.g. GA4NodeHttpTransport for keep-alive and proxies. @default GA4FetchTransport */
+	transport?: GA4Transport;
+
+	/** Client-side payload validation mode; `strict` is opt-in. @default "repair" */
+	validation?: GA4ValidationMode;
+
+	/** Callback when `repair` or `drop` validation changes a payload. */
+	onValidationIssues?: (issues: GA4ValidationIssue[], event: GA4Event) => void;
+
+	/** Retry budget shared by every sendWithRetry call (and any client given the same instance). */
+	retryBudget?: GA4RetryBudget;
+
+	/** Circuit breaker that fails fast with CIRCUIT_OPEN after repeated transient failures. */
+	circuitBreaker?: GA4CircuitBreaker;
+
+	/** Token-bucket rate limiter every request (and retry) waits on; share one instance between clients. */
+	rateLimiter?: GA4RateLimiter;
+
+	/** Custom event schema from `defineEventSchema`; types `send`/`sendBatch` and validates events before sending. */
+	schema?: GA4EventSchema<S>;
+
+	/**
+	 * Drop events whose idempotency key was already sent within the dedup window. `true` uses the defaults:
+	 * events with a `transaction_id` parameter are keyed by name and transaction ID, in a GA4MemoryDedupStore.
+	 */
+	dedup?: true | GA4DedupOptions;
+}
+
+/** Deduplication options for GA4Client. */
+export interface GA4DedupOptions {
+	/**
+	 * Idempotency key for an event, or undefined to never deduplicate it. Return your own ID to key events yourself.
+	 * @default `${item.name}:${item.params.transaction_id}` for events with a transaction_id
+	 */
+	key?: (item: GA4EventItem, event: GA4Event) => string | undefined;
+
+	/** How long a sent key blocks duplicates, in ms. @default 72 hours (GA4.MAX_BACKDATE_HOURS) */
+	windowMs?: number;
+
+	/** Where sent keys are kept; share one store between processes to deduplicate across restarts. @default GA4MemoryDedupStore */
+	store?: GA4DedupStore;
+
+	/** Callback with the events dropped as duplicates from a payload. */
+	onDuplicate?: (items: GA4EventItem[], event: GA4Event) => void;
+}
+
+/** Seen-set of idempotency keys; implement for shared stores such as Redis (`SET key 1 NX PXAT expiresAt`). */
+export interface GA4DedupStore {
+	/** Record `key` until `expiresAt` (epoch ms); resolve false if it is already recorded and not expired. Must be atomic. */
+	add(key: string, expiresAt: number): Promise<boolean>;
+
+	/** Forget `key`, so a payload that was not delivered can be sent again. */
+	delete(key: string): Promise<void>;
+}
+
+/** An HTTP request for a GA4Transport. */
+export interface GA4TransportRequest {
+	url: string;
+	method: 'POST';
+	headers: Record<string, string>;
+	body: string;
+
+	/** Aborted when the client's `timeoutMs` elapses; the transport should reject with an AbortError. */
+	signal: AbortSignal;
+}
+
+/** Response returned by a GA4Transport. */
+export interface GA4TransportResponse {
+	status: number;
+
+	/** Response headers with lower-case names. */
+	headers: Record<string, string>;
+	body: string;
+}
+
+/** HTTP backend used by GA4Client; implement for custom clients. Network failures should reject. */
+export interface GA4Transport {
+	send(request: GA4TransportRequest): Promise<GA4TransportResponse>;
+
+	/** Release pooled connections. */
+	close?(): Promise<void>;
+}
+
+/** The part of a Workers/Vercel Edge execution context (or FetchEvent) the edge adapter uses. */
+export interface GA4ExecutionContext {
+	waitUntil(promise: Promise<unknown>): void;
+}
+
+/** Options for `ga4EdgeHandler` and `flushWithWaitUntil`. */
+export interface GA4EdgeOptions {
+	/**
+	 * Callback when a flush fails. Without it, a `waitUntil` flush rejects the promise it hands to the runtime
+	 * (which logs it) and an inline flush fails silently.
+	 */
+	onError?: (error: unknown) => void;
 }
 
 /** GA4BatchHandler configuration options. */
@@ -133,11 +508,381 @@ export interface GA4BatchOptions {
 	/** Retry attempts for failed requests. @default 3 */
 	maxRetries?: number;
 
-	/** Callback when flush fails. Events are retained for retry. */
+	/** Max requests in flight per flush; one request is sent per user (client_id/user_id). @default 4 */
+	maxConcurrency?: number;
+
+	/** Callback for each request group that fails. Its events are retained for retry. */
 	onError?: (error: Error, events: GA4Event[]) => void;
 
-	/** Callback after successful flush. */
+	/** Callback for each request group sent successfully. */
 	onFlush?: (events: GA4Event[]) => void;
+
+	/** Max queued payloads before `overflowPolicy` applies. @default 10000 */
+	maxQueueSize?: number;
+
+	/**
+	 * What `add()` does when the queue is full.
+	 * - `drop-oldest`: drop the oldest queued payload
+	 * - `drop-newest`: drop the payload being added
+	 * - `block`: wait until a flush frees space; rejects with the flush error if the flush fails
+	 * - `throw`: throw a QueueFull GA4Error
+	 * @default "drop-oldest"
+	 */
+	overflowPolicy?: GA4OverflowPolicy;
+
+	/** Callback when payloads are dropped without being sent. */
+	onDrop?: (events: GA4Event[], info: GA4DropInfo) => void;
+
+	/**
+	 * Where payloads that fail permanently (non-retryable errors such as 4xx or validation) go:
+	 * a sink or a callback. The rest of the queue keeps flowing. @default GA4MemoryDeadLetterSink
+	 */
+	deadLetter?: GA4DeadLetterSink | ((letters: GA4DeadLetter[]) => void | Promise<void>);
+
+	/** Durable storage for queued events; pending events are replayed after a restart. */
+	storage?: GA4QueueStorage;
+
+	/**
+	 * Callback when queued events older than `GA4.MAX_BACKDATE_HOURS` (by their own or their payload's
+	 * `timestamp_micros`) are dropped instead of sent. Receives the expired events of each payload.
+	 */
+	onExpired?: (events: GA4Event[]) => void;
+}
+
+/** GA4BatchHandler behavior when the queue is full. */
+export type GA4OverflowPolicy = 'drop-oldest' | 'drop-newest' | 'block' | 'throw';
+
+/** Why payloads were dropped from the queue: a full queue, a middleware returning null, or duplicate idempotency keys. */
+export type GA4DropReason = 'overflow' | 'middleware' | 'duplicate';
+
+/** Details passed to `onDrop`. */
+export interface GA4DropInfo {
+	reason: GA4DropReason;
+
+	/** Total payloads dropped by this handler so far. */
+	totalDropped: number;
+
+	/** Queue depth after the drop. */
+	queueSize: number;
+}
+
+/** Serialized error attached to a dead letter. */
+export interface GA4DeadLetterError {
+	name: string;
+	message: string;
+	code?: GA4ErrorCode;
+	statusCode?: number;
+	responseBody?: string;
+	headers?: Record<string, string>;
+	fieldPath?: string;
+}
+
+/** A payload that failed permanently. */
+export interface GA4DeadLetter {
+	id: string;
+	event: GA4Event;
+	error: GA4DeadLetterError;
+
+	/** Flushes that tried to send the payload. */
+	attempts: number;
+
+	/** First send attempt, in ms since Unix epoch. */
+	firstAttemptAt: number;
+
+	/** Time the payload was dead-lettered, in ms since Unix epoch. */
+	failedAt: number;
+}
+
+/** Destination for permanently failed payloads. `read`/`remove` enable inspection and redrive. */
+export interface GA4DeadLetterSink {
+	/** Store dead letters. */
+	write(letters: GA4DeadLetter[]): Promise<void>;
+
+	/** Read stored dead letters. */
+	read?(): Promise<GA4DeadLetter[]>;
+
+	/** Remove dead letters, e.g., after they were re-queued. */
+	remove?(ids: string[]): Promise<void>;
+}
+
+/** Server-side session state for one client_id (or app_instance_id). */
+export interface GA4Session {
+	/** Session start in Unix seconds, as GA4 expects for `session_id`. */
+	session_id: string;
+	/** 1 for the first session of this client, incremented for each new session. */
+	session_number: number;
+	/** Session start in ms since Unix epoch. */
+	startedAt: number;
+	/** Last activity in ms since Unix epoch. */
+	lastActivityAt: number;
+}
+
+/** Session storage keyed by client_id; implement for shared stores such as Redis. */
+export interface GA4SessionStore {
+	get(key: string): Promise<GA4Session | undefined>;
+	set(key: string, session: GA4Session): Promise<void>;
+	delete(key: string): Promise<void>;
+}
+
+/** GA4SessionManager configuration options. */
+export interface GA4SessionOptions {
+	/** Inactivity after which the next event starts a new session, in ms. @default 1800000 (30 minutes) */
+	timeoutMs?: number;
+
+	/** Session storage. @default GA4MemorySessionStore */
+	store?: GA4SessionStore;
+
+	/**
+	 * Name of a custom event to prepend when a session starts (e.g., "server_session_start").
+	 * `session_start` itself is reserved by GA4 and cannot be sent. The marker is validated like any event:
+	 * with a client `schema`, declare it there, or it is rejected as unknown (dropped in repair and drop
+	 * modes). @default undefined (no marker)
+	 */
+	sessionStartEvent?: string;
+}
+
+/** Result of recording activity for a client. */
+export interface GA4SessionActivity {
+	session: GA4Session;
+	/** Whether this activity started a new session. */
+	isNew: boolean;
+	/** Time since the previous activity in the session (1 for a new session), for `engagement_time_msec`. */
+	engagementTimeMsec: number;
+}
+
+/** Parsed `_ga` cookie (`GA1.<domainLevel>.<random>.<timestamp>`). */
+export interface GA4ClientCookie {
+	/** Number of domain components the cookie was set on (1 for example.com). */
+	domainLevel: number;
+	/** GA4 client_id: `<random>.<timestamp>`. */
+	client_id: string;
+	/** When the client_id was created, in ms since Unix epoch. */
+	createdAt: number;
+}
+
+/** Parsed `_ga_<ID>` session cookie, in the GS1 (dotted) or GS2 (`$`-separated) format. */
+export interface GA4SessionCookie {
+	version: 'GS1' | 'GS2';
+	/** Number of domain components the cookie was set on (1 for example.com). */
+	domainLevel: number;
+	/** Session start in Unix seconds, as used for `session_id`. */
+	session_id: string;
+	session_number: number;
+	/** Whether the session is engaged. */
+	engaged: boolean;
+	/** Last activity in ms since Unix epoch. */
+	lastActivityAt: number;
+	/** Other fields by key (GS2 letters, or GS1 positions "j", "l", "h"), kept for round-tripping. */
+	extra: Record<string, string>;
+}
+
+/** Persisted queue entry. */
+export interface GA4QueueEntry {
+	id: string;
+	event: GA4Event;
+	/** Time the event was queued, in ms since Unix epoch. */
+	enqueuedAt: number;
+}
+
+/** Pluggable persistence for GA4BatchHandler's queue. Entries are acknowledged only after a successful send. */
+export interface GA4QueueStorage {
+	/** Load entries persisted but not yet acknowledged. */
+	load(): Promise<GA4QueueEntry[]>;
+
+	/** Persist an event; resolves with its entry id. */
+	append(event: GA4Event, enqueuedAt: number): Promise<string>;
+
+	/** Remove entries that were sent or dropped. */
+	ack(ids: string[]): Promise<void>;
+
+	/** Flush pending writes and release resources. */
+	close(): Promise<void>;
+}
+
+/** GA4FileQueueStorage configuration options. */
+export interface GA4FileQueueStorageOptions {
+	/** Path of the append-only log file. Parent directories are created as needed. */
+	path: string;
+
+	/** When to fsync writes: after each write, periodically, or leave it to the OS. @default "interval" */
+	fsync?: 'always' | 'interval' | 'never';
+
+	/** Interval between fsyncs for the `interval` policy in ms. @default 1000 */
+	fsyncIntervalMs?: number;
+
+	/** Max log size on disk in bytes; appends beyond it throw QueueFull. @default 52428800 (50 MiB) */
+	maxBytes?: number;
+
+	/** Number of acknowledged records that triggers compaction. @default 1000 */
+	compactThreshold?: number;
+}
+
+/** A source row: CSV cells by header name, or a parsed NDJSON object. */
+export type GA4BackfillRow = Record<string, unknown>;
+
+/** Column name (a dot path for nested NDJSON fields) or a function reading the value from a row. */
+export type GA4BackfillField = string | ((row: GA4BackfillRow) => unknown);
+
+/** How source rows map to GA4Event fields. Empty values are left out; each row becomes one event. */
+export interface GA4BackfillMapping {
+	client_id?: GA4BackfillField;
+	app_instance_id?: GA4BackfillField;
+	user_id?: GA4BackfillField;
+
+	/** Event time: a Date, an ISO 8601 string, or Unix seconds, ms or µs (told apart by magnitude). */
+	timestamp: GA4BackfillField;
+
+	/** Event name. */
+	name: GA4BackfillField;
+
+	/** Event params by param name. CSV values are strings; use a function to convert (e.g., `(r) => Number(r.value)`). */
+	params?: Record<string, GA4BackfillField>;
+
+	/** User properties by property name. */
+	user_properties?: Record<string, GA4BackfillField>;
+}
+
+/** GA4BackfillImporter configuration options. */
+export interface GA4BackfillOptions {
+	/** Source format. CSV needs a header row. */
+	format: 'csv' | 'ndjson';
+
+	mapping: GA4BackfillMapping;
+
+	/** Max requests per second. @default 10 */
+	requestsPerSecond?: number;
+
+	/** Rows read before they are grouped per user, sent and checkpointed. @default 1000 */
+	chunkSize?: number;
+
+	/**
+	 * Rows that cannot be imported (outside the backdate window, unmappable or invalid).
+	 * - `skip`: report them to `onReject` and continue
+	 * - `throw`: stop the import with a Validation GA4Error
+	 * @default "skip"
+	 */
+	invalidRows?: 'skip' | 'throw';
+
+	/** Callback for each row that is not imported. */
+	onReject?: (rejection: GA4BackfillRejection) => void;
+
+	/** Progress store; a new run resumes after the last checkpointed row. */
+	checkpoint?: GA4BackfillCheckpoint;
+
+	/** Retry options for each request. */
+	retry?: RetryOptions;
+
+	/** CSV field delimiter. @default "," */
+	delimiter?: string;
+}
+
+/** A row the importer did not send. */
+export interface GA4BackfillRejection {
+	/** 1-based data row number (the CSV header is not counted). */
+	row: number;
+	reason: 'outside_window' | 'invalid';
+	message: string;
+}
+
+/** Persists how many source rows an import has finished; implement for shared stores. */
+export interface GA4BackfillCheckpoint {
+	/** Rows already processed; 0 when starting fresh. */
+	load(): Promise<number>;
+
+	/** Record that the first `rows` rows were sent or rejected. */
+	save(rows: number): Promise<void>;
+}
+
+/** Summary returned by `GA4BackfillImporter.run`. */
+export interface GA4BackfillResult {
+	/** Rows read in this run, excluding those skipped on resume. */
+	rows: number;
+
+	/** Rows skipped because an earlier run had checkpointed them. */
+	resumed: number;
+
+	/** Rows sent. */
+	imported: number;
+
+	/** Rows rejected. */
+	rejected: number;
+
+	/** Requests sent. */
+	requests: number;
+}
+
+/** Value a route rule compares a parameter or user property with: equal to, or passing the predicate. */
+export type GA4RouteMatcher = string | number | boolean | ((value: unknown) => boolean);
+
+/** Conditions an event must meet to go to a destination. All listed conditions must hold. */
+export interface GA4RouteRule {
+	/** Event names. */
+	events?: string[];
+
+	/** Event parameters; a parameter that is not set does not match. */
+	params?: Record<string, GA4RouteMatcher>;
+
+	/** User properties of the payload; a property that is not set does not match. */
+	userProperties?: Record<string, GA4RouteMatcher>;
+}
+
+/** Which events go to a destination: a rule, any of several rules, or a predicate. */
+export type GA4Route = GA4RouteRule | GA4RouteRule[] | ((item: GA4EventItem, event: GA4Event) => boolean);
+
+/** One GA4 property a GA4Router sends to: client options plus routing, transforms and batching. */
+export type GA4RouterDestination<S extends GA4EventMap = GA4EventMap> = GA4ClientOptions<S> & {
+	/** Unique name, reported in results and errors. */
+	name: string;
+
+	/** Events to send here. @default every event */
+	route?: GA4Route;
+
+	/** Middleware for this destination only, e.g. `defaultParams` or renaming parameters. */
+	middleware?: GA4Middleware[];
+
+	/** Queue events in a GA4BatchHandler with these options instead of sending each one right away. */
+	batch?: GA4BatchOptions;
+
+	/** Retry options for events sent right away. */
+	retry?: RetryOptions;
+};
+
+/** GA4Router configuration options. */
+export interface GA4RouterOptions<S extends GA4EventMap = GA4EventMap> {
+	destinations: GA4RouterDestination<S>[];
+
+	/** Callback for each destination that fails; the other destinations are not affected. */
+	onError?: (error: Error, destination: string) => void;
+}
+
+/**
+ * What happened at one destination.
+ * - `sent`: sent (or, for `flush`, every payload of the flush was sent)
+ * - `queued`: added to the destination's batch; `error` is set when the automatic flush it triggered failed,
+ *   and the payload stays queued for the next flush
+ * - `skipped`: no event matched the route (or, for `flush`, nothing was queued)
+ * - `failed`: see `error`; for `flush`, some payloads were kept for retry, dead-lettered or expired
+ */
+export type GA4RouteStatus = 'sent' | 'queued' | 'skipped' | 'failed';
+
+/** Per-destination result of `GA4Router.send` or `flush`. */
+export interface GA4RouteResult {
+	destination: string;
+	status: GA4RouteStatus;
+
+	/** Events routed to the destination by `send`, or sent by `flush`. */
+	events: number;
+
+	/** Payloads of a `flush` kept for retry after a failure. */
+	failed?: number;
+
+	/** Payloads of a `flush` moved to the dead-letter sink. */
+	deadLettered?: number;
+
+	/** Payloads of a `flush` dropped as older than `GA4.MAX_BACKDATE_HOURS`. */
+	expired?: number;
+
+	error?: Error;
 }
 
 /** Retry configuration for sendWithRetry. */
@@ -148,8 +893,263 @@ export interface RetryOptions {
 	/** Initial delay before first retry in ms. @default 100 */
 	initialDelayMs?: number;
 
-	/** Maximum delay between retries in ms. @default 30000 */
+	/** Maximum delay between retries in ms. A longer Retry-After stops retrying. @default 30000 */
 	maxDelayMs?: number;
+
+	/**
+	 * Backoff jitter strategy.
+	 * - `none`: plain doubling
+	 * - `full`: random delay between 0 and the doubled delay
+	 * - `equal`: half the doubled delay plus a random half
+	 * - `decorrelated`: random delay between initialDelayMs and 3x the previous delay
+	 * @default "full"
+	 */
+	jitter?: GA4JitterStrategy;
+}
+
+/** Backoff jitter strategy for retries. */
+export type GA4JitterStrategy = 'none' | 'full' | 'equal' | 'decorrelated';
+
+/** GA4RetryBudget configuration options. */
+export interface GA4RetryBudgetOptions {
+	/** Retries allowed per request sent within the window. @default 0.2 */
+	ratio?: number;
+
+	/** Retries always allowed per second, regardless of traffic. @default 10 */
+	minRetriesPerSecond?: number;
+
+	/** Sliding window in ms. @default 10000 */
+	windowMs?: number;
+}
+
+/** Circuit breaker state. */
+export type GA4CircuitState = 'closed' | 'open' | 'half-open';
+
+/** GA4CircuitBreaker configuration options. */
+export interface GA4CircuitBreakerOptions {
+	/** Consecutive transient failures that open the circuit. @default 5 */
+	failureThreshold?: number;
+
+	/** Time the circuit stays open before a half-open probe in ms. @default 30000 */
+	resetTimeoutMs?: number;
+
+	/** Callback when the circuit changes state. */
+	onStateChange?: (state: GA4CircuitState) => void;
+}
+
+/** GA4RateLimiter configuration options. Each limit is a token bucket refilled continuously. */
+export interface GA4RateLimiterOptions {
+	/** Requests per second. @default 50 */
+	requestsPerSecond?: number;
+
+	/** Requests that may go out at once after an idle period. @default requestsPerSecond */
+	requestBurst?: number;
+
+	/** Events per second, counted across the events in each request. @default unlimited */
+	eventsPerSecond?: number;
+
+	/** Events that may go out at once after an idle period; at least 25. @default max(eventsPerSecond, 25) */
+	eventBurst?: number;
+
+	/**
+	 * Priority per event name; a request takes the highest priority among its events. Waiting requests go out in
+	 * priority order, oldest first within a priority. @default GA4.EVENT_PRIORITIES (purchases and refunds first)
+	 */
+	priorities?: Record<string, number>;
+
+	/** Priority of events not listed in `priorities`. @default 0 */
+	defaultPriority?: number;
+
+	/** Reject with RATE_LIMITED instead of waiting longer than this, in ms. @default no limit */
+	maxWaitMs?: number;
+
+	/** Callback when a request has to wait for tokens. */
+	onWait?: (wait: GA4RateLimitWait) => void;
+}
+
+/** Details passed to `onWait`. */
+export interface GA4RateLimitWait {
+	/** Estimated wait in ms, counting the requests queued ahead. */
+	waitMs: number;
+
+	/** Events in the waiting request. */
+	events: number;
+
+	priority: number;
+
+	/** Requests waiting, including this one. */
+	queued: number;
+}
+
+/** A listener for `on(event, listener)`; exceptions it throws are ignored. */
+export type GA4Listener<T> = (data: T) => void;
+
+/** Lifecycle events of GA4Client, by name. */
+export interface GA4ClientEvents {
+	/** A request is about to be sent. `id` pairs it with its `request:end`. */
+	'request:start': { id: number; endpoint: string; events: number; attempt: number };
+
+	/** A request finished; `status` is the HTTP status if GA4 answered, `error` is set if it failed. */
+	'request:end': {
+		id: number;
+		endpoint: string;
+		events: number;
+		attempt: number;
+		durationMs: number;
+		status?: number;
+		error?: GA4Error;
+	};
+
+	/** `sendWithRetry` will retry after `delayMs`; `attempt` is the attempt about to be made (2 for the first retry). */
+	retry: { attempt: number; delayMs: number; error: GA4Error };
+
+	/** Validation changed a payload (`repair`/`drop`) or rejected it (`strict`, with `error`). */
+	validation: { event: GA4Event; issues: GA4ValidationIssue[]; error?: GA4ValidationError };
+
+	/** Payloads dropped by middleware, or events dropped as duplicates by `dedup`. */
+	drop: { events: GA4Event[]; reason: 'middleware' | 'duplicate' };
+}
+
+/** Lifecycle events of GA4BatchHandler, by name. */
+export interface GA4BatchEvents {
+	/** Queue depth changed. */
+	queue: { size: number };
+
+	/** Payloads were dropped without being sent. */
+	drop: GA4DropInfo & { events: GA4Event[] };
+
+	/** Queued payloads older than `GA4.MAX_BACKDATE_HOURS` were dropped. */
+	expired: { events: GA4Event[] };
+
+	/** Payloads that failed permanently were written to the dead-letter sink. */
+	'dead-letter': { letters: GA4DeadLetter[] };
+
+	/** A flush is starting. */
+	'flush:start': { queueSize: number };
+
+	/**
+	 * A flush finished: payloads sent, kept for retry after a failure, moved to the dead-letter sink and
+	 * dropped as expired, and what is still queued.
+	 */
+	'flush:end': {
+		durationMs: number;
+		sent: number;
+		failed: number;
+		deadLettered: number;
+		expired: number;
+		queueSize: number;
+		error?: Error;
+	};
+}
+
+/** Snapshot of a histogram. `buckets[i].count` counts values above the previous bound, up to `le`. */
+export interface GA4HistogramSnapshot {
+	count: number;
+	sum: number;
+	min: number;
+	max: number;
+	buckets: Array<{ le: number; count: number }>;
+}
+
+/** Counters and histograms returned by `GA4Client.stats()`. */
+export interface GA4ClientStats {
+	/** Requests sent, including retries and debug requests. */
+	requests: number;
+	succeeded: number;
+	failed: number;
+
+	/** Requests by HTTP status; requests without a response (network errors, timeouts) count as `error`. */
+	statuses: Record<string, number>;
+
+	retries: number;
+
+	/** Events in requests that succeeded. */
+	events: number;
+
+	/** Payloads rejected by validation, and payloads it changed. */
+	validationFailures: number;
+	validationRepairs: number;
+
+	/** Payloads dropped by middleware. */
+	dropped: number;
+
+	/** Events dropped as duplicates. */
+	duplicates: number;
+
+	/** Request latency in ms. */
+	latency: GA4HistogramSnapshot;
+}
+
+/** Counters and histograms returned by `GA4BatchHandler.stats()`. */
+export interface GA4BatchStats {
+	queueSize: number;
+
+	/** Payloads queued, sent, and kept for retry after a failed send. */
+	enqueued: number;
+	sent: number;
+	failed: number;
+
+	/** Payloads dropped, expired and dead-lettered. */
+	dropped: number;
+	expired: number;
+	deadLettered: number;
+
+	/** Events dropped as duplicates of queued events. */
+	duplicates: number;
+
+	flushes: number;
+
+	/** Flush duration in ms. */
+	flushDuration: GA4HistogramSnapshot;
+}
+
+/** Span and metric attributes. */
+export type GA4OtelAttributes = Record<string, string | number | boolean>;
+
+/** The part of an OpenTelemetry `Span` the adapter uses. */
+export interface GA4OtelSpan {
+	setAttribute(key: string, value: string | number | boolean): unknown;
+	setStatus(status: { code: number; message?: string }): unknown;
+	recordException?(exception: Error): unknown;
+	end(): void;
+}
+
+/** The part of an OpenTelemetry `Tracer` the adapter uses, e.g. `trace.getTracer('ga4-client')`. */
+export interface GA4OtelTracer {
+	startSpan(name: string, options?: { kind?: number; attributes?: GA4OtelAttributes }): GA4OtelSpan;
+}
+
+/** Callback for an observable instrument. */
+export type GA4OtelObservableCallback = (result: {
+	observe(value: number, attributes?: GA4OtelAttributes): void;
+}) => void;
+
+/** The part of an OpenTelemetry `Meter` the adapter uses, e.g. `metrics.getMeter('ga4-client')`. */
+export interface GA4OtelMeter {
+	createCounter(
+		name: string,
+		options?: { description?: string; unit?: string },
+	): { add(value: number, attributes?: GA4OtelAttributes): void };
+	createHistogram(
+		name: string,
+		options?: { description?: string; unit?: string },
+	): { record(value: number, attributes?: GA4OtelAttributes): void };
+	createObservableGauge?(
+		name: string,
+		options?: { description?: string; unit?: string },
+	): {
+		addCallback(callback: GA4OtelObservableCallback): void;
+		removeCallback?(callback: GA4OtelObservableCallback): void;
+	};
+}
+
+/** Options for `ga4OpenTelemetry`. Pass a tracer, a meter or both. */
+export interface GA4OtelOptions {
+	tracer?: GA4OtelTracer;
+	meter?: GA4OtelMeter;
+
+	/** Prefix for span and metric names. @default "ga4" */
+	prefix?: string;
 }
 
 /** GA4 Measurement Protocol limits and defaults. */
@@ -184,15 +1184,39 @@ export const GA4 = {
 	/** Maximum parameters per event. */
 	MAX_PARAMS: 25,
 
+	/** Maximum items per event. */
+	MAX_ITEMS: 200,
+
+	/** Maximum values per user_data field (emails, phone numbers, addresses). */
+	MAX_USER_DATA_VALUES: 3,
+
 	/** Maximum timestamp backdating in hours. */
 	MAX_BACKDATE_HOURS: 72,
 
 	/** Default batch size. */
 	BATCH_SIZE: 20,
 
+	/** Default max queued payloads in GA4BatchHandler. */
+	MAX_QUEUE_SIZE: 10_000,
+
 	/** Default flush interval in ms. */
 	FLUSH_INTERVAL_MS: 5_000,
 
+	/** Default max concurrent requests per flush. */
+	MAX_CONCURRENCY: 4,
+
+	/** Default max queue log size on disk in bytes. */
+	MAX_QUEUE_BYTES: 50 * 1024 * 1024,
+
+	/** Default max dead letters kept by GA4MemoryDeadLetterSink. */
+	MAX_DEAD_LETTERS: 1_000,
+
+	/** Default fsync interval for the queue log in ms. */
+	QUEUE_FSYNC_INTERVAL_MS: 1_000,
+
+	/** Default acknowledged records before queue log compaction. */
+	QUEUE_COMPACT_THRESHOLD: 1_000,
+
 	/** Default max retries. */
 	MAX_RETRIES: 3,
 
@@ -201,4 +1225,55 @@ export const GA4 = {
 
 	/** Default max retry delay in ms. */
 	MAX_RETRY_DELAY_MS: 30_000,
+
+	/** Default retries allowed per request by GA4RetryBudget. */
+	RETRY_BUDGET_RATIO: 0.2,
+
+	/** Default retries per second always allowed by GA4RetryBudget. */
+	RETRY_BUDGET_MIN_PER_SECOND: 10,
+
+	/** Default GA4RetryBudget window in ms. */
+	RETRY_BUDGET_WINDOW_MS: 10_000,
+
+	/** Default consecutive failures before GA4CircuitBreaker opens. */
+	CIRCUIT_FAILURE_THRESHOLD: 5,
+
+	/** Default time GA4CircuitBreaker stays open in ms. */
+	CIRCUIT_RESET_TIMEOUT_MS: 30_000,
+
+	/** Default session inactivity timeout in ms (matches GA4's 30 minutes). */
+	SESSION_TIMEOUT_MS: 30 * 60 * 1000,
+
+	/** Default max sessions kept by GA4MemorySessionStore. */
+	MAX_SESSIONS: 10_000,
+
+	/** Default idempotency keys kept by GA4MemoryDedupStore. */
+	MAX_DEDUP_KEYS: 100_000,
+
+	/** Default max open sockets per host for GA4NodeHttpTransport. */
+	MAX_SOCKETS: 16,
+
+	/** Default max idle sockets per host for GA4NodeHttpTransport. */
+	MAX_FREE_SOCKETS: 4,
+
+	/** Default max requests per second for GA4BackfillImporter. */
+	BACKFILL_REQUESTS_PER_SECOND: 10,
+
+	/** Default rows per GA4BackfillImporter chunk. */
+	BACKFILL_CHUNK_SIZE: 1_000,
+
+	/** Default requests per second for GA4RateLimiter. */
+	RATE_LIMIT_REQUESTS_PER_SECOND: 50,
+
+	/** Default pause for GA4RateLimiter after a 429 without Retry-After, in ms. */
+	RATE_LIMIT_PAUSE_MS: 1_000,
+
+	/** Default GA4RateLimiter priorities: revenue events go out first. */
+	EVENT_PRIORITIES: { purchase: 10, in_app_purchase: 10, refund: 10 } as Readonly<Record<string, number>>,
+
+	/** Upper bounds in ms of the latency and flush duration histograms in `stats()`. */
+	DURATION_BUCKETS_MS: [5, 10, 25, 50, 100, 250, 500, 1_000, 2_500, 5_000, 10_000, 30_000] as readonly number[],
+
+	/** Default `_ga` cookie lifetime in seconds (2 years, like gtag.js). */
+	COOKIE_MAX_AGE_SECONDS: 2 * 365 * 24 * 60 * 60,
 } as const;
@@ -1,6 +1,15 @@
 import assert from 'node:assert/strict';
 import { describe, it } from 'node:test';
-import { generateClientId, generateSessionId, toMicros } from './utils.js';
+import { GA4ValidationError } from './errors.js';
+import {
+	generateClientId,
+	generateSessionId,
+	hashUserData,
+	normalizeEmail,
+	normalizePhone,
+	sha256,
+	toMicros,
+} from './utils.js';
 
 describe('utils', () => {
 	describe('generateClientId', () => {
@@ -39,4 +48,81 @@ describe('utils', () => {
 			assert.equal(micros, 1704067200000000);
 		});
 	});
+
+	describe('normalizeEmail', () => {
+		it('should trim, lowercase and strip dots from Gmail local parts', () => {
+			assert.equal(normalizeEmail(' John.Doe@GMail.com '), 'johndoe@gmail.com');
+			assert.equal(normalizeEmail('john.doe@googlemail.com'), 'johndoe@googlemail.com');
+			assert.equal(normalizeEmail('John.Doe@Example.com'), 'john.doe@example.com');
+		});
+
+		it('should reject invalid emails', () => {
+			assert.throws(() => normalizeEmail('not-an-email'), {
+				name: 'GA4ValidationError',
+				message: /^email: Invalid email address$/,
+			});
+		});
+	});
+
+	describe('normalizePhone', () => {
+		it('should format numbers as E.164', () => {
+			assert.equal(normalizePhone('+1 (650) 555-1234'), '+16505551234');
+			assert.equal(normalizePhone('0044 20 7946 0958'), '+442079460958');
+			assert.equal(normalizePhone('020 7946 0958', '44'), '+442079460958');
+		});
+
+		it('should drop the national trunk 0 after the country code', () => {
+			assert.equal(normalizePhone('+44 (0) 20 7946 0958'), '+442079460958');
+			assert.equal(normalizePhone('+44 (0) 20 7946 0958', '44'), '+442079460958');
+			assert.equal(normalizePhone('+44 020 7946 0958', '44'), '+442079460958');
+			assert.equal(normalizePhone('(0) 20 7946 0958', '44'), '+442079460958');
+			assert.equal(normalizePhone('06 1234 5678', '39'), '+390612345678');
+			assert.equal(normalizePhone('+39 06 1234 5678', '39'), '+390612345678');
+		});
+
+		it('should reject numbers without a country code', () => {
+			assert.throws(() => normalizePhone('650 555 1234'), GA4ValidationError);
+			assert.throws(
+				() => normalizePhone('+1 23'),
+				(error: Error) => !error.message.includes('23'),
+			);
+		});
+	});
+
+	describe('sha256', () => {
+		it('should match the SHA-256 test vectors', () => {
+			assert.equal(sha256(''), 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+			assert.equal(sha256('abc'), 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+			assert.equal(sha256('a'.repeat(1000)), '41edece42d63e8d9bf515a9ba6932e1c20cbc9f5a5d134645adb5db1b9737ea3');
+			assert.equal(sha256('jöhn'), 'd099e941c8648801789318e0c87111759678219e0be85b82237a4c4ace2c0d64');
+		});
+	});
+
+	describe('hashUserData', () => {
+		it('should normalize and hash user-provided data', () => {
+			const userData = hashUserData(
+				{
+					email: ['John.Doe@gmail.com', 'jd@example.com'],
+					phone: '(650) 555-1234',
+					address: { first_name: ' Jöhn2 ', street: '1600 Amphitheatre Pkwy.', city: 'Mountain View', country: 'us' },
+				},
+				{ defaultCountryCode: '1' },
+			);
+
+			assert.deepEqual(userData, {
+				sha256_email_address: [sha256('johndoe@gmail.com'), sha256('jd@example.com')],
+				sha256_phone_number: sha256('+16505551234'),
+				address: {
+					sha256_first_name: sha256('jöhn'),
+					sha256_street: sha256('1600 amphitheatre pkwy'),
+					city: 'mountain view',
+					country: 'US',
+				},
+			});
+		});
+
+		it('should reject more than 3 values per field', () => {
+			assert.throws(() => hashUserData({ email: ['a@x.io', 'b@x.io', 'c@x.io', 'd@x.io'] }), GA4ValidationError);
+		});
+	});
 });
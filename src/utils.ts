@@ -2,7 +2,38 @@
  * GA4 Utility Functions
  */
 
-import { randomUUID } from 'node:crypto';
+import { GA4ValidationError } from './errors.js';
+import {
+	GA4,
+	type GA4HashUserDataOptions,
+	type GA4UserAddress,
+	type GA4UserAddressInput,
+	type GA4UserData,
+	type GA4UserDataInput,
+} from './types.js';
+
+const GMAIL_DOMAINS = new Set(['gmail.com', 'googlemail.com']);
+
+const E164_PATTERN = /^\+[1-9]\d{6,14}$/;
+
+/** Country codes whose numbers keep the leading 0 in E.164 (Italy, San Marino, Vatican City). */
+const KEEPS_TRUNK_ZERO = new Set(['39', '378', '379']);
+
+/** SHA-256 round constants: first 32 bits of the fractional parts of the cube roots of the first 64 primes. */
+const SHA256_K = new Uint32Array([
+	0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5, 0xd807aa98,
+	0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174, 0xe49b69c1, 0xefbe4786,
+	0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da, 0x983e5152, 0xa831c66d, 0xb00327c8,
+	0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967, 0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13,
+	0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85, 0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819,
+	0xd6990624, 0xf40e3585, 0x106aa070, 0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a,
+	0x5b9cca4f, 0x682e6ff3, 0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7,
+	0xc67178f2,
+]);
+
+type Sha256State = [number, number, number, number, number, number, number, number];
+
+const IPV4_PATTERN = /^((25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)$/;
 
 /**
  * Generate a unique client_id for GA4 tracking.
@@ -11,13 +42,13 @@ import { randomUUID } from 'node:crypto';
  * const clientId = generateClientId(); // "550e8400-e29b-41d4-a716-446655440000"
  */
 export function generateClientId(): string {
-	return randomUUID();
+	return crypto.randomUUID();
 }
 
 /**
  * Generate a session_id for GA4 tracking.
  * Uses Unix timestamp in seconds as the session identifier.
- * Include this in event params for Realtime reports.
+ * Include this in event params for Realtime reports; GA4SessionManager tracks sessions for you.
  * @example
  * const sessionId = generateSessionId(); // "1702934567"
  */
@@ -36,3 +67,152 @@ export function toMicros(date: Date | number): number {
 	const ms = typeof date === 'number' ? date : date.getTime();
 	return ms * 1000;
 }
+
+/** Whether `value` is an IPv4 or IPv6 address. IPv6 parsing is left to the URL parser. */
+export function isIpAddress(value: string): boolean {
+	if (IPV4_PATTERN.test(value)) return true;
+	if (!/^[0-9A-Fa-f:.]+$/.test(value) || !value.includes(':')) return false;
+	try {
+		new URL(`http://[${value}]/`);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * SHA-256 hex digest of a UTF-8 string. Implemented in plain JavaScript so it stays synchronous in every
+ * runtime (Web Crypto's `subtle.digest` is async only).
+ * @example
+ * const hash = sha256('user@example.com'); // "b4c9a289323b21a01c3e940f150eb9b8c542587f1abfd8f0e1cc1ffc5e475514"
+ */
+export function sha256(value: string): string {
+	const bytes = new TextEncoder().encode(value);
+	const length = Math.ceil((bytes.length + 9) / 64) * 64;
+	const message = new DataView(new ArrayBuffer(length));
+	bytes.forEach((byte, i) => message.setUint8(i, byte));
+	message.setUint8(bytes.length, 0x80);
+	message.setUint32(length - 8, Math.floor(bytes.length / 0x20000000));
+	message.setUint32(length - 4, bytes.length << 3);
+
+	const w = new DataView(new ArrayBuffer(256));
+	const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+	let state: Sha256State = [
+		0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+	];
+
+	for (let offset = 0; offset < length; offset += 64) {
+		for (let i = 0; i < 64; i++) {
+			if (i < 16) {
+				w.setUint32(i * 4, message.getUint32(offset + i * 4));
+				continue;
+			}
+			const w15 = w.getUint32((i - 15) * 4);
+			const w2 = w.getUint32((i - 2) * 4);
+			const s0 = rotr(w15, 7) ^ rotr(w15, 18) ^ (w15 >>> 3);
+			const s1 = rotr(w2, 17) ^ rotr(w2, 19) ^ (w2 >>> 10);
+			w.setUint32(i * 4, w.getUint32((i - 16) * 4) + s0 + w.getUint32((i - 7) * 4) + s1);
+		}
+
+		let [a, b, c, d, e, f, g, h] = state;
+		for (const [i, k] of SHA256_K.entries()) {
+			const t1 = (h + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + k + w.getUint32(i * 4)) | 0;
+			const t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) | 0;
+			[h, g, f, e, d, c, b, a] = [g, f, e, (d + t1) | 0, c, b, a, (t1 + t2) | 0];
+		}
+		const [h0, h1, h2, h3, h4, h5, h6, h7] = state;
+		state = [h0 + a, h1 + b, h2 + c, h3 + d, h4 + e, h5 + f, h6 + g, h7 + h];
+	}
+
+	return state.map((x) => (x >>> 0).toString(16).padStart(8, '0')).join('');
+}
+
+/**
+ * Normalize an email address as Google specifies for user-provided data: trim, lowercase and,
+ * for gmail.com/googlemail.com, remove dots from the local part.
+ * @example
+ * normalizeEmail(' John.Doe@GMail.com '); // "johndoe@gmail.com"
+ */
+export function normalizeEmail(email: string): string {
+	const normalized = email.trim().toLowerCase();
+	const at = normalized.lastIndexOf('@');
+	if (at < 1 || at === normalized.length - 1) throw new GA4ValidationError('Invalid email address', 'email');
+
+	const local = normalized.slice(0, at);
+	const domain = normalized.slice(at + 1);
+	return `${GMAIL_DOMAINS.has(domain) ? local.replaceAll('.', '') : local}@${domain}`;
+}
+
+/**
+ * Normalize a phone number to E.164. Numbers without a leading + are prefixed with `defaultCountryCode`.
+ * The national trunk 0 is dropped: a "(0)" anywhere, a leading 0 before the default country code is
+ * added, and a 0 right after an explicit country code equal to `defaultCountryCode`.
+ * @example
+ * normalizePhone('(650) 555-1234', '1'); // "+16505551234"
+ * normalizePhone('+44 (0) 20 7946 0958'); // "+442079460958"
+ */
+export function normalizePhone(phone: string, defaultCountryCode?: string): string {
+	const trimmed = phone.trim();
+	let digits = trimmed.replace(/\(0\)/g, '').replace(/\D/g, '');
+	const country = defaultCountryCode?.replace(/\D/g, '');
+	const dropsTrunkZero = country !== undefined && !KEEPS_TRUNK_ZERO.has(country);
+
+	if (trimmed.startsWith('+') || trimmed.startsWith('00')) {
+		if (trimmed.startsWith('00')) digits = digits.slice(2);
+		if (dropsTrunkZero && digits.startsWith(`${country}0`)) digits = country + digits.slice(country.length + 1);
+	} else {
+		if (!country) throw new GA4ValidationError('Phone number needs a country code or defaultCountryCode', 'phone');
+		digits = country + (dropsTrunkZero ? digits.replace(/^0/, '') : digits);
+	}
+
+	const normalized = `+${digits}`;
+	if (!E164_PATTERN.test(normalized)) throw new GA4ValidationError('Invalid phone number', 'phone');
+	return normalized;
+}
+
+/**
+ * Normalize and SHA-256 hash raw user-provided data into a `user_data` block.
+ * Names and street are hashed; city, region, postal code and country are normalized and sent as-is.
+ * @example
+ * const user_data = hashUserData({ email: 'John.Doe@gmail.com', phone: '+1 650-555-1234' });
+ * await client.send({ client_id, user_data, events: [{ name: 'purchase', params }] });
+ */
+export function hashUserData(input: GA4UserDataInput, options: GA4HashUserDataOptions = {}): GA4UserData {
+	const result: GA4UserData = {};
+
+	if (input.email !== undefined) {
+		result.sha256_email_address = mapValues(input.email, 'email', (e) => sha256(normalizeEmail(e)));
+	}
+	if (input.phone !== undefined) {
+		result.sha256_phone_number = mapValues(input.phone, 'phone', (p) =>
+			sha256(normalizePhone(p, options.defaultCountryCode)),
+		);
+	}
+	if (input.address !== undefined) result.address = mapValues(input.address, 'address', hashAddress);
+	return result;
+}
+
+function hashAddress(address: GA4UserAddressInput): GA4UserAddress {
+	const result: GA4UserAddress = {};
+	const name = (value: string) => value.replace(/[^\p{L}\s]/gu, '');
+	const words = (value: string) => value.replace(/[^\p{L}\p{N}\s]/gu, '');
+	const clean = (value: string) => value.trim().replace(/\s+/g, ' ').toLowerCase();
+
+	if (address.first_name !== undefined) result.sha256_first_name = sha256(clean(name(address.first_name)));
+	if (address.last_name !== undefined) result.sha256_last_name = sha256(clean(name(address.last_name)));
+	if (address.street !== undefined) result.sha256_street = sha256(clean(words(address.street)));
+	if (address.city !== undefined) result.city = clean(name(address.city));
+	if (address.region !== undefined) result.region = clean(name(address.region));
+	if (address.postal_code !== undefined) result.postal_code = clean(address.postal_code.replace(/[.~]/g, ''));
+	if (address.country !== undefined) result.country = address.country.trim().toUpperCase();
+	return result;
+}
+
+/** Apply `fn` to a single value or to each of up to `GA4.MAX_USER_DATA_VALUES` values, keeping the input shape. */
+function mapValues<T, R>(value: T | T[], field: string, fn: (value: T) => R): R | R[] {
+	if (!Array.isArray(value)) return fn(value);
+	if (value.length > GA4.MAX_USER_DATA_VALUES) {
+		throw new GA4ValidationError(`Max ${GA4.MAX_USER_DATA_VALUES} values, got ${value.length}`, field);
+	}
+	return value.map(fn);
+}
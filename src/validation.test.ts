@@ -0,0 +1,260 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { GA4ValidationError } from './errors.js';
+import type { GA4Event } from './types.js';
+import { validateEvent, validationIssues } from './validation.js';
+
+describe('validateEvent', () => {
+	describe('strict', () => {
+		it('should accept a valid payload', () => {
+			const event = {
+				client_id: 'test',
+				user_properties: { plan: { value: 'pro' } },
+				events: [{ name: 'purchase', params: { value: 9.99, currency: 'USD' } }],
+			};
+			const result = validateEvent(event);
+			assert.deepEqual(result.event, event);
+			assert.deepEqual(result.issues, []);
+		});
+
+		it('should throw with field path for long param value', () => {
+			try {
+				validateEvent({ client_id: 'test', events: [{ name: 'test', params: { label: 'x'.repeat(101) } }] });
+				assert.fail('Should have thrown');
+			} catch (error) {
+				assert.ok(error instanceof GA4ValidationError);
+				assert.equal(error.fieldPath, 'events[0].params.label');
+			}
+		});
+
+		it('should allow longer page_location values', () => {
+			const event = { client_id: 'test', events: [{ name: 'page_view', params: { page_location: 'x'.repeat(500) } }] };
+			assert.doesNotThrow(() => validateEvent(event));
+		});
+
+		it('should require exactly one valid client_id or app_instance_id', () => {
+			const app_instance_id = 'cbd7fc9d4ec6e2f6a3e4e5e0e1f2a3b4';
+			assert.doesNotThrow(() => validateEvent({ app_instance_id, events: [{ name: 'a' }] }));
+			assert.throws(
+				() => validateEvent({ app_instance_id: app_instance_id.slice(1), events: [{ name: 'a' }] }),
+				GA4ValidationError,
+			);
+			assert.throws(
+				() => validateEvent({ client_id: 'c', app_instance_id, events: [{ name: 'a' }] } as never, 'repair'),
+				GA4ValidationError,
+			);
+		});
+
+		it('should reject reserved event names and prefixes', () => {
+			assert.throws(
+				() => validateEvent({ client_id: 'test', events: [{ name: 'session_start' }] }),
+				GA4ValidationError,
+			);
+			assert.throws(() => validateEvent({ client_id: 'test', events: [{ name: 'google_test' }] }), GA4ValidationError);
+		});
+
+		it('should reject invalid name characters', () => {
+			assert.throws(() => validateEvent({ client_id: 'test', events: [{ name: '1event' }] }), GA4ValidationError);
+			assert.throws(
+				() => validateEvent({ client_id: 'test', events: [{ name: 'test', params: { 'bad-name': 1 } }] }),
+				GA4ValidationError,
+			);
+		});
+
+		it('should reject too many params', () => {
+			const params = Object.fromEntries(Array.from({ length: 26 }, (_, i) => [`p_${i}`, i]));
+			assert.throws(() => validateEvent({ client_id: 'test', events: [{ name: 'test', params }] }), GA4ValidationError);
+		});
+
+		it('should reject reserved and long user properties', () => {
+			assert.throws(
+				() => validateEvent({ client_id: 'test', user_properties: { user_id: { value: 1 } }, events: [{ name: 'a' }] }),
+				GA4ValidationError,
+			);
+			assert.throws(
+				() =>
+					validateEvent({
+						client_id: 'test',
+						user_properties: { plan: { value: 'x'.repeat(37) } },
+						events: [{ name: 'a' }],
+					}),
+				GA4ValidationError,
+			);
+		});
+	});
+
+	describe('request fields', () => {
+		const base = { client_id: 'test', events: [{ name: 'test' }] };
+		const hash = (c: string) => c.repeat(64);
+
+		it('should accept valid consent, location, device and user data', () => {
+			const event = {
+				...base,
+				consent: { ad_user_data: 'GRANTED', ad_personalization: 'DENIED' } as const,
+				non_personalized_ads: false,
+				user_location: { city: 'Mountain View', region_id: 'US-CA', country_id: 'US', continent_id: '019' },
+				device: { category: 'mobile', language: 'en-US', screen_resolution: '1280x2856' },
+				ip_override: '2001:db8::1',
+				user_data: {
+					sha256_email_address: [hash('a'), hash('b')],
+					address: { sha256_first_name: hash('c'), country: 'US' },
+				},
+			};
+			assert.deepEqual(validateEvent(event).event, event);
+		});
+
+		it('should reject invalid consent values in strict mode', () => {
+			try {
+				validateEvent({ ...base, consent: { ad_user_data: 'granted' as 'GRANTED' } });
+				assert.fail('Should have thrown');
+			} catch (error) {
+				assert.ok(error instanceof GA4ValidationError);
+				assert.equal(error.fieldPath, 'consent.ad_user_data');
+			}
+		});
+
+		it('should reject non-ISO country codes and invalid IPs', () => {
+			assert.throws(() => validateEvent({ ...base, user_location: { country_id: 'USA' } }), GA4ValidationError);
+			assert.throws(() => validateEvent({ ...base, ip_override: '300.1.1.1' }), GA4ValidationError);
+			assert.throws(() => validateEvent({ ...base, ip_override: '::1]/x' }), GA4ValidationError);
+			assert.doesNotThrow(() => validateEvent({ ...base, ip_override: '203.0.113.7' }));
+		});
+
+		it('should refuse unhashed user data', () => {
+			try {
+				validateEvent({ ...base, user_data: { sha256_email_address: 'jane@example.com' } });
+				assert.fail('Should have thrown');
+			} catch (error) {
+				assert.ok(error instanceof GA4ValidationError);
+				assert.equal(error.fieldPath, 'user_data.sha256_email_address');
+			}
+			assert.throws(
+				() => validateEvent({ ...base, user_data: { address: [{ sha256_street: '1 Main St' }] } }),
+				GA4ValidationError,
+			);
+		});
+
+		it('should drop invalid fields and extra user data values when repairing', () => {
+			const { event, issues } = validateEvent(
+				{
+					...base,
+					consent: { ad_user_data: 'yes' as 'GRANTED' },
+					device: { category: 'desktop', screen_resolution: 'large' },
+					user_data: { sha256_phone_number: [hash('1'), hash('2'), hash('3'), hash('4')] },
+				},
+				'repair',
+			);
+
+			assert.equal(event.consent, undefined);
+			assert.deepEqual(event.device, { category: 'desktop' });
+			assert.deepEqual(event.user_data, { sha256_phone_number: [hash('1'), hash('2'), hash('3')] });
+			assert.deepEqual(
+				issues.map((i) => i.fieldPath),
+				['consent.ad_user_data', 'device.screen_resolution', 'user_data.sha256_phone_number[3]'],
+			);
+		});
+	});
+
+	describe('repair', () => {
+		it('should truncate long values and drop invalid fields', () => {
+			const { event, issues } = validateEvent(
+				{
+					client_id: 'test',
+					user_properties: { ga_plan: { value: 'pro' }, tier: { value: 'x'.repeat(40) } },
+					events: [{ name: 'test', params: { label: 'x'.repeat(120), _internal: 1, ok: true } }],
+				},
+				'repair',
+			);
+
+			assert.deepEqual(event.events[0]?.params, { label: 'x'.repeat(100), ok: true });
+			assert.deepEqual(event.user_properties, { tier: { value: 'x'.repeat(36) } });
+			assert.deepEqual(
+				issues.map((i) => [i.fieldPath, i.action]),
+				[
+					['events[0].params.label', 'truncated'],
+					['events[0].params._internal', 'dropped'],
+					['user_properties.ga_plan', 'dropped'],
+					['user_properties.tier.value', 'truncated'],
+				],
+			);
+		});
+
+		it('should report null items and user properties instead of throwing a TypeError', () => {
+			const input = {
+				client_id: 'test',
+				user_properties: { plan: null, tier: { value: 'gold' } },
+				events: [{ name: 'purchase', params: { items: [null, { item_id: 'SKU-1' }] } }],
+			} as unknown as GA4Event;
+
+			for (const mode of ['repair', 'drop'] as const) {
+				const { event, issues } = validateEvent(input, mode);
+				assert.deepEqual(event.events[0]?.params?.items, [{ item_id: 'SKU-1' }]);
+				assert.deepEqual(event.user_properties, { tier: { value: 'gold' } });
+				assert.deepEqual(
+					issues.map((i) => [i.fieldPath, i.action]),
+					[
+						['events[0].params.items[0]', 'dropped'],
+						['user_properties.plan', 'dropped'],
+					],
+				);
+			}
+			assert.throws(() => validateEvent(input), GA4ValidationError);
+			assert.throws(
+				() => validateEvent({ ...input, user_properties: undefined }),
+				(error: GA4ValidationError) => error.fieldPath === 'events[0].params.items[0]',
+			);
+		});
+
+		it('should drop invalid events and keep the rest', () => {
+			const { event, issues } = validateEvent(
+				{ client_id: 'test', events: [{ name: 'first_visit' }, { name: 'signup' }] },
+				'repair',
+			);
+			assert.deepEqual(event.events, [{ name: 'signup' }]);
+			assert.equal(issues[0]?.fieldPath, 'events[0].name');
+		});
+
+		it('should throw when no events remain', () => {
+			assert.throws(
+				() => validateEvent({ client_id: 'test', events: [{ name: 'error' }] }, 'repair'),
+				GA4ValidationError,
+			);
+		});
+
+		it('should throw for missing client_id', () => {
+			assert.throws(() => validateEvent({ client_id: '', events: [{ name: 'test' }] }, 'repair'), GA4ValidationError);
+		});
+	});
+
+	describe('drop', () => {
+		it('should drop long values instead of truncating', () => {
+			const { event, issues } = validateEvent(
+				{ client_id: 'test', events: [{ name: 'test', params: { label: 'x'.repeat(120), ok: 1 } }] },
+				'drop',
+			);
+			assert.deepEqual(event.events[0]?.params, { ok: 1 });
+			assert.equal(issues[0]?.action, 'dropped');
+		});
+	});
+
+	describe('off', () => {
+		it('should return the payload untouched', () => {
+			const event = { client_id: '', events: [{ name: '_bad' }] };
+			assert.equal(validateEvent(event, 'off').event, event);
+		});
+	});
+});
+
+describe('validationIssues', () => {
+	it('should report issues even when every event is dropped', () => {
+		const issues = validationIssues({ client_id: 'c', events: [{ name: '_bad' }, { name: 'ga_x' }] });
+		assert.deepEqual(
+			issues.map((i) => i.fieldPath),
+			['events[0].name', 'events[1].name'],
+		);
+	});
+
+	it('should throw for identity errors', () => {
+		assert.throws(() => validationIssues({ client_id: '', events: [{ name: 'e' }] }), GA4ValidationError);
+	});
+});
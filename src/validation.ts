@@ -0,0 +1,507 @@
+/**
+ * GA4 Payload Validation - enforces Measurement Protocol limits before sending.
+ * @see https://developers.google.com/analytics/devguides/collection/protocol/ga4/sending-events#limitations
+ */
+
+import { GA4ValidationError } from './errors.js';
+import {
+	GA4,
+	type GA4Consent,
+	type GA4Device,
+	type GA4Event,
+	type GA4EventItem,
+	type GA4EventParams,
+	type GA4EventSchema,
+	type GA4Item,
+	type GA4UserAddress,
+	type GA4UserData,
+	type GA4UserLocation,
+	type GA4UserProperties,
+	type GA4ValidationIssue,
+	type GA4ValidationMessage,
+	type GA4ValidationMode,
+} from './types.js';
+import { isIpAddress } from './utils.js';
+
+const NAME_PATTERN = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+const MAX_USER_ID = 256;
+
+const APP_INSTANCE_ID_PATTERN = /^[0-9A-Fa-f]{32}$/;
+
+const RESERVED_PREFIXES = ['_', 'firebase_', 'ga_', 'google_', 'gtag.'] as const;
+
+const RESERVED_USER_PROP_PREFIXES = ['_', 'firebase_', 'ga_', 'google_'] as const;
+
+const RESERVED_EVENT_NAMES = new Set([
+	'ad_activeview',
+	'ad_click',
+	'ad_exposure',
+	'ad_query',
+	'adunit_exposure',
+	'app_clear_data',
+	'app_install',
+	'app_remove',
+	'app_update',
+	'error',
+	'first_open',
+	'first_visit',
+	'in_app_purchase',
+	'notification_dismiss',
+	'notification_foreground',
+	'notification_open',
+	'notification_receive',
+	'os_update',
+	'session_start',
+	'screen_view',
+	'user_engagement',
+	'firebase_campaign',
+]);
+
+const RESERVED_USER_PROP_NAMES = new Set([
+	'first_open_time',
+	'first_visit_time',
+	'last_deep_link_referrer',
+	'user_id',
+	'first_open_after_install',
+]);
+
+/** Page parameters GA4 allows to exceed MAX_PARAM_VALUE. */
+const PARAM_VALUE_LIMITS: Readonly<Record<string, number>> = {
+	page_location: 1000,
+	page_referrer: 420,
+	page_title: 300,
+};
+
+/** Returns what is wrong with a field value, or undefined when it is valid. */
+type FieldCheck = (value: unknown) => string | undefined;
+
+const text: FieldCheck = (value) => (typeof value === 'string' && value ? undefined : 'must be a non-empty string');
+
+function oneOf(values: readonly string[]): FieldCheck {
+	return (value) => (values.includes(value as string) ? undefined : `must be one of ${values.join(', ')}`);
+}
+
+function matching(pattern: RegExp, description: string): FieldCheck {
+	return (value) => (typeof value === 'string' && pattern.test(value) ? undefined : `must be ${description}`);
+}
+
+const SHA256 = matching(/^[0-9a-f]{64}$/, 'a lowercase SHA-256 hex digest; hash raw values with hashUserData()');
+
+const COUNTRY = matching(/^[A-Z]{2}$/, 'an ISO 3166-1 alpha-2 code (e.g., "US")');
+
+const CONSENT_FIELDS: Record<keyof GA4Consent, FieldCheck> = {
+	ad_user_data: oneOf(['GRANTED', 'DENIED']),
+	ad_personalization: oneOf(['GRANTED', 'DENIED']),
+};
+
+const USER_LOCATION_FIELDS: Record<keyof GA4UserLocation, FieldCheck> = {
+	city: text,
+	region_id: matching(/^[A-Z]{2}-[A-Z0-9]{1,3}$/, 'an ISO 3166-2 code (e.g., "US-CA")'),
+	country_id: COUNTRY,
+	subcontinent_id: matching(/^\d{3}$/, 'a UN M49 code (e.g., "021")'),
+	continent_id: matching(/^\d{3}$/, 'a UN M49 code (e.g., "019")'),
+};
+
+const DEVICE_FIELDS: Record<keyof GA4Device, FieldCheck> = {
+	category: text,
+	language: matching(/^[a-z]{2,3}(-[A-Z]{2})?$/, 'an ISO 639-1 code with optional region (e.g., "en-US")'),
+	screen_resolution: matching(/^\d+x\d+$/, 'WIDTHxHEIGHT (e.g., "1280x2856")'),
+	operating_system: text,
+	operating_system_version: text,
+	model: text,
+	brand: text,
+	browser: text,
+	browser_version: text,
+};
+
+const USER_ADDRESS_FIELDS: Record<keyof GA4UserAddress, FieldCheck> = {
+	sha256_first_name: SHA256,
+	sha256_last_name: SHA256,
+	sha256_street: SHA256,
+	city: text,
+	region: text,
+	postal_code: text,
+	country: COUNTRY,
+};
+
+/** Result of validating a payload. `event` is a repaired copy when issues were found. */
+export interface GA4ValidationResult {
+	event: GA4Event;
+	issues: GA4ValidationIssue[];
+}
+
+/**
+ * Validate a payload against GA4 naming rules, reserved names and the limits in `GA4`,
+ * and against a custom event schema when given. A missing or invalid client_id/app_instance_id or an empty
+ * event list cannot be repaired and always throws.
+ * @example
+ * const { event, issues } = validateEvent(payload, 'repair');
+ */
+export function validateEvent(
+	event: GA4Event,
+	mode: GA4ValidationMode = 'strict',
+	schema?: GA4EventSchema,
+): GA4ValidationResult {
+	if (mode === 'off') return { event, issues: [] };
+
+	const validator = new PayloadValidator(mode, schema);
+	return { event: validator.event(event), issues: validator.issues };
+}
+
+/**
+ * Throw when a `sha256_*` field of `user_data` is not a SHA-256 hex digest. GA4Client runs this in every
+ * validation mode, including `off`, so raw emails, phone numbers and names are never sent.
+ */
+export function assertHashedUserData(event: GA4Event): void {
+	const data = event.user_data;
+	if (typeof data !== 'object' || data === null) return;
+
+	const check = (key: string, value: unknown, path: string) => {
+		for (const [i, v] of (Array.isArray(value) ? value : [value]).entries()) {
+			const error = SHA256(v);
+			if (error) throw new GA4ValidationError(`${key} ${error}`, Array.isArray(value) ? `${path}[${i}]` : path);
+		}
+	};
+	for (const key of ['sha256_email_address', 'sha256_phone_number'] as const) {
+		if (data[key] !== undefined) check(key, data[key], `user_data.${key}`);
+	}
+
+	const addresses = data.address === undefined ? [] : Array.isArray(data.address) ? data.address : [data.address];
+	for (const [i, address] of addresses.entries()) {
+		if (typeof address !== 'object' || address === null) continue;
+		const path = Array.isArray(data.address) ? `user_data.address[${i}]` : 'user_data.address';
+		for (const key of ['sha256_first_name', 'sha256_last_name', 'sha256_street'] as const) {
+			if (address[key] !== undefined) check(key, address[key], `${path}.${key}`);
+		}
+	}
+}
+
+/**
+ * Every issue `drop` mode finds in `event`, including when no events survive.
+ * Identity errors and an empty events array still throw, as there is nothing else to report.
+ */
+export function validationIssues(event: GA4Event): GA4ValidationIssue[] {
+	const validator = new PayloadValidator('drop');
+	try {
+		validator.event(event);
+	} catch (error) {
+		if (!validator.issues.length) throw error;
+	}
+	return validator.issues;
+}
+
+/**
+ * Client-side validation results in the debug endpoint's format, with GA4 validation codes
+ * (e.g., NAME_RESERVED, VALUE_OUT_OF_BOUNDS). Used to answer or stand in for /debug/mp/collect.
+ */
+export function validationMessages(event: GA4Event): GA4ValidationMessage[] {
+	try {
+		return validationIssues(event).map((issue) => ({
+			fieldPath: issue.fieldPath,
+			description: issue.description,
+			validationCode: validationCode(issue.description),
+		}));
+	} catch (error) {
+		if (!(error instanceof GA4ValidationError)) throw error;
+		return [errorMessage(error)];
+	}
+}
+
+/** A GA4ValidationError in the debug endpoint's message format. */
+export function errorMessage(error: GA4ValidationError): GA4ValidationMessage {
+	const description = error.message.slice(error.fieldPath.length + 2);
+	return { fieldPath: error.fieldPath, description, validationCode: validationCode(description) };
+}
+
+function validationCode(description: string): string {
+	if (/reserved/i.test(description)) return 'NAME_RESERVED';
+	if (/^Exceeds \d+ /.test(description)) return 'EXCEEDED_MAX_ENTITIES';
+	if (/exceeds \d+ chars/i.test(description)) return 'VALUE_OUT_OF_BOUNDS';
+	if (/^Name /.test(description)) return 'NAME_INVALID';
+	if (/required/i.test(description)) return 'VALUE_REQUIRED';
+	return 'VALUE_INVALID';
+}
+
+function checkName(name: string, maxLength: number, reservedPrefixes: readonly string[]): string | undefined {
+	if (!name) return 'Name is required';
+	if (name.length > maxLength) return `Name exceeds ${maxLength} chars: ${name}`;
+
+	const prefix = reservedPrefixes.find((p) => name.startsWith(p));
+	if (prefix) return `Reserved prefix "${prefix}": ${name}`;
+	if (!NAME_PATTERN.test(name)) return `Name must start with a letter and use only letters, digits and _: ${name}`;
+	return undefined;
+}
+
+class PayloadValidator {
+	readonly issues: GA4ValidationIssue[] = [];
+
+	constructor(
+		private readonly mode: Exclude<GA4ValidationMode, 'off'>,
+		private readonly schema?: GA4EventSchema,
+	) {}
+
+	event(event: GA4Event): GA4Event {
+		this.identity(event);
+		if (!event.events?.length) throw new GA4ValidationError('At least one event is required', 'events');
+
+		const result: GA4Event = { ...event, events: [] };
+
+		if (event.user_id !== undefined && event.user_id.length > MAX_USER_ID) {
+			this.report('user_id', `user_id exceeds ${MAX_USER_ID} chars`, 'dropped');
+			result.user_id = undefined;
+		}
+
+		for (const [i, item] of event.events.entries()) {
+			const valid = this.item(item, `events[${i}]`);
+			if (valid) result.events.push(valid);
+		}
+		if (!result.events.length) throw new GA4ValidationError('No valid events left after validation', 'events');
+
+		if (event.user_properties) result.user_properties = this.userProperties(event.user_properties);
+		this.requestFields(event, result);
+		return result;
+	}
+
+	/** Require exactly one of client_id (web) or app_instance_id (app); neither can be repaired. */
+	private identity(event: GA4Event): void {
+		if (event.app_instance_id === undefined) {
+			if (!event.client_id) throw new GA4ValidationError('client_id is required', 'client_id');
+			return;
+		}
+		if (event.client_id !== undefined) {
+			throw new GA4ValidationError('Pass either client_id or app_instance_id, not both', 'app_instance_id');
+		}
+		if (!APP_INSTANCE_ID_PATTERN.test(event.app_instance_id)) {
+			throw new GA4ValidationError('app_instance_id must be 32 hexadecimal characters', 'app_instance_id');
+		}
+	}
+
+	/** Validate consent, user_data, user_location, device, ip_override and non_personalized_ads. */
+	private requestFields(event: GA4Event, result: GA4Event): void {
+		if (event.consent !== undefined) result.consent = this.fields(event.consent, 'consent', CONSENT_FIELDS);
+		if (event.user_location !== undefined) {
+			result.user_location = this.fields(event.user_location, 'user_location', USER_LOCATION_FIELDS);
+		}
+		if (event.device !== undefined) result.device = this.fields(event.device, 'device', DEVICE_FIELDS);
+		if (event.user_data !== undefined) result.user_data = this.userData(event.user_data);
+
+		if (event.ip_override !== undefined && !isIpAddress(event.ip_override)) {
+			this.report('ip_override', `ip_override must be an IPv4 or IPv6 address: ${event.ip_override}`, 'dropped');
+			result.ip_override = undefined;
+		}
+		if (event.non_personalized_ads !== undefined && typeof event.non_personalized_ads !== 'boolean') {
+			this.report('non_personalized_ads', 'non_personalized_ads must be a boolean', 'dropped');
+			result.non_personalized_ads = undefined;
+		}
+	}
+
+	/** Check each field of a request-level object; returns undefined when nothing valid is left. */
+	private fields<T extends object>(value: T, path: string, checks: Record<keyof T, FieldCheck>): T | undefined {
+		if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+			this.report(path, `${path} must be an object`, 'dropped');
+			return undefined;
+		}
+
+		const result: Record<string, unknown> = {};
+		for (const [key, field] of Object.entries(value)) {
+			if (field === undefined) continue;
+
+			const check = (checks as Record<string, FieldCheck | undefined>)[key];
+			const error = check ? check(field) : 'is not a known field';
+			if (error) {
+				this.report(`${path}.${key}`, `${key} ${error}`, 'dropped');
+				continue;
+			}
+			result[key] = field;
+		}
+		return Object.keys(result).length ? (result as T) : undefined;
+	}
+
+	private userData(data: GA4UserData): GA4UserData | undefined {
+		if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+			this.report('user_data', 'user_data must be an object', 'dropped');
+			return undefined;
+		}
+
+		const result: GA4UserData = {};
+		for (const [key, value] of Object.entries(data) as [keyof GA4UserData, unknown][]) {
+			if (value === undefined) continue;
+
+			const path = `user_data.${key}`;
+			switch (key) {
+				case 'sha256_email_address':
+				case 'sha256_phone_number': {
+					const values = this.userDataValues(value, path, (v, p) => {
+						const error = SHA256(v);
+						if (error) this.report(p, `${key} ${error}`, 'dropped');
+						return error ? undefined : (v as string);
+					});
+					if (values) result[key] = values;
+					break;
+				}
+				case 'address': {
+					const values = this.userDataValues(value, path, (v, p) =>
+						this.fields(v as GA4UserAddress, p, USER_ADDRESS_FIELDS),
+					);
+					if (values) result.address = values;
+					break;
+				}
+				default:
+					this.report(path, `${key} is not a known field`, 'dropped');
+			}
+		}
+		return Object.keys(result).length ? result : undefined;
+	}
+
+	/** Check a single value or a list of up to `GA4.MAX_USER_DATA_VALUES` values, keeping the input shape. */
+	private userDataValues<T>(
+		value: unknown,
+		path: string,
+		check: (value: unknown, path: string) => T | undefined,
+	): T | T[] | undefined {
+		if (!Array.isArray(value)) return check(value, path);
+
+		const values = value.flatMap((v, i) => {
+			const itemPath = `${path}[${i}]`;
+			if (i >= GA4.MAX_USER_DATA_VALUES) {
+				this.report(itemPath, `Exceeds ${GA4.MAX_USER_DATA_VALUES} values`, 'dropped');
+				return [];
+			}
+			return check(v, itemPath) ?? [];
+		});
+		return values.length ? values : undefined;
+	}
+
+	private item(item: GA4EventItem, path: string): GA4EventItem | undefined {
+		const nameError =
+			checkName(item.name, GA4.MAX_EVENT_NAME, RESERVED_PREFIXES) ??
+			(RESERVED_EVENT_NAMES.has(item.name) ? `Reserved event name: ${item.name}` : undefined);
+
+		if (nameError) {
+			this.report(`${path}.name`, nameError, 'dropped');
+			return undefined;
+		}
+
+		const schemaError = this.schema?.check(item, path);
+		if (schemaError) {
+			this.report(schemaError.fieldPath, schemaError.description, 'dropped');
+			return undefined;
+		}
+
+		return item.params ? { ...item, params: this.params(item.params, `${path}.params`) } : item;
+	}
+
+	private params(params: GA4EventParams, path: string): GA4EventParams {
+		const result: GA4EventParams = {};
+		let count = 0;
+
+		for (const [key, value] of Object.entries(params)) {
+			if (value === undefined) continue;
+
+			const fieldPath = `${path}.${key}`;
+			const nameError = checkName(key, GA4.MAX_PARAM_NAME, RESERVED_PREFIXES);
+			if (nameError) {
+				this.report(fieldPath, nameError, 'dropped');
+				continue;
+			}
+			if (count === GA4.MAX_PARAMS) {
+				this.report(fieldPath, `Exceeds ${GA4.MAX_PARAMS} params per event`, 'dropped');
+				continue;
+			}
+
+			const limit = PARAM_VALUE_LIMITS[key] ?? GA4.MAX_PARAM_VALUE;
+			const checked = this.value(value, limit, fieldPath);
+			if (checked === undefined) continue;
+
+			result[key] = checked;
+			count++;
+		}
+
+		return result;
+	}
+
+	private userProperties(properties: GA4UserProperties): GA4UserProperties {
+		const result: GA4UserProperties = {};
+		let count = 0;
+
+		for (const [key, property] of Object.entries(properties)) {
+			const fieldPath = `user_properties.${key}`;
+			const nameError =
+				checkName(key, GA4.MAX_USER_PROP_NAME, RESERVED_USER_PROP_PREFIXES) ??
+				(RESERVED_USER_PROP_NAMES.has(key) ? `Reserved user property name: ${key}` : undefined);
+
+			if (nameError) {
+				this.report(fieldPath, nameError, 'dropped');
+				continue;
+			}
+			if (typeof property !== 'object' || property === null) {
+				this.report(fieldPath, 'User property must be an object with a value', 'dropped');
+				continue;
+			}
+			if (count === GA4.MAX_USER_PROPERTIES) {
+				this.report(fieldPath, `Exceeds ${GA4.MAX_USER_PROPERTIES} user properties`, 'dropped');
+				continue;
+			}
+
+			const value = this.value(property.value, GA4.MAX_USER_PROP_VALUE, `${fieldPath}.value`);
+			if (value === undefined) continue;
+
+			result[key] = { ...property, value };
+			count++;
+		}
+
+		return result;
+	}
+
+	private value<T extends NonNullable<GA4EventParams[string]>>(
+		value: T,
+		limit: number,
+		fieldPath: string,
+	): T | undefined {
+		if (Array.isArray(value)) {
+			const items = (value as (string | GA4Item)[]).flatMap<string | GA4Item>((v, i) => {
+				const path = `${fieldPath}[${i}]`;
+				if (v === null) {
+					this.report(path, 'Array entries must not be null', 'dropped');
+					return [];
+				}
+				if (typeof v === 'object') return this.ecommerceItem(v, i, path) ?? [];
+				return this.value(v, limit, path) ?? [];
+			});
+			return items as T;
+		}
+		if (typeof value !== 'string' || value.length <= limit) return value;
+
+		if (this.mode === 'drop') {
+			this.report(fieldPath, `Value exceeds ${limit} chars`, 'dropped');
+			return undefined;
+		}
+		this.report(fieldPath, `Value exceeds ${limit} chars`, 'truncated');
+		return value.slice(0, limit) as T;
+	}
+
+	private ecommerceItem(item: GA4Item, index: number, path: string): GA4Item | undefined {
+		if (index >= GA4.MAX_ITEMS) {
+			this.report(path, `Exceeds ${GA4.MAX_ITEMS} items per event`, 'dropped');
+			return undefined;
+		}
+		if (!item.item_id && !item.item_name) {
+			this.report(path, 'Item requires item_id or item_name', 'dropped');
+			return undefined;
+		}
+
+		const result: GA4Item = {};
+		for (const [key, value] of Object.entries(item)) {
+			if (value === undefined) continue;
+			const checked = this.value(value, GA4.MAX_PARAM_VALUE, `${path}.${key}`);
+			if (checked !== undefined) result[key] = checked;
+		}
+		return result;
+	}
+
+	private report(fieldPath: string, description: string, action: GA4ValidationIssue['action']): void {
+		if (this.mode === 'strict') throw new GA4ValidationError(description, fieldPath);
+		this.issues.push({ fieldPath, description, action });
+	}
+}
@@ -0,0 +1,31 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import { describe, it } from 'node:test';
+import * as web from './web.js';
+
+describe('web entry', () => {
+	it('should not import node: modules, even transitively', async () => {
+		const seen = new Set<string>();
+		const visit = async (file: string): Promise<void> => {
+			if (seen.has(file)) return;
+			seen.add(file);
+			const source = await readFile(new URL(file, import.meta.url), 'utf8');
+			for (const [, kind, specifier] of source.matchAll(/^(?:import|export)(\s+type)?[^'"]*from '([^']+)'/gm)) {
+				if (kind || !specifier) continue;
+				assert.ok(!specifier.startsWith('node:'), `${file} imports ${specifier}`);
+				if (specifier.startsWith('./')) await visit(specifier.replace(/\.js$/, '.ts'));
+			}
+		};
+
+		await visit('./web.ts');
+		assert.ok(seen.size > 10);
+	});
+
+	it('should export the runtime-neutral API', () => {
+		assert.equal(typeof web.GA4Client, 'function');
+		assert.equal(typeof web.GA4BeaconTransport, 'function');
+		assert.equal(typeof web.ga4EdgeHandler, 'function');
+		assert.equal('GA4FileQueueStorage' in web, false);
+		assert.equal('GA4NodeHttpTransport' in web, false);
+	});
+});
@@ -0,0 +1,140 @@
+/**
+ * GA4 Measurement Protocol Client - runtime-neutral entry for browsers, workers and edge runtimes.
+ * Uses only web platform APIs (fetch, Web Crypto); Node.js-only features are exported from index.ts.
+ * @see https://developers.google.com/analytics/devguides/collection/protocol/ga4
+ */
+
+export { GA4Client } from './client.js';
+export { GA4BatchHandler } from './batch.js';
+export { GA4BackfillImporter, GA4MemoryBackfillCheckpoint } from './backfill.js';
+export {
+	formatClientCookie,
+	formatSessionCookie,
+	generateCookieClientId,
+	parseClientCookie,
+	parseSessionCookie,
+	sessionCookieName,
+} from './cookies.js';
+export { GA4MemoryDeadLetterSink } from './deadletter.js';
+export { GA4MemoryDedupStore } from './dedup.js';
+export { flushWithWaitUntil, ga4EdgeHandler } from './edge.js';
+export { GA4CookieError, GA4Error, GA4ErrorCode, GA4ValidationError } from './errors.js';
+export { groupByIdentity } from './grouping.js';
+export { allowEvents, defaultParams, denyEvents, sampling } from './middleware.js';
+export { ga4OpenTelemetry } from './otel.js';
+export { piiScrubber, scrubPii } from './pii.js';
+export { GA4Events, recommendedEvent } from './recommended.js';
+export { GA4CircuitBreaker, GA4RateLimiter, GA4RetryBudget } from './resilience.js';
+export { GA4Router } from './router.js';
+export { defineEventSchema } from './schema.js';
+export { GA4MemorySessionStore, GA4SessionManager } from './session.js';
+export { GA4BeaconTransport, GA4FetchTransport } from './transport.js';
+export { GA4 } from './types.js';
+export {
+	generateClientId,
+	generateSessionId,
+	hashUserData,
+	normalizeEmail,
+	normalizePhone,
+	sha256,
+	toMicros,
+} from './utils.js';
+export { validateEvent } from './validation.js';
+
+export type {
+	GA4Event,
+	GA4EventFields,
+	GA4WebIdentity,
+	GA4AppIdentity,
+	GA4EventItem,
+	GA4EventMap,
+	GA4EventParams,
+	GA4EventSchema,
+	GA4Item,
+	GA4TypedEvent,
+	GA4TypedEventItem,
+	GA4UserProperties,
+	GA4Consent,
+	GA4ConsentStatus,
+	GA4Device,
+	GA4UserAddress,
+	GA4UserData,
+	GA4UserDataInput,
+	GA4UserAddressInput,
+	GA4HashUserDataOptions,
+	GA4UserLocation,
+	GA4ClientOptions,
+	GA4ClientBaseOptions,
+	GA4WebStreamOptions,
+	GA4AppStreamOptions,
+	GA4Transport,
+	GA4TransportRequest,
+	GA4TransportResponse,
+	GA4Route,
+	GA4RouteMatcher,
+	GA4RouteResult,
+	GA4RouteRule,
+	GA4RouteStatus,
+	GA4RouterDestination,
+	GA4RouterOptions,
+	GA4ExecutionContext,
+	GA4EdgeOptions,
+	GA4BatchOptions,
+	GA4DeadLetter,
+	GA4DeadLetterError,
+	GA4DeadLetterSink,
+	GA4DedupOptions,
+	GA4DedupStore,
+	GA4DropInfo,
+	GA4DropReason,
+	GA4OverflowPolicy,
+	GA4ClientCookie,
+	GA4SessionCookie,
+	GA4Session,
+	GA4SessionActivity,
+	GA4SessionOptions,
+	GA4SessionStore,
+	GA4BackfillCheckpoint,
+	GA4BackfillField,
+	GA4BackfillMapping,
+	GA4BackfillOptions,
+	GA4BackfillRejection,
+	GA4BackfillResult,
+	GA4BackfillRow,
+	GA4QueueEntry,
+	GA4QueueStorage,
+	GA4Middleware,
+	GA4MiddlewareContext,
+	GA4MiddlewareStage,
+	GA4PiiAction,
+	GA4PiiFinding,
+	GA4PiiScrubberOptions,
+	GA4PiiType,
+	GA4DebugResponse,
+	GA4ValidationMessage,
+	GA4ValidationMode,
+	GA4ValidationIssue,
+	RetryOptions,
+	GA4JitterStrategy,
+	GA4RetryBudgetOptions,
+	GA4CircuitBreakerOptions,
+	GA4RateLimiterOptions,
+	GA4RateLimitWait,
+	GA4Listener,
+	GA4ClientEvents,
+	GA4BatchEvents,
+	GA4HistogramSnapshot,
+	GA4ClientStats,
+	GA4BatchStats,
+	GA4OtelAttributes,
+	GA4OtelSpan,
+	GA4OtelTracer,
+	GA4OtelMeter,
+	GA4OtelObservableCallback,
+	GA4OtelOptions,
+	GA4CircuitState,
+} from './types.js';
+export type { GA4Monetary, GA4RecommendedEventName, GA4RecommendedEventParams } from './recommended.js';
+export type { GA4ParamSpec, GA4SchemaDefinition, InferEventMap } from './schema.js';
+export type { GA4PiiScrubResult } from './pii.js';
+export type { GA4ValidationResult } from './validation.js';
@@ -1,13 +1,13 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-  entry: ['src/index.ts'],
+  entry: ['src/index.ts', 'src/web.ts', 'src/testing.ts', 'src/bin.ts'],
   format: ['esm', 'cjs'],
   dts: true,
   sourcemap: true,
   clean: true,
   minify: false,
-  target: 'node22',
+  target: 'node20',
   splitting: false,
   treeshake: true,
 });